@@ -1,4 +1,5 @@
 import type { NextConfig } from "next";
+import { PHASE_PRODUCTION_BUILD } from "next/constants";
 
 const nextConfig: NextConfig = {
   experimental: {
@@ -23,6 +24,16 @@ const nextConfig: NextConfig = {
           },
         ],
       },
+      // Browsers check for a new service worker on navigation; never serve a stale one
+      {
+        source: "/sw.js",
+        headers: [
+          {
+            key: "Cache-Control",
+            value: "no-cache, no-store, must-revalidate",
+          },
+        ],
+      },
     ];
   },
   async redirects() {
@@ -74,4 +85,15 @@ const nextConfig: NextConfig = {
   },
 };
 
-export default nextConfig;
+export default function config(phase: string): NextConfig {
+  // Without a tile URL, maps fall back to OpenStreetMap's own servers, which are
+  // for development only (see src/lib/map-styles.ts). NEXT_PUBLIC_ values are
+  // inlined at build time, so this is the last chance to catch it.
+  if (phase === PHASE_PRODUCTION_BUILD && !process.env.NEXT_PUBLIC_MAP_TILE_URL) {
+    throw new Error(
+      "NEXT_PUBLIC_MAP_TILE_URL is not set. Point it at a tile provider or our own tile cache; " +
+        "OpenStreetMap's tile servers don't allow production traffic."
+    );
+  }
+  return nextConfig;
+}
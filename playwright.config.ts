@@ -37,5 +37,9 @@ export default defineConfig({
     command: 'npm run dev',
     url: 'http://localhost:3000',
     reuseExistingServer: !process.env.CI,
+    // Run against the fixture data so the suite needs no database
+    env: {
+      DATA_SOURCE: 'memory',
+    },
   },
 });
@@ -0,0 +1,107 @@
+/**
+ * SoakMap service worker: keeps pages saved with "Save for offline" usable
+ * without signal. What a save stores is described in src/lib/offline.ts.
+ *
+ * - Pages: network first; the saved copy, then /offline, when that fails
+ * - /_next/static: cache first (file names are content hashed)
+ * - Other hosts (map tiles, spring photos): the saved copy when there is one
+ */
+
+const SHELL_CACHE = 'soakmap-shell-v1';
+// Must match OFFLINE_CACHE in src/lib/offline.ts
+const SAVED_CACHE = 'soakmap-saved-v1';
+const OFFLINE_URL = '/offline';
+
+// Weak signal can stall a request for minutes; give up and use the saved copy
+const NAVIGATION_TIMEOUT_MS = 8000;
+
+// =============================================================================
+// Lifecycle
+// =============================================================================
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    (async () => {
+      const cache = await caches.open(SHELL_CACHE);
+      const response = await fetch(OFFLINE_URL, { cache: 'reload' });
+      if (!response.ok) throw new Error(`Could not fetch ${OFFLINE_URL}: ${response.status}`);
+      const html = await response.clone().text();
+      await cache.put(OFFLINE_URL, response);
+
+      // The fallback page's scripts and styles, so it can list saved springs
+      const assets = new Set(html.match(/\/_next\/static\/[^"'\s)\\]+/g) || []);
+      await Promise.all([...assets].map((url) => cache.add(url).catch(() => undefined)));
+
+      await self.skipWaiting();
+    })()
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(
+        names
+          .filter((name) => name.startsWith('soakmap-shell-') && name !== SHELL_CACHE)
+          .map((name) => caches.delete(name))
+      );
+      await self.clients.claim();
+    })()
+  );
+});
+
+// =============================================================================
+// Strategies
+// =============================================================================
+
+async function handleNavigation(request) {
+  const saved = await caches.open(SAVED_CACHE);
+
+  try {
+    const response = await fetch(request, { signal: AbortSignal.timeout(NAVIGATION_TIMEOUT_MS) });
+    // Keep saved pages fresh whenever they're visited with signal
+    if (response.ok && (await saved.match(request, { ignoreVary: true }))) {
+      await saved.put(request, response.clone());
+    }
+    return response;
+  } catch {
+    const cached =
+      (await saved.match(request, { ignoreVary: true })) ||
+      (await caches.match(OFFLINE_URL, { cacheName: SHELL_CACHE }));
+    return cached || Response.error();
+  }
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request, { ignoreVary: true });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(SHELL_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function savedOrNetwork(request) {
+  const cached = await caches.match(request, { cacheName: SAVED_CACHE, ignoreVary: true });
+  return cached || fetch(request);
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (url.origin !== self.location.origin) {
+    // Saves store tiles under the exact URLs the basemaps request
+    event.respondWith(savedOrNetwork(request));
+  }
+});
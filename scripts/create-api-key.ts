@@ -0,0 +1,63 @@
+#!/usr/bin/env npx tsx
+/**
+ * Issue an API key for the public JSON API
+ *
+ * Usage:
+ *   npx tsx scripts/create-api-key.ts <name> [--per-minute=120] [--per-day=20000]
+ *   npx tsx scripts/create-api-key.ts "Trailhead Maps" --per-minute=300
+ *
+ * Prints the raw key once; only its SHA-256 hash is stored. To revoke a key,
+ * set api_keys.revoked_at.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { supabase } from './lib/supabase';
+
+function parseLimit(args: string[], flag: string): number | undefined {
+  const arg = args.find((a) => a.startsWith(`--${flag}=`));
+  if (!arg) return undefined;
+
+  const value = parseInt(arg.split('=')[1], 10);
+  if (isNaN(value) || value < 1) {
+    console.error(`--${flag} must be a positive integer`);
+    process.exit(1);
+  }
+  return value;
+}
+
+async function createApiKey(name: string, perMinute?: number, perDay?: number) {
+  const rawKey = `soak_${randomBytes(24).toString('base64url')}`;
+  // Same hex SHA-256 as hashApiKey() in src/lib/api-keys.ts
+  const keyHash = createHash('sha256').update(rawKey).digest('hex');
+
+  const { data, error } = await supabase
+    .from('api_keys')
+    .insert({
+      key_hash: keyHash,
+      name,
+      per_minute_limit: perMinute,
+      per_day_limit: perDay,
+    })
+    .select('id, per_minute_limit, per_day_limit')
+    .single();
+
+  if (error) {
+    console.error('Failed to create API key:', error.message);
+    process.exit(1);
+  }
+
+  console.log(`\nAPI key for "${name}" (id ${data.id})`);
+  console.log(`Quota: ${data.per_minute_limit}/min, ${data.per_day_limit}/day`);
+  console.log(`\n  ${rawKey}\n`);
+  console.log('Store it now - it cannot be shown again.');
+}
+
+const args = process.argv.slice(2);
+const name = args.find((a) => !a.startsWith('--'));
+
+if (!name) {
+  console.log('Usage: npx tsx scripts/create-api-key.ts <name> [--per-minute=N] [--per-day=N]');
+  process.exit(1);
+}
+
+createApiKey(name, parseLimit(args, 'per-minute'), parseLimit(args, 'per-day'));
@@ -3,7 +3,7 @@ import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import { ChevronLeft, MapPin } from 'lucide-react';
 
-import { db } from '@/lib/supabase';
+import { db } from '@/lib/data';
 import {
   getSpringTypeFromFilter,
   getFilterLabel,
@@ -136,7 +136,7 @@ export default async function StateFilterPage({
   ]);
 
   const stateData = stateResult.ok ? stateResult.data : null;
-  const allSprings = springsResult.ok ? springsResult.data : [];
+  const allSprings = springsResult.ok ? springsResult.data.springs : [];
 
   // Filter by spring type
   const springs = allSprings.filter((s) => s.spring_type === springType);
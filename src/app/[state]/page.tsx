@@ -3,21 +3,30 @@ import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import { ChevronLeft, MapPin, Flame, Droplets, ThermometerSun } from 'lucide-react';
 
-import { db } from '@/lib/supabase';
-import { filterSprings } from '@/lib/utils/spring-filters';
+import { db } from '@/lib/data';
+import { pageSizeParam } from '@/lib/utils/cursor';
 import { getStateName, isValidStateCode } from '@/lib/utils';
 import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
 import { SpringGrid } from '@/components/springs/SpringCard';
 import { StatCard } from '@/components/springs/StatCard';
 import { StateFilters } from '@/components/springs/StateFilters';
+import { ExportButtons } from '@/components/springs/ExportButtons';
+import { Pagination } from '@/components/springs/Pagination';
+import { SaveOfflineButton } from '@/components/offline';
 import { SpringMap } from '@/components/maps';
 import type { SpringType, ExperienceType } from '@/types/spring';
 
-
 // Revalidate every 24 hours - data rarely changes
 export const revalidate = 86400;
 
+const PAGE_SIZE = 60;
+const MAX_PAGE_SIZE = 120;
+
+// The map plots every matching spring, not just the listed page (the data
+// layer's maximum)
+const MAP_LIMIT = 5000;
+
 // Generate static params for all states with springs
 export async function generateStaticParams() {
   const result = await db.getStates();
@@ -77,10 +86,11 @@ export default async function StatePage({
   searchParams,
 }: {
   params: Promise<{ state: string }>;
-  searchParams: Promise<{ type?: SpringType; experience?: ExperienceType }>;
+  searchParams: Promise<{ type?: SpringType; experience?: ExperienceType; cursor?: string; limit?: string }>;
 }) {
   const { state } = await params;
-  const { type: springType, experience: experienceType } = await searchParams;
+  const { type: springType, experience: experienceType, cursor, limit } = await searchParams;
+  const pageSize = pageSizeParam(limit, PAGE_SIZE, MAX_PAGE_SIZE);
 
   const stateCode = state.toUpperCase();
 
@@ -91,23 +101,46 @@ export default async function StatePage({
 
   const stateName = getStateName(stateCode);
 
-  // Fetch state data and springs in parallel
-  const [stateResult, springsResult] = await Promise.all([
+  const filters = { state: stateCode, spring_type: springType, experience_type: experienceType };
+
+  // Fetch state data, one page of springs for the grid and markers for the map in parallel
+  const [stateResult, springsResult, mapResult] = await Promise.all([
     db.getStateByCode(stateCode),
-    db.getSpringsByState(stateCode),
+    db.getSprings({ ...filters, cursor, limit: pageSize }),
+    db.getSprings({ ...filters, limit: MAP_LIMIT }),
   ]);
 
   const stateData = stateResult.ok ? stateResult.data : null;
-  const allSprings = springsResult.ok ? springsResult.data : [];
+  const springs = springsResult.ok ? springsResult.data.springs : [];
+  const mapSprings = mapResult.ok ? mapResult.data.springs : [];
+  const matchCount = springsResult.ok ? springsResult.data.total : 0;
+  const nextCursor = springsResult.ok ? springsResult.data.next_cursor : null;
+  const prevCursor = springsResult.ok ? springsResult.data.prev_cursor : null;
 
-  // Apply filters
-  const springs = filterSprings(allSprings, springType, experienceType);
+  // Counts for display, from the states row or else counted per type; with
+  // neither, the stat cards are hidden rather than showing zeros
+  let typeCounts: Record<SpringType, number> | null = stateData
+    ? { hot: stateData.hot_count, warm: stateData.warm_count, cold: stateData.cold_count }
+    : null;
+  if (!typeCounts) {
+    const facetResult = await db.getFacetCounts({ state: stateCode });
+    const byType = facetResult.ok ? facetResult.data.spring_type : undefined;
+    if (byType) {
+      typeCounts = { hot: byType.hot ?? 0, warm: byType.warm ?? 0, cold: byType.cold ?? 0 };
+    }
+  }
+  const totalCount =
+    stateData?.spring_count ?? (typeCounts ? typeCounts.hot + typeCounts.warm + typeCounts.cold : matchCount);
 
-  // Counts for display
-  const hotCount = stateData?.hot_count || allSprings.filter((s) => s.spring_type === 'hot').length;
-  const warmCount = stateData?.warm_count || allSprings.filter((s) => s.spring_type === 'warm').length;
-  const coldCount = stateData?.cold_count || allSprings.filter((s) => s.spring_type === 'cold').length;
-  const totalCount = stateData?.spring_count || allSprings.length;
+  // Pagination links keep the active filters and page size
+  const pageHref = (pageCursor: string) => {
+    const query = new URLSearchParams();
+    if (springType) query.set('type', springType);
+    if (experienceType) query.set('experience', experienceType);
+    if (limit) query.set('limit', String(pageSize));
+    query.set('cursor', pageCursor);
+    return `/${state}?${query.toString()}`;
+  };
 
   return (
     <div className="min-h-screen bg-stone">
@@ -151,13 +184,15 @@ export default async function StatePage({
         </div>
 
         {/* Stats row */}
-        <div className="container-brutal mb-8">
-          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
-            <StatCard icon={Flame} label="Hot Springs" count={hotCount} color="terracotta" />
-            <StatCard icon={ThermometerSun} label="Warm Springs" count={warmCount} color="moss" />
-            <StatCard icon={Droplets} label="Swimming Holes" count={coldCount} color="river" />
+        {typeCounts && (
+          <div className="container-brutal mb-8">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <StatCard icon={Flame} label="Hot Springs" count={typeCounts.hot} color="terracotta" />
+              <StatCard icon={ThermometerSun} label="Warm Springs" count={typeCounts.warm} color="moss" />
+              <StatCard icon={Droplets} label="Swimming Holes" count={typeCounts.cold} color="river" />
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Filters */}
         <div className="container-brutal mb-8">
@@ -167,19 +202,20 @@ export default async function StatePage({
         </div>
 
         {/* Interactive map - positioned prominently to reinforce "SoakMap" branding */}
-        {allSprings.length > 0 && (
+        {mapSprings.length > 0 && (
           <div className="container-brutal mb-8">
             <div className="aspect-[16/9] md:aspect-[21/9] rounded-xl overflow-hidden shadow-soft border border-forest/10">
-              <SpringMap springs={springs} />
+              <SpringMap springs={mapSprings} />
             </div>
           </div>
         )}
 
-        {/* Results count */}
-        <div className="container-brutal mb-6">
+        {/* Results count + offline downloads */}
+        <div className="container-brutal mb-6 flex flex-wrap items-center justify-between gap-4">
           <p className="text-bark/60 font-body">
-            Showing <span className="font-semibold text-forest">{springs.length}</span>{' '}
-            {springs.length === 1 ? 'spring' : 'springs'}
+            Showing <span className="font-semibold text-forest">{springs.length}</span> of{' '}
+            <span className="font-semibold text-forest">{matchCount.toLocaleString()}</span>{' '}
+            {matchCount === 1 ? 'spring' : 'springs'}
             {(springType || experienceType) && (
               <>
                 {' '}
@@ -189,12 +225,24 @@ export default async function StatePage({
               </>
             )}
           </p>
+          {springs.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <ExportButtons filters={{ state: stateCode, type: springType, experience: experienceType }} />
+              <SaveOfflineButton bundleQuery={`state=${stateCode}`} compact />
+            </div>
+          )}
         </div>
 
         {/* Springs grid */}
         <div className="container-brutal">
           {springs.length > 0 ? (
-            <SpringGrid springs={springs} />
+            <>
+              <SpringGrid springs={springs} />
+              <Pagination
+                prevHref={prevCursor ? pageHref(prevCursor) : null}
+                nextHref={nextCursor ? pageHref(nextCursor) : null}
+              />
+            </>
           ) : (
             <div className="bg-cream rounded-xl p-12 text-center border border-forest/10">
               <Droplets className="w-12 h-12 mx-auto text-bark/30 mb-4" />
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/data';
+import { alongRouteParamsSchema } from '@/lib/schemas';
+import { routeLengthMiles, type LatLng } from '@/lib/utils/geo';
+import { decodePolyline, parseWaypoints } from '@/lib/utils/polyline';
+import type { NearbyFilters } from '@/types/spring';
+
+// A detailed cross-country polyline is a few thousand points
+const MAX_ROUTE_POINTS = 5000;
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+type AlongRouteParam = keyof typeof alongRouteParamsSchema.shape;
+
+/**
+ * The 400 message for the first invalid param
+ */
+function invalidParamMessage(param: AlongRouteParam): string {
+  if (param === 'polyline' || param === 'waypoints') {
+    return `Invalid ${param} parameter. Must be 1 to 20000 characters.`;
+  }
+  const schema = alongRouteParamsSchema.shape[param];
+  const values = 'unwrap' in schema ? schema.unwrap().options : [];
+  return `Invalid ${param} parameter. Must be one of: ${values.join(', ')}`;
+}
+
+/**
+ * Decode the route from whichever param was given, or explain what's wrong
+ */
+function parseRoute(polyline?: string, waypoints?: string): { route: LatLng[] } | { error: string } {
+  if (polyline && waypoints) {
+    return { error: 'Pass either polyline or waypoints, not both.' };
+  }
+  if (!polyline && !waypoints) {
+    return { error: 'Missing route. Pass polyline (an encoded polyline) or waypoints (lat,lng|lat,lng).' };
+  }
+
+  const route = polyline ? decodePolyline(polyline) : parseWaypoints(waypoints!);
+  if (!route || route.length === 0) {
+    return { error: polyline ? 'Malformed polyline.' : 'Malformed waypoints. Use lat,lng|lat,lng|...' };
+  }
+  if (route.length > MAX_ROUTE_POINTS) {
+    return { error: `Route has too many points. Maximum is ${MAX_ROUTE_POINTS}; simplify it first.` };
+  }
+  if (route.some((p) => Math.abs(p.lat) > 90 || Math.abs(p.lng) > 180)) {
+    return { error: 'Route coordinates out of range. lat must be -90 to 90, lng must be -180 to 180.' };
+  }
+
+  return { route };
+}
+
+// =============================================================================
+// API Route
+// =============================================================================
+
+/**
+ * GET /api/along-route - Find springs in a corridor around a route
+ *
+ * Query params:
+ * - polyline: Route as a Google encoded polyline (precision 5)
+ * - waypoints: Route as "lat,lng|lat,lng|..." (instead of polyline)
+ * - corridor (optional): Max distance from the route in miles (1-50, default 10)
+ * - type, experience, fee, access, clothing (optional): Same filters as /api/nearby
+ * - limit (optional): Max results (1-200, default 100); the closest to the route are kept
+ *
+ * Springs come back in order along the route. Described in the OpenAPI
+ * document at /api/openapi.json.
+ */
+export async function GET(request: NextRequest) {
+  const parsed = alongRouteParamsSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+  if (!parsed.success) {
+    const param = parsed.error.issues[0].path[0] as AlongRouteParam;
+    return NextResponse.json({ error: invalidParamMessage(param) }, { status: 400 });
+  }
+
+  const { polyline, waypoints, corridor, type, experience, fee, access, clothing, limit } = parsed.data;
+
+  const parsedRoute = parseRoute(polyline, waypoints);
+  if ('error' in parsedRoute) {
+    return NextResponse.json({ error: parsedRoute.error }, { status: 400 });
+  }
+  const { route } = parsedRoute;
+
+  const filters: NearbyFilters = {
+    spring_type: type,
+    experience_type: experience,
+    fee_type: fee,
+    access_difficulty: access,
+    clothing_optional: clothing,
+  };
+
+  const result = await db.getSpringsAlongRoute(route, corridor, limit, filters);
+
+  if (!result.ok) {
+    console.error('API /along-route error:', result.error);
+    return NextResponse.json({ error: 'Failed to fetch springs along route' }, { status: 500 });
+  }
+
+  const springs = result.data;
+
+  return NextResponse.json({
+    springs,
+    count: springs.length,
+    route: { points: route.length, length_miles: routeLengthMiles(route) },
+    corridor_miles: corridor,
+  });
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/data';
+import { suggestCities, suggestStates } from '@/lib/data/autocomplete';
+import { autocompleteParamsSchema } from '@/lib/schemas';
+import type { SpringType, Suggestion } from '@/types/spring';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const SPRING_LIMIT = 5;
+const CITY_LIMIT = 4;
+const STATE_LIMIT = 2;
+
+// Suggestions only change when springs are added; let the CDN absorb keystrokes
+const CACHE_CONTROL = 'public, max-age=300, s-maxage=3600';
+
+const springTypeLabels: Record<SpringType, string> = {
+  hot: 'Hot spring',
+  warm: 'Warm spring',
+  cold: 'Swimming hole',
+};
+
+// =============================================================================
+// API Route
+// =============================================================================
+
+/**
+ * GET /api/autocomplete - Typeahead suggestions for the home search
+ *
+ * Query params:
+ * - q (required): Partial name of a spring, city or state (2-100 chars)
+ *
+ * Response: { q, suggestions } where each suggestion is
+ * { kind: 'state' | 'city' | 'spring', label, detail, url }, grouped in that order.
+ * If the spring lookup fails, place suggestions are still returned. Described
+ * in the OpenAPI document at /api/openapi.json.
+ */
+export async function GET(request: NextRequest) {
+  const parsed = autocompleteParamsSchema.safeParse({ q: request.nextUrl.searchParams.get('q') ?? '' });
+
+  if (!parsed.success) {
+    return NextResponse.json({ error: 'q must be 2-100 characters' }, { status: 400 });
+  }
+
+  const { q } = parsed.data;
+
+  const springsResult = await db.suggestSprings(q, SPRING_LIMIT);
+
+  if (!springsResult.ok) {
+    console.error('API /autocomplete error:', springsResult.error);
+  }
+
+  const springs: Suggestion[] = springsResult.ok
+    ? springsResult.data.map((spring) => ({
+        kind: 'spring',
+        label: spring.name,
+        detail: `${springTypeLabels[spring.spring_type]} · ${spring.state}`,
+        url: `/springs/${spring.slug}`,
+      }))
+    : [];
+
+  const suggestions = [
+    ...suggestStates(q, STATE_LIMIT),
+    ...suggestCities(q, CITY_LIMIT),
+    ...springs,
+  ];
+
+  return NextResponse.json(
+    { q, suggestions },
+    // Don't let a partial (places-only) response stick in the CDN
+    { headers: { 'Cache-Control': springsResult.ok ? CACHE_CONTROL : 'no-store' } }
+  );
+}
@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { exportSprings } from '@/lib/export';
+
+/**
+ * GET /api/export.geojson - Springs as a GeoJSON FeatureCollection
+ *
+ * Takes the same params as /api/export.gpx and /api/export.kml; see
+ * exportSprings in src/lib/export.
+ */
+export function GET(request: NextRequest) {
+  return exportSprings(request, 'geojson');
+}
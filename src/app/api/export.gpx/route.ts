@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { exportSprings } from '@/lib/export';
+
+/**
+ * GET /api/export.gpx - Springs as GPX 1.1 waypoints (Garmin, Gaia GPS, CalTopo)
+ *
+ * Takes the same params as /api/export.geojson and /api/export.kml; see
+ * exportSprings in src/lib/export.
+ */
+export function GET(request: NextRequest) {
+  return exportSprings(request, 'gpx');
+}
@@ -0,0 +1,12 @@
+import { NextRequest } from 'next/server';
+import { exportSprings } from '@/lib/export';
+
+/**
+ * GET /api/export.kml - Springs as KML 2.2 placemarks (Google Earth, CalTopo)
+ *
+ * Takes the same params as /api/export.geojson and /api/export.gpx; see
+ * exportSprings in src/lib/export.
+ */
+export function GET(request: NextRequest) {
+  return exportSprings(request, 'kml');
+}
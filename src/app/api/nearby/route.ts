@@ -1,37 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/supabase';
-import type { SpringType } from '@/types/spring';
+import { db } from '@/lib/data';
+import { nearbyParamsSchema } from '@/lib/schemas';
+import type { NearbyFilters } from '@/types/spring';
 
 // =============================================================================
-// Constants
+// Validation
 // =============================================================================
 
-const VALID_SPRING_TYPES: readonly SpringType[] = ['hot', 'warm', 'cold'];
-const DEFAULT_LIMIT = 20;
-const MAX_LIMIT = 50;
-const DEFAULT_RADIUS = 100;
-const MAX_RADIUS = 100;
+type NearbyParam = keyof typeof nearbyParamsSchema.shape;
 
-// =============================================================================
-// Validation Helpers
-// =============================================================================
-
-function parseCoordinate(value: string | null, min: number, max: number): number | null {
-  if (!value) return null;
-  const parsed = parseFloat(value);
-  if (isNaN(parsed) || parsed < min || parsed > max) return null;
-  return parsed;
-}
-
-function parsePositiveInt(value: string | null, defaultVal: number, max: number): number {
-  if (!value) return defaultVal;
-  const parsed = parseInt(value, 10);
-  if (isNaN(parsed) || parsed < 1) return defaultVal;
-  return Math.min(parsed, max);
-}
-
-function isValidSpringType(value: string | null): value is SpringType {
-  return value !== null && VALID_SPRING_TYPES.includes(value as SpringType);
+/**
+ * The 400 message for the first invalid param, in the shape partners already handle
+ */
+function invalidParamMessage(param: NearbyParam): string {
+  if (param === 'lat' || param === 'lng') {
+    return 'Missing or invalid coordinates. lat must be -90 to 90, lng must be -180 to 180.';
+  }
+  const schema = nearbyParamsSchema.shape[param];
+  const values = 'unwrap' in schema ? schema.unwrap().options : [];
+  return `Invalid ${param} parameter. Must be one of: ${values.join(', ')}`;
 }
 
 // =============================================================================
@@ -45,53 +32,41 @@ function isValidSpringType(value: string | null): value is SpringType {
  * - lat (required): Latitude (-90 to 90)
  * - lng (required): Longitude (-180 to 180)
  * - type (optional): Filter by spring_type ('hot' | 'warm' | 'cold')
+ * - experience (optional): Filter by experience_type ('resort' | 'primitive' | 'hybrid')
+ * - fee (optional): Filter by fee_type ('free' | 'paid' | 'donation' | 'unknown')
+ * - access (optional): Filter by access_difficulty ('drive_up' | 'short_walk' | ...)
+ * - clothing (optional): Filter by clothing_optional ('yes' | 'no' | 'unofficial' | 'unknown')
  * - limit (optional): Max results (1-50, default 20)
  * - radius (optional): Search radius in miles (1-100, default 100)
+ *
+ * Described in the OpenAPI document at /api/openapi.json.
  */
 export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-
-  // Parse and validate coordinates
-  const lat = parseCoordinate(searchParams.get('lat'), -90, 90);
-  const lng = parseCoordinate(searchParams.get('lng'), -180, 180);
+  const parsed = nearbyParamsSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
 
-  if (lat === null || lng === null) {
-    return NextResponse.json(
-      { error: 'Missing or invalid coordinates. lat must be -90 to 90, lng must be -180 to 180.' },
-      { status: 400 }
-    );
+  if (!parsed.success) {
+    const param = parsed.error.issues[0].path[0] as NearbyParam;
+    return NextResponse.json({ error: invalidParamMessage(param) }, { status: 400 });
   }
 
-  // Parse and validate optional type parameter
-  const typeParam = searchParams.get('type');
-  if (typeParam !== null && !isValidSpringType(typeParam)) {
-    return NextResponse.json(
-      { error: `Invalid type parameter. Must be one of: ${VALID_SPRING_TYPES.join(', ')}` },
-      { status: 400 }
-    );
-  }
-  const springType: SpringType | null = typeParam;
-
-  // Parse optional numeric params with validation
-  const limit = parsePositiveInt(searchParams.get('limit'), DEFAULT_LIMIT, MAX_LIMIT);
-  const radius = parsePositiveInt(searchParams.get('radius'), DEFAULT_RADIUS, MAX_RADIUS);
+  const { lat, lng, type, experience, fee, access, clothing, limit, radius } = parsed.data;
+  const filters: NearbyFilters = {
+    spring_type: type,
+    experience_type: experience,
+    fee_type: fee,
+    access_difficulty: access,
+    clothing_optional: clothing,
+  };
 
-  // Fetch nearby springs from database
-  const result = await db.getNearby(lat, lng, radius, MAX_LIMIT);
+  // Filters are applied in SQL before the limit
+  const result = await db.getNearby(lat, lng, radius, limit, filters);
 
   if (!result.ok) {
     console.error('API /nearby error:', result.error);
     return NextResponse.json({ error: 'Failed to fetch nearby springs' }, { status: 500 });
   }
 
-  // Filter by type if specified
-  let springs = result.data;
-  if (springType) {
-    springs = springs.filter((s) => s.spring_type === springType);
-  }
-
-  // Apply limit after filtering
-  springs = springs.slice(0, limit);
+  const springs = result.data;
 
   return NextResponse.json({
     springs,
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/data';
+import { offlineParamsSchema, type OfflineParamsSchema } from '@/lib/schemas';
+import { MAX_OFFLINE_PAGES, tileUrlsForSprings, type OfflineBundle, type OfflineSpring } from '@/lib/offline';
+import { getStateName } from '@/lib/utils/states';
+import type { Result } from '@/lib/data/source';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+async function fetchSprings(
+  params: OfflineParamsSchema
+): Promise<Result<{ title: string; springs: OfflineSpring[] } | null>> {
+  if (params.spring) {
+    const result = await db.getSpringBySlug(params.spring);
+    if (!result.ok) return result;
+    return { ok: true, data: result.data && { title: result.data.name, springs: [result.data] } };
+  }
+
+  if (params.state) {
+    const result = await db.getSpringsByState(params.state);
+    if (!result.ok) return result;
+    return {
+      ok: true,
+      data: { title: `Springs in ${getStateName(params.state)}`, springs: result.data.springs },
+    };
+  }
+
+  const result = await db.getSpringsByIds(params.ids ?? []);
+  if (!result.ok) return result;
+  return { ok: true, data: { title: 'Your Soak Trip', springs: result.data } };
+}
+
+// =============================================================================
+// API Route
+// =============================================================================
+
+/**
+ * GET /api/offline - What to store to use a page without signal
+ *
+ * Query params (exactly one):
+ * - spring: Spring slug, for /springs/[slug]
+ * - state: 2-letter state code, for /[state]
+ * - ids: Comma-separated spring IDs (max 25), for /trip
+ *
+ * Response: { title, springs, pages, photos, tiles } (see OfflineBundle). The
+ * response itself is stored as the saved spring data.
+ */
+export async function GET(request: NextRequest) {
+  const parsed = offlineParamsSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return NextResponse.json(
+      { error: `Invalid ${issue.path.join('.')} parameter: ${issue.message}` },
+      { status: 400 }
+    );
+  }
+
+  const params = parsed.data;
+  const given = [params.spring, params.state, params.ids].filter((value) => value !== undefined);
+  if (given.length !== 1) {
+    return NextResponse.json({ error: 'Pass exactly one of spring, state or ids' }, { status: 400 });
+  }
+
+  const result = await fetchSprings(params);
+
+  if (!result.ok) {
+    console.error('API /offline error:', result.error);
+    return NextResponse.json({ error: 'Failed to build offline bundle' }, { status: 500 });
+  }
+  if (!result.data) {
+    return NextResponse.json({ error: 'Spring not found' }, { status: 404 });
+  }
+
+  const { title, springs } = result.data;
+
+  // Every spring's data and map area, but pages and photos only for the first
+  // few of a long list
+  const withPages = springs.slice(0, MAX_OFFLINE_PAGES);
+
+  const bundle: OfflineBundle = {
+    title,
+    springs,
+    pages: withPages.map((s) => `/springs/${s.slug}`),
+    photos: withPages.flatMap((s) => (s.photo_url ? [s.photo_url] : [])),
+    tiles: tileUrlsForSprings(springs),
+  };
+
+  return NextResponse.json(bundle, {
+    headers: { 'Cache-Control': 'public, max-age=3600, s-maxage=3600' },
+  });
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+// The document only changes on deploy
+const document = buildOpenApiDocument();
+
+/**
+ * GET /api/openapi.json - OpenAPI 3 description of the public API
+ *
+ * Open to any origin so hosted viewers and client generators can fetch it.
+ */
+export function GET() {
+  return NextResponse.json(document, {
+    headers: {
+      'Cache-Control': 'public, max-age=3600, s-maxage=86400',
+      'Access-Control-Allow-Origin': '*',
+    },
+  });
+}
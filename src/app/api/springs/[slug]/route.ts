@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/data';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Same nearby query the detail page runs
+const NEARBY_RADIUS_MILES = 100;
+const NEARBY_FETCH_LIMIT = 10;
+const NEARBY_MAX_RESULTS = 8;
+
+// Validate slug format before hitting the database
+const SLUG_PATTERN = /^[a-z0-9-]+$/;
+
+function isValidSlug(slug: string): boolean {
+  return SLUG_PATTERN.test(slug) && slug.length > 0 && slug.length < 200;
+}
+
+// =============================================================================
+// API Route
+// =============================================================================
+
+/**
+ * GET /api/springs/[slug] - Full spring record with related data
+ *
+ * Response: { ok: true, data: { spring, nearby, state } }
+ * - spring: Full Spring record
+ * - nearby: Up to 8 NearbySpring records within 100 miles (excluding this spring)
+ * - state: State metadata with spring counts (null if unavailable)
+ *
+ * Errors mirror Result<T>: { ok: false, error } with status 404 or 500.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ slug: string }> }
+) {
+  const { slug } = await params;
+
+  if (!isValidSlug(slug)) {
+    return NextResponse.json({ ok: false, error: 'Spring not found' }, { status: 404 });
+  }
+
+  const springResult = await db.getSpringBySlug(slug);
+
+  if (!springResult.ok) {
+    console.error('API /springs/[slug] error:', springResult.error);
+    return NextResponse.json({ ok: false, error: 'Failed to fetch spring' }, { status: 500 });
+  }
+
+  const spring = springResult.data;
+
+  if (!spring) {
+    return NextResponse.json({ ok: false, error: 'Spring not found' }, { status: 404 });
+  }
+
+  // Related data is best-effort, same as the detail page
+  const [nearbyResult, stateResult] = await Promise.all([
+    db.getNearby(spring.lat, spring.lng, NEARBY_RADIUS_MILES, NEARBY_FETCH_LIMIT),
+    db.getStateByCode(spring.state),
+  ]);
+
+  if (!nearbyResult.ok) {
+    console.error('API /springs/[slug] nearby error:', nearbyResult.error);
+  }
+  if (!stateResult.ok) {
+    console.error('API /springs/[slug] state error:', stateResult.error);
+  }
+
+  const nearby = nearbyResult.ok
+    ? nearbyResult.data.filter((s) => s.id !== spring.id).slice(0, NEARBY_MAX_RESULTS)
+    : [];
+  const state = stateResult.ok ? stateResult.data : null;
+
+  return NextResponse.json({
+    ok: true,
+    data: { spring, nearby, state },
+  });
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/data';
+import { bboxParamsSchema } from '@/lib/schemas';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Marker caps by zoom - zoomed-out viewports cover more springs than a map can show
+const COUNTRY_ZOOM_LIMIT = 300; // zoom <= 4
+const REGION_ZOOM_LIMIT = 1000; // zoom <= 7
+const LOCAL_ZOOM_LIMIT = 3000;
+
+function limitForZoom(zoom: number): number {
+  if (zoom <= 4) return COUNTRY_ZOOM_LIMIT;
+  if (zoom <= 7) return REGION_ZOOM_LIMIT;
+  return LOCAL_ZOOM_LIMIT;
+}
+
+// =============================================================================
+// API Route
+// =============================================================================
+
+/**
+ * GET /api/springs/bbox - Map markers inside a viewport
+ *
+ * Query params:
+ * - bbox (required): "west,south,east,north" in degrees
+ * - zoom (optional): Map zoom level (0-22, default 6), caps the number of markers
+ * - type (optional): Filter by spring_type ('hot' | 'warm' | 'cold')
+ * - experience (optional): Filter by experience_type ('resort' | 'primitive' | 'hybrid')
+ *
+ * Response: { springs, count, truncated, bounds, zoom }
+ * where springs use the SpringMarker shape and truncated means the cap was hit.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+
+  const [west, south, east, north] = (searchParams.get('bbox') ?? '').split(',');
+
+  const parsed = bboxParamsSchema.safeParse({
+    west,
+    south,
+    east,
+    north,
+    zoom: searchParams.get('zoom') ?? undefined,
+    spring_type: searchParams.get('type') ?? undefined,
+    experience_type: searchParams.get('experience') ?? undefined,
+  });
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const field = issue.path.length > 0 ? issue.path.join('.') : 'bbox';
+    return NextResponse.json(
+      { error: `Invalid ${field} parameter: ${issue.message}` },
+      { status: 400 }
+    );
+  }
+
+  const { zoom, spring_type, experience_type, ...bounds } = parsed.data;
+  const limit = limitForZoom(zoom);
+
+  const result = await db.getSpringsInBounds(bounds, limit, { spring_type, experience_type });
+
+  if (!result.ok) {
+    console.error('API /springs/bbox error:', result.error);
+    return NextResponse.json({ error: 'Failed to fetch springs in bounds' }, { status: 500 });
+  }
+
+  const springs = result.data;
+
+  return NextResponse.json({
+    springs,
+    count: springs.length,
+    truncated: springs.length >= limit,
+    bounds,
+    zoom,
+  });
+}
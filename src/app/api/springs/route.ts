@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/data';
+import { springFiltersSchema, type SpringFiltersSchema } from '@/lib/schemas';
+import { decodeCursor } from '@/lib/utils/cursor';
+import { readSpringFilterParams } from '@/lib/utils/spring-filters';
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Build a link to another page of the same query, or null if there is none
+ */
+function pageUrl(request: NextRequest, cursor: string | null): string | null {
+  if (cursor === null) return null;
+  const url = request.nextUrl.clone();
+  url.searchParams.set('cursor', cursor);
+  return `${url.pathname}?${url.searchParams.toString()}`;
+}
+
+/**
+ * Whether any filter beyond state/type/experience is set (search doesn't support them)
+ */
+function hasAttributeFilters(filters: SpringFiltersSchema): boolean {
+  const basic = new Set(['state', 'spring_type', 'experience_type', 'q', 'limit', 'cursor']);
+  return Object.entries(filters).some(
+    ([key, value]) => !basic.has(key) && (Array.isArray(value) ? value.length > 0 : value !== undefined)
+  );
+}
+
+// =============================================================================
+// API Route
+// =============================================================================
+
+/**
+ * GET /api/springs - List springs with optional filters
+ *
+ * Query params:
+ * - state (optional): 2-letter state code
+ * - type (optional): Filter by spring_type ('hot' | 'warm' | 'cold')
+ * - experience (optional): Filter by experience_type ('resort' | 'primitive' | 'hybrid')
+ * - q (optional): Full-text + fuzzy search over name, description and state (max 200 chars)
+ * - limit (optional): Page size (1-100, default 20)
+ * - cursor (optional): Opaque cursor from a previous response's next/prev link
+ * - temp_min, temp_max (optional): Temperature range in °F, inclusive (0-250)
+ * - fee, access, parking, cell, crowd, season, clothing (optional): Comma-separated
+ *   lists of allowed values, e.g. fee=free,donation
+ * - kid_friendly, waterfall, cliff_jumping, rope_swing (optional): true | false
+ * - exclude_warnings (optional): Comma-separated warning types to exclude
+ *
+ * Springs with an unknown value never match a range, list or `true` filter;
+ * `false` keeps them.
+ *
+ * Without q, results are ordered by name. Response:
+ * { springs, count, total, limit, next_cursor, prev_cursor, next, prev }
+ * where next/prev are relative URLs (null when there is no such page).
+ *
+ * With q, the top `limit` results are ranked by relevance and each spring also
+ * carries `rank` and a `snippet` with matches wrapped in <mark></mark>.
+ * Cursors are not available for searches.
+ */
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+
+  // Query params use the same names as the page URLs (?type=&experience=)
+  const parsed = springFiltersSchema.safeParse({
+    ...readSpringFilterParams(searchParams),
+    limit: searchParams.get('limit') ?? undefined,
+    cursor: searchParams.get('cursor') ?? undefined,
+  });
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return NextResponse.json(
+      { error: `Invalid ${issue.path.join('.')} parameter: ${issue.message}` },
+      { status: 400 }
+    );
+  }
+
+  const filters = parsed.data;
+
+  if (filters.cursor && !decodeCursor(filters.cursor)) {
+    return NextResponse.json({ error: 'Invalid cursor parameter' }, { status: 400 });
+  }
+
+  if (filters.q) {
+    if (filters.cursor) {
+      return NextResponse.json(
+        { error: 'cursor cannot be combined with q; search returns the top results only' },
+        { status: 400 }
+      );
+    }
+
+    if (hasAttributeFilters(filters)) {
+      return NextResponse.json(
+        { error: 'q can only be combined with state, type and experience filters' },
+        { status: 400 }
+      );
+    }
+
+    const searchResult = await db.searchSprings(filters.q, filters, filters.limit);
+
+    if (!searchResult.ok) {
+      console.error('API /springs search error:', searchResult.error);
+      return NextResponse.json({ error: 'Failed to search springs' }, { status: 500 });
+    }
+
+    const { springs, total } = searchResult.data;
+
+    return NextResponse.json({
+      springs,
+      count: springs.length,
+      total,
+      limit: filters.limit,
+      next_cursor: null,
+      prev_cursor: null,
+      next: null,
+      prev: null,
+    });
+  }
+
+  const result = await db.getSprings(filters);
+
+  if (!result.ok) {
+    console.error('API /springs error:', result.error);
+    return NextResponse.json({ error: 'Failed to fetch springs' }, { status: 500 });
+  }
+
+  const { springs, total, next_cursor, prev_cursor } = result.data;
+
+  return NextResponse.json({
+    springs,
+    count: springs.length,
+    total,
+    limit: filters.limit,
+    next_cursor,
+    prev_cursor,
+    next: pageUrl(request, next_cursor),
+    prev: pageUrl(request, prev_cursor),
+  });
+}
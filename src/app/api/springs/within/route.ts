@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/data';
+import { searchAreaSchema, withinParamsSchema, type SearchAreaSchema } from '@/lib/schemas';
+import { areaSqMiles, circlePolygon, type AreaGeometry } from '@/lib/utils/geo';
+import { MAX_SHAPE_POINTS, decodeShape, shapeToGeometry } from '@/lib/utils/shape';
+import type { NearbyFilters } from '@/types/spring';
+
+// A POSTed boundary can be far longer than a URL allows
+const MAX_BODY_CHARS = 500_000;
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+type WithinParam = keyof typeof withinParamsSchema.shape;
+
+/**
+ * The 400 message for the first invalid param
+ */
+function invalidParamMessage(param: WithinParam): string {
+  if (param === 'shape' || param === 'geojson') {
+    return `Invalid ${param} parameter. Must be 1 to 20000 characters.`;
+  }
+  const schema = withinParamsSchema.shape[param];
+  const values = 'unwrap' in schema ? schema.unwrap().options : [];
+  return `Invalid ${param} parameter. Must be one of: ${values.join(', ')}`;
+}
+
+/**
+ * A validated GeoJSON search area as a polygon geometry; circles become polygons
+ */
+function toAreaGeometry(area: SearchAreaSchema): AreaGeometry {
+  if (area.type !== 'Feature') return area;
+  if ('properties' in area) {
+    const [lng, lat] = area.geometry.coordinates;
+    return circlePolygon({ lat, lng }, area.properties.radius_miles);
+  }
+  return area.geometry;
+}
+
+function pointCount(area: AreaGeometry): number {
+  const polygons = area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+  return polygons.flat().reduce((sum, ring) => sum + ring.length, 0);
+}
+
+/**
+ * Validate GeoJSON (already parsed from JSON), or explain what's wrong
+ */
+function parseGeoJson(value: unknown): { area: AreaGeometry } | { error: string } {
+  const parsed = searchAreaSchema.safeParse(value);
+  if (!parsed.success) {
+    return {
+      error:
+        'Invalid GeoJSON. Pass a Polygon or MultiPolygon (or a Feature of one) with closed rings of [lng, lat] ' +
+        'positions, or a Point Feature with a radius_miles property (up to 250).',
+    };
+  }
+
+  const area = toAreaGeometry(parsed.data);
+  if (pointCount(area) > MAX_SHAPE_POINTS) {
+    return { error: `Area has too many points. Maximum is ${MAX_SHAPE_POINTS}; simplify it first.` };
+  }
+  return { area };
+}
+
+/**
+ * Decode the area from whichever param was given, or explain what's wrong
+ */
+function parseArea(shape?: string, geojson?: string): { area: AreaGeometry } | { error: string } {
+  if (shape && geojson) {
+    return { error: 'Pass either shape or geojson, not both.' };
+  }
+  if (!shape && !geojson) {
+    return { error: 'Missing area. Pass shape (as in a /map link), geojson, or POST a GeoJSON body.' };
+  }
+
+  if (shape) {
+    const decoded = decodeShape(shape);
+    if (!decoded) {
+      return {
+        error: `Malformed shape. Use c:lat,lng,radiusMiles or p:<encoded polyline> with 3 to ${MAX_SHAPE_POINTS} points.`,
+      };
+    }
+    return { area: shapeToGeometry(decoded) };
+  }
+
+  try {
+    return parseGeoJson(JSON.parse(geojson!));
+  } catch {
+    return { error: 'Malformed geojson. Must be valid JSON.' };
+  }
+}
+
+// =============================================================================
+// API Route
+// =============================================================================
+
+async function springsWithin(
+  request: NextRequest,
+  readBody: (() => Promise<{ area: AreaGeometry } | { error: string }>) | null
+): Promise<NextResponse> {
+  const parsed = withinParamsSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+  if (!parsed.success) {
+    const param = parsed.error.issues[0].path[0] as WithinParam;
+    return NextResponse.json({ error: invalidParamMessage(param) }, { status: 400 });
+  }
+
+  const { shape, geojson, type, experience, fee, access, clothing, limit } = parsed.data;
+
+  if (readBody && (shape || geojson)) {
+    return NextResponse.json({ error: 'POST the area as the body, not as shape or geojson.' }, { status: 400 });
+  }
+
+  const parsedArea = readBody ? await readBody() : parseArea(shape, geojson);
+  if ('error' in parsedArea) {
+    return NextResponse.json({ error: parsedArea.error }, { status: 400 });
+  }
+  const { area } = parsedArea;
+
+  const filters: NearbyFilters = {
+    spring_type: type,
+    experience_type: experience,
+    fee_type: fee,
+    access_difficulty: access,
+    clothing_optional: clothing,
+  };
+
+  const result = await db.getSpringsInArea(area, limit, filters);
+
+  if (!result.ok) {
+    console.error('API /springs/within error:', result.error);
+    return NextResponse.json({ error: 'Failed to fetch springs in area' }, { status: 500 });
+  }
+
+  const springs = result.data;
+
+  return NextResponse.json({
+    springs,
+    count: springs.length,
+    truncated: springs.length >= limit,
+    area_sq_miles: Math.round(areaSqMiles(area) * 10) / 10,
+  });
+}
+
+/**
+ * GET /api/springs/within - Find springs inside a drawn polygon or circle
+ *
+ * Query params:
+ * - shape: The area as encoded in /map links, "c:lat,lng,radiusMiles" or "p:<encoded polyline>"
+ * - geojson: The area as GeoJSON (instead of shape): a Polygon or MultiPolygon,
+ *   a Feature of one, or a Point Feature with a radius_miles property
+ * - type, experience, fee, access, clothing (optional): Same filters as /api/nearby
+ * - limit (optional): Max results (1-500, default 200)
+ *
+ * Response: { springs, count, truncated, area_sq_miles }, springs with photos
+ * first. Described in the OpenAPI document at /api/openapi.json.
+ */
+export async function GET(request: NextRequest) {
+  return springsWithin(request, null);
+}
+
+/**
+ * POST /api/springs/within - The same search with the GeoJSON as the request
+ * body, for boundaries too long for a URL. Filters stay in the query string.
+ */
+export async function POST(request: NextRequest) {
+  return springsWithin(request, async () => {
+    const body = await request.text();
+    if (body.length > MAX_BODY_CHARS) {
+      return { error: `Request body too large. Maximum is ${MAX_BODY_CHARS} characters; simplify the area first.` };
+    }
+    try {
+      return parseGeoJson(JSON.parse(body));
+    } catch {
+      return { error: 'Malformed body. Must be GeoJSON.' };
+    }
+  });
+}
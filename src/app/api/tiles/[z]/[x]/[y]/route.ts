@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/data';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MAX_ZOOM = 22;
+
+// Spring data changes a few times a day at most: browsers keep tiles for an hour,
+// the CDN for a day, and a stale tile may be served for a week while revalidating
+const CACHE_CONTROL = 'public, max-age=3600, s-maxage=86400, stale-while-revalidate=604800';
+
+// =============================================================================
+// Validation Helpers
+// =============================================================================
+
+function parseTileIndex(value: string, max: number): number | null {
+  if (!/^\d+$/.test(value)) return null;
+  const parsed = parseInt(value, 10);
+  return parsed <= max ? parsed : null;
+}
+
+// =============================================================================
+// API Route
+// =============================================================================
+
+/**
+ * GET /api/tiles/{z}/{x}/{y}.pbf - Mapbox Vector Tile of spring points
+ *
+ * Single layer 'springs' with point features carrying:
+ * slug, name, spring_type, experience_type, temp_f, fee_type
+ *
+ * Empty tiles return 204. All successful responses are cacheable.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ z: string; x: string; y: string }> }
+) {
+  const { z: zParam, x: xParam, y: yParam } = await params;
+
+  const z = parseTileIndex(zParam, MAX_ZOOM);
+  const tileCount = z === null ? 0 : 2 ** z;
+  const x = parseTileIndex(xParam, tileCount - 1);
+  const y = yParam.endsWith('.pbf') ? parseTileIndex(yParam.slice(0, -4), tileCount - 1) : null;
+
+  if (z === null || x === null || y === null) {
+    return NextResponse.json(
+      { error: `Invalid tile coordinates. Expected /api/tiles/{z}/{x}/{y}.pbf with z 0-${MAX_ZOOM}.` },
+      { status: 400 }
+    );
+  }
+
+  const result = await db.getSpringTile(z, x, y);
+
+  if (!result.ok) {
+    console.error('API /tiles error:', result.error);
+    return NextResponse.json({ error: 'Failed to render tile' }, { status: 500 });
+  }
+
+  if (result.data.length === 0) {
+    return new NextResponse(null, {
+      status: 204,
+      headers: { 'Cache-Control': CACHE_CONTROL },
+    });
+  }
+
+  return new NextResponse(Buffer.from(result.data), {
+    headers: {
+      'Content-Type': 'application/vnd.mapbox-vector-tile',
+      'Cache-Control': CACHE_CONTROL,
+    },
+  });
+}
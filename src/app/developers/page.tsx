@@ -0,0 +1,276 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { ChevronLeft, FileJson } from 'lucide-react';
+
+import {
+  buildOpenApiDocument,
+  type HttpMethod,
+  type JsonSchema,
+  type OpenApiDocument,
+  type OpenApiOperation,
+  type OpenApiParameter,
+} from '@/lib/openapi';
+import { Header } from '@/components/layout/Header';
+import { Footer } from '@/components/layout/Footer';
+
+export const metadata: Metadata = {
+  title: 'API Reference | SoakMap',
+  description:
+    'Reference for the SoakMap public JSON API: endpoints, query parameters and response fields.',
+  alternates: {
+    canonical: 'https://soakmap.com/developers',
+  },
+};
+
+// =============================================================================
+// Schema Helpers
+// =============================================================================
+
+interface FieldRow {
+  name: string;
+  type: string;
+  description?: string;
+}
+
+/**
+ * Every operation in document order, one per path and method
+ */
+function listOperations(doc: OpenApiDocument): { path: string; method: HttpMethod; op: OpenApiOperation }[] {
+  return Object.entries(doc.paths).flatMap(([path, methods]) =>
+    (Object.entries(methods) as [HttpMethod, OpenApiOperation][]).map(([method, op]) => ({ path, method, op }))
+  );
+}
+
+function parameterRows(parameters: OpenApiParameter[]) {
+  return parameters.map((param) => ({
+    name: param.name,
+    type: describeType(param.schema),
+    description: param.description,
+    required: param.required,
+  }));
+}
+
+/**
+ * Follow a local #/components/schemas/... reference
+ */
+function resolveSchema(schema: JsonSchema, doc: OpenApiDocument): JsonSchema {
+  const ref = schema.$ref;
+  if (typeof ref !== 'string') return schema;
+  return doc.components.schemas[ref.replace('#/components/schemas/', '')] ?? {};
+}
+
+/**
+ * Short human-readable type, e.g. "integer (1-50, default 20)" or "string | null"
+ */
+function describeType(schema: JsonSchema): string {
+  const enumValues = schema.enum as unknown[] | undefined;
+  let type = enumValues ? enumValues.map((v) => `"${v}"`).join(' | ') : String(schema.type ?? 'any');
+
+  if (schema.type === 'array') {
+    type = `${describeType((schema.items as JsonSchema) ?? {})}[]`;
+  }
+
+  const details: string[] = [];
+  if (schema.minimum !== undefined && schema.maximum !== undefined) {
+    details.push(`${schema.minimum} to ${schema.maximum}`);
+  }
+  if (schema.default !== undefined) details.push(`default ${schema.default}`);
+  if (details.length > 0) type += ` (${details.join(', ')})`;
+
+  return schema.nullable ? `${type} | null` : type;
+}
+
+/**
+ * Flatten an object schema into dotted field rows (arrays of objects as name[].field)
+ */
+function flattenFields(schema: JsonSchema, prefix = ''): FieldRow[] {
+  const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+
+  return Object.entries(properties).flatMap(([key, property]) => {
+    const name = `${prefix}${key}`;
+    const items = property.items as JsonSchema | undefined;
+    const row: FieldRow = {
+      name,
+      type: property.type === 'object' || items?.type === 'object' ? String(property.type) : describeType(property),
+      description: property.description as string | undefined,
+    };
+
+    if (property.type === 'object') return [row, ...flattenFields(property, `${name}.`)];
+    if (items?.type === 'object') return [row, ...flattenFields(items, `${name}[].`)];
+    return [row];
+  });
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+function FieldTable({ caption, rows }: { caption: string; rows: (FieldRow & { required?: boolean })[] }) {
+  return (
+    <div className="overflow-x-auto rounded-xl border border-forest/10 bg-cream mb-6">
+      <table className="w-full text-left font-body text-sm">
+        <caption className="sr-only">{caption}</caption>
+        <thead className="bg-forest/5 text-forest">
+          <tr>
+            <th scope="col" className="px-4 py-2 font-semibold">Name</th>
+            <th scope="col" className="px-4 py-2 font-semibold">Type</th>
+            <th scope="col" className="px-4 py-2 font-semibold">Description</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.name} className="border-t border-forest/10 align-top">
+              <td className="px-4 py-2 font-mono text-forest whitespace-nowrap">
+                {row.name}
+                {row.required && <span className="text-terracotta" title="Required"> *</span>}
+              </td>
+              <td className="px-4 py-2 font-mono text-bark/70">{row.type}</td>
+              <td className="px-4 py-2 text-bark/70">{row.description}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+// =============================================================================
+// Page
+// =============================================================================
+
+export default function DevelopersPage() {
+  const doc = buildOpenApiDocument();
+
+  return (
+    <div className="min-h-screen bg-stone">
+      <Header />
+
+      <main className="pt-8 pb-20">
+        {/* Breadcrumb */}
+        <div className="container-brutal mb-6">
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 text-bark/60 hover:text-forest transition-colors font-body text-sm"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            Home
+          </Link>
+        </div>
+
+        <div className="container-brutal max-w-4xl">
+          <h1 className="font-display text-4xl md:text-5xl font-bold text-forest mb-4 leading-tight">
+            API Reference
+          </h1>
+          <p className="text-lg text-bark/70 font-body mb-4">{doc.info.description}</p>
+          <a
+            href="/api/openapi.json"
+            className="inline-flex items-center gap-2 font-body text-sm text-forest underline hover:text-terracotta transition-colors mb-12"
+          >
+            <FileJson className="w-4 h-4" />
+            OpenAPI {doc.openapi} document
+          </a>
+
+          <section id="authentication" className="mb-16 scroll-mt-24">
+            <h2 className="font-display text-2xl font-bold text-forest mb-3">Authentication &amp; limits</h2>
+            <p className="text-bark/70 font-body mb-4">
+              Requests without a key share a small per-IP quota. Partner keys get their own per-minute
+              and per-day quotas; send the key in either of these ways:
+            </p>
+            <ul className="font-body text-sm text-bark/70 space-y-1 mb-4">
+              {Object.values(doc.components.securitySchemes).map((scheme) => (
+                <li key={scheme.name}>
+                  <span className="font-mono text-forest">{scheme.name}</span> ({scheme.in}) -{' '}
+                  {scheme.description}
+                </li>
+              ))}
+            </ul>
+            <p className="text-bark/70 font-body text-sm">
+              Every response carries <code className="font-mono">X-RateLimit-Limit</code>,{' '}
+              <code className="font-mono">X-RateLimit-Remaining</code> and{' '}
+              <code className="font-mono">X-RateLimit-Reset</code>. Over quota, the API answers 429
+              with a <code className="font-mono">Retry-After</code> header.
+            </p>
+          </section>
+
+          {listOperations(doc).map(({ path, method, op }) => {
+            const [mediaType, body] = Object.entries(op.responses['200']?.content ?? {})[0] ?? [];
+            const responseSchema = body ? resolveSchema(body.schema, doc) : {};
+            const errors = Object.entries(op.responses).filter(([status]) => status !== '200');
+            const pathParams = op.parameters.filter((param) => param.in === 'path');
+            const queryParams = op.parameters.filter((param) => param.in === 'query');
+            const label = `${method.toUpperCase()} ${path}`;
+
+            return (
+              <section key={label} id={op.operationId} className="mb-16 scroll-mt-24">
+                <h2 className="font-display text-2xl font-bold text-forest mb-2">{op.summary}</h2>
+                <p className="font-mono text-sm mb-3">
+                  <span className="px-2 py-0.5 rounded bg-forest text-cream font-semibold mr-2">
+                    {method.toUpperCase()}
+                  </span>
+                  {doc.servers[0].url}
+                  {path}
+                </p>
+                <p className="text-bark/70 font-body mb-6">{op.description}</p>
+
+                {pathParams.length > 0 && (
+                  <>
+                    <h3 className="font-display text-lg font-semibold text-forest mb-3">Path parameters</h3>
+                    <FieldTable caption={`Path parameters for ${label}`} rows={parameterRows(pathParams)} />
+                  </>
+                )}
+
+                {queryParams.length > 0 && (
+                  <>
+                    <h3 className="font-display text-lg font-semibold text-forest mb-3">Query parameters</h3>
+                    <FieldTable caption={`Query parameters for ${label}`} rows={parameterRows(queryParams)} />
+                  </>
+                )}
+
+                {op.requestBody && (
+                  <>
+                    <h3 className="font-display text-lg font-semibold text-forest mb-3">Request body</h3>
+                    <p className="text-bark/70 font-body text-sm mb-6">
+                      <span className="font-mono">application/json</span> - {op.requestBody.description}
+                    </p>
+                  </>
+                )}
+
+                {responseSchema.type === 'object' ? (
+                  <>
+                    <h3 className="font-display text-lg font-semibold text-forest mb-3">Response fields</h3>
+                    <FieldTable caption={`Response fields for ${label}`} rows={flattenFields(responseSchema)} />
+                  </>
+                ) : (
+                  <>
+                    <h3 className="font-display text-lg font-semibold text-forest mb-3">Response</h3>
+                    <p className="text-bark/70 font-body text-sm mb-6">
+                      <span className="font-mono">{mediaType}</span> - {String(responseSchema.description ?? '')}
+                    </p>
+                  </>
+                )}
+
+                {errors.length > 0 && (
+                  <>
+                    <h3 className="font-display text-lg font-semibold text-forest mb-3">Errors</h3>
+                    <p className="text-bark/70 font-body text-sm mb-2">
+                      Error responses have the body <code className="font-mono">{'{ "error": "..." }'}</code>.
+                    </p>
+                    <ul className="font-body text-sm text-bark/70 space-y-1">
+                      {errors.map(([status, response]) => (
+                        <li key={status}>
+                          <span className="font-mono text-forest">{status}</span> - {response.description}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </section>
+            );
+          })}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { Suspense } from 'react';
 import { Metadata } from 'next';
 import { Loader2, Clock } from 'lucide-react';
 
-import { db } from '@/lib/supabase';
+import { db } from '@/lib/data';
 import { safeJsonLd, generateBreadcrumbSchema, generateItemListSchema } from '@/lib/schema';
 import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
@@ -72,7 +72,7 @@ export default async function HotSpringsNearMePage() {
   if (!springsResult.ok) {
     console.error('[Hot Springs Near Me] Failed to load springs:', springsResult.error);
   }
-  const featuredSprings = springsResult.ok ? springsResult.data : [];
+  const featuredSprings = springsResult.ok ? springsResult.data.springs : [];
 
   // Get all states for quick links
   const statesResult = await db.getStates();
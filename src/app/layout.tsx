@@ -1,6 +1,7 @@
 import type { Metadata, Viewport } from 'next';
 import Script from 'next/script';
 import { Bricolage_Grotesque, Newsreader } from 'next/font/google';
+import { ServiceWorkerRegistration } from '@/components/offline';
 import './globals.css';
 
 const GA_MEASUREMENT_ID = 'G-PPNREVBS7E';
@@ -86,6 +87,7 @@ export default function RootLayout({
       </head>
       <body className={`${bricolage.variable} ${newsreader.variable} antialiased`}>
         {children}
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
@@ -0,0 +1,17 @@
+import { MetadataRoute } from 'next';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'SoakMap - Hot Springs & Swimming Holes',
+    short_name: 'SoakMap',
+    description: 'Find natural hot springs and swimming holes, and save them for trips without signal.',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#F5F3EF',
+    theme_color: '#2D4739',
+    icons: [
+      { src: '/icon.png', sizes: '500x500', type: 'image/png' },
+      { src: '/apple-icon.png', sizes: '500x500', type: 'image/png', purpose: 'maskable' },
+    ],
+  };
+}
@@ -0,0 +1,96 @@
+import { Metadata } from 'next';
+
+import { experienceTypeSchema, springTypeSchema } from '@/lib/schemas';
+import { decodeShape, shapeToGeometry, type DrawnShape } from '@/lib/utils/shape';
+import { Header } from '@/components/layout/Header';
+import { ExploreMap } from '@/components/explore';
+
+export const metadata: Metadata = {
+  title: 'Explore the Map | SoakMap',
+  description:
+    'Browse every hot spring and swimming hole on one map. Pan anywhere or draw an area, filter by temperature and experience, and share the view.',
+  alternates: {
+    canonical: 'https://soakmap.com/map',
+  },
+};
+
+// Continental US
+const DEFAULT_CENTER: [number, number] = [-98.5, 39.8];
+const DEFAULT_ZOOM = 4;
+
+// =============================================================================
+// URL Parsing
+// =============================================================================
+
+type RawSearchParams = Record<string, string | string[] | undefined>;
+
+function first(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function clampZoom(zoom: number): number {
+  return Math.min(18, Math.max(2, zoom));
+}
+
+/**
+ * A view that frames a shared area, for links carrying just ?shape=
+ */
+function shapeView(shape: DrawnShape): { center: [number, number]; zoom: number } {
+  const [ring] = shapeToGeometry(shape).coordinates;
+  const lngs = ring.map(([lng]) => lng);
+  const lats = ring.map(([, lat]) => lat);
+  const [west, east, south, north] = [Math.min(...lngs), Math.max(...lngs), Math.min(...lats), Math.max(...lats)];
+  // About four 256px tiles across, leaving the area some margin
+  const span = Math.max(east - west, north - south, 0.01);
+  return { center: [(west + east) / 2, (south + north) / 2], zoom: clampZoom(Math.log2(360 / span) + 1) };
+}
+
+/**
+ * ?lat=&lng=&zoom= as written by ExploreMap; a bad or partial view (hand-edited
+ * URL) frames the shared area if there is one, else the whole country
+ */
+function parseView(params: RawSearchParams, shape: DrawnShape | null): { center: [number, number]; zoom: number } {
+  const lat = parseFloat(first(params.lat) ?? '');
+  const lng = parseFloat(first(params.lng) ?? '');
+  const zoom = parseFloat(first(params.zoom) ?? '');
+
+  if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 85 || Math.abs(lng) > 180) {
+    return shape ? shapeView(shape) : { center: DEFAULT_CENTER, zoom: DEFAULT_ZOOM };
+  }
+
+  return { center: [lng, lat], zoom: isNaN(zoom) ? DEFAULT_ZOOM : clampZoom(zoom) };
+}
+
+// =============================================================================
+// Page
+// =============================================================================
+
+export default async function MapPage({
+  searchParams,
+}: {
+  searchParams: Promise<RawSearchParams>;
+}) {
+  const params = await searchParams;
+  const rawShape = first(params.shape);
+  const shape = rawShape ? decodeShape(rawShape) : null;
+  const { center, zoom } = parseView(params, shape);
+  const springType = springTypeSchema.safeParse(first(params.type));
+  const experienceType = experienceTypeSchema.safeParse(first(params.experience));
+
+  return (
+    <div className="h-dvh flex flex-col bg-stone">
+      <Header />
+
+      <main className="flex-1 min-h-0">
+        <h1 className="sr-only">Explore hot springs and swimming holes on the map</h1>
+        <ExploreMap
+          initialCenter={center}
+          initialZoom={zoom}
+          initialType={springType.success ? springType.data : null}
+          initialExperience={experienceType.success ? experienceType.data : null}
+          initialShape={shape}
+        />
+      </main>
+    </div>
+  );
+}
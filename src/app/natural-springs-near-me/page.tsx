@@ -2,7 +2,7 @@ import { Suspense } from 'react';
 import { Metadata } from 'next';
 import { Loader2, Clock } from 'lucide-react';
 
-import { db } from '@/lib/supabase';
+import { db } from '@/lib/data';
 import { safeJsonLd, generateBreadcrumbSchema, generateItemListSchema } from '@/lib/schema';
 import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
@@ -3,7 +3,7 @@ import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import { ChevronLeft, MapPin, Flame, Droplets, ThermometerSun, Navigation } from 'lucide-react';
 
-import { db } from '@/lib/supabase';
+import { db } from '@/lib/data';
 import { getCityBySlug, getAllCitySlugs } from '@/lib/data/cities';
 import { filterSprings } from '@/lib/utils/spring-filters';
 import { Header } from '@/components/layout/Header';
@@ -3,7 +3,7 @@ import { redirect } from 'next/navigation';
 import Link from 'next/link';
 import { ChevronLeft, MapPin, Flame, Droplets, ThermometerSun, Navigation } from 'lucide-react';
 
-import { db } from '@/lib/supabase';
+import { db } from '@/lib/data';
 import { filterSprings } from '@/lib/utils/spring-filters';
 import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
@@ -0,0 +1,44 @@
+import { Metadata } from 'next';
+import { CloudOff } from 'lucide-react';
+
+import { Header } from '@/components/layout/Header';
+import { Footer } from '@/components/layout/Footer';
+import { SavedOfflineList } from '@/components/offline';
+
+export const metadata: Metadata = {
+  title: 'Saved Offline | SoakMap',
+  description: 'Springs you saved for places without cell service.',
+  robots: { index: false },
+};
+
+// The service worker precaches this page and serves it for any navigation it
+// can't reach the network for and hasn't saved
+export default function OfflinePage() {
+  return (
+    <div className="min-h-screen bg-stone">
+      <Header />
+
+      <main className="pt-8 pb-20">
+        <div className="container-brutal mb-8">
+          <div className="flex items-center gap-2 text-bark/60 font-body text-sm mb-3">
+            <CloudOff className="w-4 h-4" />
+            <span>Offline</span>
+          </div>
+          <h1 className="font-display text-4xl md:text-5xl font-bold text-forest mb-4 leading-tight">
+            Saved for Offline
+          </h1>
+          <p className="text-lg text-bark/70 font-body max-w-2xl">
+            Pages you saved open without a connection, including photos and the map around each spring.
+            If you landed here, the page you asked for isn&apos;t saved on this device.
+          </p>
+        </div>
+
+        <div className="container-brutal max-w-4xl">
+          <SavedOfflineList />
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { ChevronLeft, Route, Droplets, ArrowRight } from 'lucide-react';
+
+import { db } from '@/lib/data';
+import { getAllCities, getCityBySlug, type SeedCity } from '@/lib/data/cities';
+import { routeLengthMiles } from '@/lib/utils/geo';
+import { getStateName } from '@/lib/utils/states';
+import { Header } from '@/components/layout/Header';
+import { Footer } from '@/components/layout/Footer';
+import { SpringCard } from '@/components/springs/SpringCard';
+import { SpringMap } from '@/components/maps';
+import type { RouteSpring } from '@/types/spring';
+
+export const metadata: Metadata = {
+  title: 'Plan a Road Trip | SoakMap',
+  description:
+    'Find hot springs and swimming holes along your drive. Pick a start and end city to see every spring within reach of the route.',
+  alternates: {
+    canonical: 'https://soakmap.com/plan',
+  },
+};
+
+const CORRIDOR_OPTIONS = [10, 25, 50];
+const DEFAULT_CORRIDOR = 25;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Seed cities grouped by state name, for <optgroup>s
+ */
+function citiesByState(): [string, SeedCity[]][] {
+  const groups = new Map<string, SeedCity[]>();
+  for (const city of getAllCities()) {
+    const state = getStateName(city.state);
+    groups.set(state, [...(groups.get(state) ?? []), city]);
+  }
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([state, cities]) => [state, [...cities].sort((a, b) => a.name.localeCompare(b.name))]);
+}
+
+function parseCorridor(value: string | undefined): number {
+  const corridor = Number(value);
+  return CORRIDOR_OPTIONS.includes(corridor) ? corridor : DEFAULT_CORRIDOR;
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+function CitySelect({ name, label, value }: { name: string; label: string; value?: string }) {
+  return (
+    <label className="block">
+      <span className="block font-display text-sm font-medium text-forest mb-1.5">{label}</span>
+      <select
+        name={name}
+        defaultValue={value ?? ''}
+        required
+        className="w-full px-3 py-2 rounded-lg border border-forest/20 bg-cream font-body text-sm text-forest focus-natural"
+      >
+        <option value="" disabled>
+          Choose a city
+        </option>
+        {citiesByState().map(([state, cities]) => (
+          <optgroup key={state} label={state}>
+            {cities.map((city) => (
+              <option key={city.slug} value={city.slug}>
+                {city.name}, {city.state}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+function RouteStop({ spring }: { spring: RouteSpring }) {
+  return (
+    <li className="grid grid-cols-[5rem_1fr] gap-4 items-start">
+      <div className="pt-4 text-right">
+        <div className="font-display text-lg font-bold text-forest">Mile {Math.round(spring.route_miles)}</div>
+        <div className="font-body text-xs text-bark/60">+{Math.round(spring.detour_miles)} mi detour</div>
+      </div>
+      <SpringCard spring={spring} />
+    </li>
+  );
+}
+
+// =============================================================================
+// Page
+// =============================================================================
+
+export default async function PlanPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string; corridor?: string }>;
+}) {
+  const params = await searchParams;
+  const from = params.from ? getCityBySlug(params.from) : null;
+  const to = params.to ? getCityBySlug(params.to) : null;
+  const corridor = parseCorridor(params.corridor);
+
+  const hasRoute = from !== null && to !== null && from.slug !== to.slug;
+
+  // Straight line between the cities - roads wander, so the corridor absorbs it
+  const route = hasRoute ? [from, to] : [];
+  const result = hasRoute ? await db.getSpringsAlongRoute(route, corridor, 100) : null;
+  const springs = result?.ok ? result.data : [];
+
+  return (
+    <div className="min-h-screen bg-stone">
+      <Header />
+
+      <main className="pt-8 pb-20">
+        {/* Breadcrumb */}
+        <div className="container-brutal mb-6">
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 text-bark/60 hover:text-forest transition-colors font-body text-sm"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            Home
+          </Link>
+        </div>
+
+        {/* Hero + route form */}
+        <div className="container-brutal mb-12">
+          <div className="relative overflow-hidden rounded-2xl bg-gradient-to-br from-forest/5 via-transparent to-sand/20 p-8 md:p-12 border border-forest/10">
+            <div className="absolute -top-20 -right-20 w-64 h-64 rounded-full bg-terracotta/10 blur-3xl" />
+
+            <div className="relative">
+              <div className="flex items-center gap-2 text-bark/60 font-body text-sm mb-3">
+                <Route className="w-4 h-4" />
+                <span>Road trip planner</span>
+              </div>
+
+              <h1 className="font-display text-4xl md:text-5xl font-bold text-forest mb-4 leading-tight">
+                Springs Along Your Route
+              </h1>
+
+              <p className="text-lg text-bark/70 font-body max-w-2xl mb-8">
+                Pick where you&apos;re starting and where you&apos;re headed. We&apos;ll list every spring
+                within reach of the drive, in the order you&apos;ll pass them.
+              </p>
+
+              <form action="/plan" className="grid gap-4 md:grid-cols-[1fr_1fr_10rem_auto] md:items-end">
+                <CitySelect name="from" label="Start" value={from?.slug} />
+                <CitySelect name="to" label="End" value={to?.slug} />
+                <label className="block">
+                  <span className="block font-display text-sm font-medium text-forest mb-1.5">
+                    Max detour
+                  </span>
+                  <select
+                    name="corridor"
+                    defaultValue={String(corridor)}
+                    className="w-full px-3 py-2 rounded-lg border border-forest/20 bg-cream font-body text-sm text-forest focus-natural"
+                  >
+                    {CORRIDOR_OPTIONS.map((miles) => (
+                      <option key={miles} value={miles}>
+                        {miles} mi off route
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <button
+                  type="submit"
+                  className="inline-flex items-center justify-center gap-2 px-5 py-2 rounded-lg bg-forest text-cream font-display text-sm font-medium hover:bg-terracotta transition-colors"
+                >
+                  Find springs
+                  <ArrowRight className="w-4 h-4" />
+                </button>
+              </form>
+            </div>
+          </div>
+        </div>
+
+        {hasRoute && (
+          <>
+            {/* Summary */}
+            <div className="container-brutal mb-6">
+              <p className="text-bark/60 font-body">
+                <span className="font-semibold text-forest">{springs.length}</span>{' '}
+                {springs.length === 1 ? 'spring' : 'springs'} within {corridor} miles of the{' '}
+                {Math.round(routeLengthMiles(route))}-mile line from {from.name} to {to.name}. Distances are
+                straight-line, so expect more on the road.
+              </p>
+            </div>
+
+            {/* Map */}
+            {springs.length > 0 && (
+              <div className="container-brutal mb-12">
+                <div className="aspect-[16/9] rounded-xl overflow-hidden shadow-soft border border-forest/10">
+                  <SpringMap
+                    springs={springs}
+                    center={[(from.lng + to.lng) / 2, (from.lat + to.lat) / 2]}
+                    zoom={5}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Springs in route order */}
+            <div className="container-brutal">
+              {springs.length > 0 ? (
+                <ol className="space-y-6 max-w-3xl">
+                  {springs.map((spring) => (
+                    <RouteStop key={spring.id} spring={spring} />
+                  ))}
+                </ol>
+              ) : (
+                <div className="bg-cream rounded-xl p-12 text-center border border-forest/10">
+                  <Droplets className="w-12 h-12 mx-auto text-bark/30 mb-4" />
+                  <h3 className="font-display text-xl font-semibold text-forest mb-2">
+                    {result?.ok === false ? 'Something went wrong' : 'No springs along this route'}
+                  </h3>
+                  <p className="text-bark/60 font-body">
+                    {result?.ok === false
+                      ? 'We could not load springs for this route. Please try again.'
+                      : 'Try allowing a longer detour, or check the springs near either end.'}
+                  </p>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {/* Custom routes via the API */}
+        <div className="container-brutal mt-12">
+          <p className="text-sm text-bark/60 font-body">
+            Have an exact driving route? Send its encoded polyline to{' '}
+            <Link href="/developers" className="text-forest hover:text-terracotta transition-colors">
+              /api/along-route
+            </Link>
+            .
+          </p>
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/data';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Spring IDs are UUIDs; anything else can't exist, so skip the database
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// The target changes when a spring is renamed, so don't let clients hold the
+// redirect forever
+const CACHE_CONTROL = 'public, max-age=3600, s-maxage=3600';
+
+// =============================================================================
+// Route
+// =============================================================================
+
+/**
+ * GET /s/[id] - Stable spring permalink
+ *
+ * 301-redirects to /springs/[slug] using the spring's current slug, so shared
+ * links and bookmarks survive renames. Unknown IDs return 404; database
+ * failures return 500 rather than a misleading 404.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const result = UUID_PATTERN.test(id)
+    ? await db.getSpringById(id)
+    : ({ ok: true, data: null } as const);
+
+  if (!result.ok) {
+    console.error('Permalink /s/[id] error:', result.error);
+    return new NextResponse('Failed to look up spring', {
+      status: 500,
+      headers: { 'Content-Type': 'text/plain' },
+    });
+  }
+
+  const spring = result.data;
+
+  if (!spring) {
+    return new NextResponse('Spring not found', {
+      status: 404,
+      headers: { 'Content-Type': 'text/plain' },
+    });
+  }
+
+  const response = NextResponse.redirect(new URL(`/springs/${spring.slug}`, request.url), 301);
+  response.headers.set('Cache-Control', CACHE_CONTROL);
+  return response;
+}
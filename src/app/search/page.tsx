@@ -0,0 +1,168 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { ChevronLeft, Search } from 'lucide-react';
+
+import { db } from '@/lib/data';
+import { springFiltersSchema } from '@/lib/schemas';
+import { readSpringFilterParams, SPRING_FILTER_PARAMS } from '@/lib/utils/spring-filters';
+import { Header } from '@/components/layout/Header';
+import { Footer } from '@/components/layout/Footer';
+import { SearchFacets, SearchResults, ClearFiltersButton } from '@/components/search';
+import type { SpringFilters, SpringSort } from '@/types/spring';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Results are shown in full on the map, so cap rather than paginate
+const RESULT_LIMIT = 200;
+
+const SORTS: SpringSort[] = ['name', 'distance', 'temperature', 'recent'];
+
+// Facet params cleared by "Clear filters" (q, sort and origin survive)
+const FACET_PARAMS = SPRING_FILTER_PARAMS.map(({ param }) => param).filter((param) => param !== 'q');
+
+export const metadata: Metadata = {
+  title: 'Search Springs | SoakMap',
+  description:
+    'Filter every hot spring and swimming hole in America by state, temperature, cost, access, crowds, features and more.',
+  alternates: {
+    canonical: 'https://soakmap.com/search',
+  },
+  // Filter combinations are endless; keep them out of the index
+  robots: { index: false, follow: true },
+};
+
+// =============================================================================
+// URL Parsing
+// =============================================================================
+
+type RawSearchParams = Record<string, string | string[] | undefined>;
+
+function toURLSearchParams(raw: RawSearchParams): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(raw)) {
+    for (const v of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+      params.append(key, v);
+    }
+  }
+  return params;
+}
+
+/**
+ * Parse each filter on its own so one bad param (hand-edited URL) drops only itself
+ */
+function parseFilters(params: URLSearchParams): SpringFilters {
+  const shape = springFiltersSchema.innerType().shape;
+  const filters: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(readSpringFilterParams(params))) {
+    if (value === undefined) continue;
+    const parsed = shape[key as keyof typeof shape].safeParse(value);
+    if (parsed.success) filters[key] = parsed.data;
+  }
+  return filters as SpringFilters;
+}
+
+function parseOrigin(params: URLSearchParams): { lat: number; lng: number } | undefined {
+  const lat = parseFloat(params.get('lat') ?? '');
+  const lng = parseFloat(params.get('lng') ?? '');
+  if (isNaN(lat) || isNaN(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return undefined;
+  return { lat, lng };
+}
+
+// =============================================================================
+// Page
+// =============================================================================
+
+export default async function SearchPage({
+  searchParams,
+}: {
+  searchParams: Promise<RawSearchParams>;
+}) {
+  const params = toURLSearchParams(await searchParams);
+  const filters = parseFilters(params);
+  const origin = parseOrigin(params);
+  const requestedSort = params.get('sort') as SpringSort | null;
+  const sort: SpringSort =
+    requestedSort && SORTS.includes(requestedSort) && (requestedSort !== 'distance' || origin)
+      ? requestedSort
+      : 'name';
+
+  const [resultsResult, facetsResult] = await Promise.all([
+    db.getFacetedSprings(filters, sort, origin, RESULT_LIMIT),
+    db.getFacetCounts(filters),
+  ]);
+
+  const springs = resultsResult.ok ? resultsResult.data.springs : [];
+  const total = resultsResult.ok ? resultsResult.data.total : 0;
+  const counts = facetsResult.ok ? facetsResult.data : {};
+
+  return (
+    <div className="min-h-screen bg-stone">
+      <Header />
+
+      <main className="pt-8 pb-20">
+        {/* Breadcrumb */}
+        <div className="container-brutal mb-6">
+          <Link
+            href="/"
+            className="inline-flex items-center gap-2 text-bark/60 hover:text-forest transition-colors font-body text-sm"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            Home
+          </Link>
+        </div>
+
+        <div className="container-brutal mb-8">
+          <h1 className="font-display text-4xl md:text-5xl font-bold text-forest mb-6 leading-tight">
+            Search Springs
+          </h1>
+
+          {/* Keyword search - a plain GET form keeps every other param */}
+          <form action="/search" method="get" role="search" className="flex gap-2 max-w-2xl">
+            {Array.from(params.entries())
+              .filter(([key]) => key !== 'q')
+              .map(([key, value], i) => (
+                <input key={`${key}-${i}`} type="hidden" name={key} value={value} />
+              ))}
+            <label htmlFor="search-q" className="sr-only">
+              Search springs
+            </label>
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-bark/40" />
+              <input
+                id="search-q"
+                type="search"
+                name="q"
+                defaultValue={filters.q}
+                maxLength={200}
+                placeholder="Name, description or state"
+                className="w-full pl-9 pr-3 py-2 rounded-lg border border-forest/20 bg-cream font-body text-forest placeholder:text-bark/40 focus-natural"
+              />
+            </div>
+            <button
+              type="submit"
+              className="px-4 py-2 rounded-lg bg-forest text-cream font-display text-sm font-semibold hover:bg-forest/90 transition-colors focus-natural"
+            >
+              Search
+            </button>
+          </form>
+        </div>
+
+        <div className="container-brutal grid gap-8 lg:grid-cols-[16rem_1fr]">
+          <div>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="font-display text-lg font-semibold text-forest">Filters</h2>
+              <ClearFiltersButton params={FACET_PARAMS} />
+            </div>
+            <SearchFacets counts={counts} />
+          </div>
+
+          <SearchResults springs={springs} total={total} sort={sort} hasOrigin={origin !== undefined} />
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { Metadata } from 'next';
-import { notFound } from 'next/navigation';
+import { notFound, permanentRedirect } from 'next/navigation';
 import Link from 'next/link';
 import {
   MapPin,
@@ -21,7 +21,7 @@ import {
 } from 'lucide-react';
 
 import { getSpringBySlug, getAllSpringSlugs } from '@/lib/data/springs';
-import { db } from '@/lib/supabase';
+import { db } from '@/lib/data';
 import { generateSpringSchema, generateBreadcrumbSchema, safeJsonLd } from '@/lib/schema';
 import { getStateName } from '@/lib/utils';
 import { Header } from '@/components/layout/Header';
@@ -30,6 +30,8 @@ import { SpringTypeBadge, ExperienceTypeBadge, Badge } from '@/components/ui/Bad
 import { MarkdownContent } from '@/components/ui/MarkdownContent';
 import { SpringCard } from '@/components/springs/SpringCard';
 import { SingleSpringMap } from '@/components/maps';
+import { AddToTripButton } from '@/components/trip';
+import { SaveOfflineButton } from '@/components/offline';
 import type { Spring, NearbySpring, SpringSummary } from '@/types/spring';
 
 // Revalidate every 24 hours - spring data rarely changes
@@ -187,6 +189,11 @@ export default async function SpringDetailPage({
   const spring = await getSpringBySlug(slug);
 
   if (!spring) {
+    // Renamed springs keep their old URLs working
+    const currentSlug = await db.getCurrentSlug(slug);
+    if (currentSlug.ok && currentSlug.data) {
+      permanentRedirect(`/springs/${currentSlug.data}`);
+    }
     notFound();
   }
 
@@ -281,6 +288,8 @@ export default async function SpringDetailPage({
                   Get Directions
                   <ExternalLink className="w-4 h-4 opacity-60" />
                 </a>
+                <AddToTripButton springId={spring.id} />
+                <SaveOfflineButton bundleQuery={`spring=${spring.slug}`} />
               </div>
 
               {/* Warnings */}
@@ -1,17 +1,20 @@
 import { Metadata } from 'next';
 import Link from 'next/link';
-import { ChevronLeft, Droplets, Flame, ThermometerSun } from 'lucide-react';
+import { ChevronLeft, Droplets, Flame, Search, ThermometerSun } from 'lucide-react';
 
-import { db } from '@/lib/supabase';
+import { db } from '@/lib/data';
 import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
 import { SpringGrid } from '@/components/springs/SpringCard';
+import { Pagination } from '@/components/springs/Pagination';
 import { StatCard } from '@/components/springs/StatCard';
 import { StateFilters } from '@/components/springs/StateFilters';
-import type { SpringType, ExperienceType } from '@/types/spring';
+import type { SpringType, ExperienceType, SpringSummary, SpringSearchResult } from '@/types/spring';
 
 export const revalidate = 86400; // 24 hours - data rarely changes
 
+const PAGE_SIZE = 60;
+
 export const metadata: Metadata = {
   title: 'All Natural Springs | SoakMap',
   description:
@@ -32,23 +35,44 @@ export const metadata: Metadata = {
 export default async function SpringsPage({
   searchParams,
 }: {
-  searchParams: Promise<{ type?: SpringType; experience?: ExperienceType }>;
+  searchParams: Promise<{
+    type?: SpringType;
+    experience?: ExperienceType;
+    cursor?: string;
+    q?: string;
+  }>;
 }) {
-  const { type: springType, experience: experienceType } = await searchParams;
-
-  // Fetch springs with filters applied at DB level, plus stats
-  const [springsResult, statsResult] = await Promise.all([
-    db.getSprings({
-      spring_type: springType,
-      experience_type: experienceType,
-      limit: 3000
-    }),
+  const { type: springType, experience: experienceType, cursor, q } = await searchParams;
+  const query = q?.trim().slice(0, 200) || undefined;
+
+  // Searches are ranked by relevance (top results only); browsing pages by name
+  const [listResult, statsResult] = await Promise.all([
+    query
+      ? db.searchSprings(query, { spring_type: springType, experience_type: experienceType }, PAGE_SIZE)
+      : db.getSprings({
+          spring_type: springType,
+          experience_type: experienceType,
+          cursor,
+          limit: PAGE_SIZE,
+        }),
     db.getStats(),
   ]);
 
-  const springs = springsResult.ok ? springsResult.data : [];
+  const springs: (SpringSummary | SpringSearchResult)[] = listResult.ok ? listResult.data.springs : [];
+  const matchCount = listResult.ok ? listResult.data.total : 0;
+  const nextCursor = listResult.ok && 'next_cursor' in listResult.data ? listResult.data.next_cursor : null;
+  const prevCursor = listResult.ok && 'prev_cursor' in listResult.data ? listResult.data.prev_cursor : null;
   const stats = statsResult.ok ? statsResult.data : { total: 0, hot: 0, warm: 0, cold: 0 };
 
+  // Pagination links keep the active filters
+  const pageHref = (pageCursor: string) => {
+    const params = new URLSearchParams();
+    if (springType) params.set('type', springType);
+    if (experienceType) params.set('experience', experienceType);
+    params.set('cursor', pageCursor);
+    return `/springs?${params.toString()}`;
+  };
+
   return (
     <div className="min-h-screen bg-stone">
       <Header />
@@ -95,18 +119,62 @@ export default async function SpringsPage({
           </div>
         </div>
 
-        {/* Filters */}
+        {/* Search + filters */}
         <div className="container-brutal mb-8">
-          <div className="bg-cream rounded-xl p-4 border border-forest/10 shadow-soft">
-            <StateFilters />
+          <div className="bg-cream rounded-xl p-4 border border-forest/10 shadow-soft space-y-4">
+            <form action="/springs" method="get" role="search" className="flex gap-2">
+              {springType && <input type="hidden" name="type" value={springType} />}
+              {experienceType && <input type="hidden" name="experience" value={experienceType} />}
+              <label htmlFor="springs-search" className="sr-only">
+                Search springs
+              </label>
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-bark/40" />
+                <input
+                  id="springs-search"
+                  type="search"
+                  name="q"
+                  defaultValue={query}
+                  maxLength={200}
+                  placeholder="Search by name, description or state"
+                  className="w-full pl-9 pr-3 py-2 rounded-lg border border-forest/20 bg-stone/40 font-body text-forest placeholder:text-bark/40 focus-natural"
+                />
+              </div>
+              <button
+                type="submit"
+                className="px-4 py-2 rounded-lg bg-forest text-cream font-display text-sm font-semibold hover:bg-forest/90 transition-colors focus-natural"
+              >
+                Search
+              </button>
+            </form>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <StateFilters />
+              <Link
+                href={`/search?${new URLSearchParams({
+                  ...(springType && { type: springType }),
+                  ...(experienceType && { experience: experienceType }),
+                  ...(query && { q: query }),
+                }).toString()}`}
+                className="text-sm font-display font-medium text-forest hover:text-terracotta transition-colors"
+              >
+                More filters &amp; sorting →
+              </Link>
+            </div>
           </div>
         </div>
 
         {/* Results count */}
         <div className="container-brutal mb-6">
           <p className="text-bark/60 font-body">
-            Showing <span className="font-semibold text-forest">{springs.length}</span>{' '}
-            {springs.length === 1 ? 'spring' : 'springs'}
+            Showing <span className="font-semibold text-forest">{springs.length}</span> of{' '}
+            <span className="font-semibold text-forest">{matchCount.toLocaleString()}</span>{' '}
+            {matchCount === 1 ? 'spring' : 'springs'}
+            {query && (
+              <>
+                {' '}
+                matching <span className="font-semibold text-forest">&ldquo;{query}&rdquo;</span>
+              </>
+            )}
             {(springType || experienceType) && (
               <>
                 {' '}
@@ -119,7 +187,14 @@ export default async function SpringsPage({
         {/* Springs grid */}
         <div className="container-brutal">
           {springs.length > 0 ? (
-            <SpringGrid springs={springs} />
+            <>
+              <SpringGrid springs={springs} />
+
+              <Pagination
+                prevHref={prevCursor ? pageHref(prevCursor) : null}
+                nextHref={nextCursor ? pageHref(nextCursor) : null}
+              />
+            </>
           ) : (
             <div className="bg-cream rounded-xl p-12 text-center border border-forest/10">
               <Droplets className="w-12 h-12 mx-auto text-bark/30 mb-4" />
@@ -3,7 +3,7 @@ import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import { Clock } from 'lucide-react';
 
-import { db } from '@/lib/supabase';
+import { db } from '@/lib/data';
 import { safeJsonLd, generateBreadcrumbSchema, generateItemListSchema } from '@/lib/schema';
 import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
@@ -13,16 +13,23 @@ import {
   NearMeFAQ,
   generateFAQSchema,
 } from '@/components/near-me';
+import { ExportButtons } from '@/components/springs/ExportButtons';
+import { Pagination } from '@/components/springs/Pagination';
 import { getTagContent, VALID_TAG_SLUGS } from '@/lib/data/tag-content';
-import type { SpringSummary } from '@/types';
+import { pageSizeParam } from '@/lib/utils/cursor';
+import { TAG_FILTERS } from '@/lib/utils/spring-filters';
 
 // ISR: Revalidate every 24 hours - data rarely changes
 export const revalidate = 86400;
 
+const PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 120;
+
 interface TagPageProps {
   params: Promise<{
     tag: string;
   }>;
+  searchParams: Promise<{ cursor?: string; limit?: string }>;
 }
 
 // Generate static params for all valid tags
@@ -65,21 +72,18 @@ export async function generateMetadata({ params }: TagPageProps): Promise<Metada
 }
 
 /**
- * Calculate state breakdown from springs
+ * State breakdown from per-state counts, largest first
  */
-function getStateBreakdown(springs: SpringSummary[]): Array<{ state: string; count: number }> {
-  const stateCounts = springs.reduce((acc, spring) => {
-    acc[spring.state] = (acc[spring.state] || 0) + 1;
-    return acc;
-  }, {} as Record<string, number>);
-
+function getStateBreakdown(stateCounts: Record<string, number>): Array<{ state: string; count: number }> {
   return Object.entries(stateCounts)
     .map(([state, count]) => ({ state, count }))
     .sort((a, b) => b.count - a.count);
 }
 
-export default async function TagPage({ params }: TagPageProps) {
+export default async function TagPage({ params, searchParams }: TagPageProps) {
   const { tag } = await params;
+  const { cursor, limit } = await searchParams;
+  const pageSize = pageSizeParam(limit, PAGE_SIZE, MAX_PAGE_SIZE);
   const content = getTagContent(tag);
 
   // 404 if invalid tag
@@ -87,15 +91,29 @@ export default async function TagPage({ params }: TagPageProps) {
     notFound();
   }
 
-  // Fetch springs matching this tag
-  const springsResult = await db.getSpringsByTag(tag);
+  // One page of springs matching this tag, plus per-state counts across all of them
+  const [springsResult, countsResult] = await Promise.all([
+    db.getSpringsByTag(tag, { cursor, limit: pageSize }),
+    db.getFacetCounts(TAG_FILTERS[tag]),
+  ]);
   if (!springsResult.ok) {
     console.error(`[Tag/${tag}] Failed to load springs:`, springsResult.error);
   }
-  const springs = springsResult.ok ? springsResult.data : [];
+  const springs = springsResult.ok ? springsResult.data.springs : [];
+  const totalCount = springsResult.ok ? springsResult.data.total : 0;
+  const nextCursor = springsResult.ok ? springsResult.data.next_cursor : null;
+  const prevCursor = springsResult.ok ? springsResult.data.prev_cursor : null;
+
+  // Pagination links keep the page size
+  const pageHref = (pageCursor: string) => {
+    const query = new URLSearchParams();
+    if (limit) query.set('limit', String(pageSize));
+    query.set('cursor', pageCursor);
+    return `/tag/${tag}?${query.toString()}`;
+  };
 
   // Get state breakdown
-  const stateBreakdown = getStateBreakdown(springs);
+  const stateBreakdown = getStateBreakdown(countsResult.ok ? (countsResult.data.state ?? {}) : {});
   const topStates = stateBreakdown.slice(0, 10);
 
   // Structured data schemas
@@ -149,7 +167,7 @@ export default async function TagPage({ params }: TagPageProps) {
               {/* Tag label */}
               <div className="inline-flex items-center gap-2 px-3 py-1 rounded-full bg-forest/10 text-forest font-body text-sm mb-4">
                 <span className="w-2 h-2 rounded-full bg-moss" />
-                <span>{springs.length.toLocaleString()} springs</span>
+                <span>{totalCount.toLocaleString()} springs</span>
               </div>
 
               {/* H1 */}
@@ -164,7 +182,7 @@ export default async function TagPage({ params }: TagPageProps) {
 
               {/* State breakdown summary */}
               {topStates.length > 0 && (
-                <div className="flex flex-wrap items-center gap-2">
+                <div className="flex flex-wrap items-center gap-2 mb-6">
                   <span className="text-sm text-bark/60 font-body">Top states:</span>
                   {topStates.slice(0, 5).map((item) => (
                     <Link
@@ -178,18 +196,27 @@ export default async function TagPage({ params }: TagPageProps) {
                   ))}
                 </div>
               )}
+
+              {/* Offline downloads */}
+              {springs.length > 0 && <ExportButtons filters={{ tag }} />}
             </div>
           </div>
         </div>
 
         {/* Springs Grid */}
         <FeaturedSpringsGrid
-          springs={springs.slice(0, 24)}
+          springs={springs}
           title={`Browse ${content.h1}`}
-          description={`Discover ${springs.length.toLocaleString()} natural springs matching this category.`}
+          description={`Discover ${totalCount.toLocaleString()} natural springs matching this category.`}
           viewAllHref="/states"
           viewAllLabel="Browse all states"
         />
+        <div className="container-brutal -mt-6 mb-12">
+          <Pagination
+            prevHref={prevCursor ? pageHref(prevCursor) : null}
+            nextHref={nextCursor ? pageHref(nextCursor) : null}
+          />
+        </div>
 
         {/* State Breakdown Section */}
         {stateBreakdown.length > 0 && (
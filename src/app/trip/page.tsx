@@ -0,0 +1,203 @@
+import { Metadata } from 'next';
+import Link from 'next/link';
+import { ChevronLeft, Route, Droplets, ArrowDown } from 'lucide-react';
+
+import { db } from '@/lib/data';
+import { MAX_TRIP_STOPS, planTrip } from '@/lib/trip';
+import { Header } from '@/components/layout/Header';
+import { Footer } from '@/components/layout/Footer';
+import { SpringCard } from '@/components/springs/SpringCard';
+import { SpringMap } from '@/components/maps';
+import { RemoveFromTripLink, SharedTripPrompt, tripHref } from '@/components/trip';
+import { SaveOfflineButton } from '@/components/offline';
+import type { TripLeg } from '@/lib/trip';
+
+export const metadata: Metadata = {
+  title: 'Your Soak Trip | SoakMap',
+  description: 'A suggested order for visiting the springs on your road trip, with drive distances between stops.',
+  // Every combination of springs is its own URL
+  robots: { index: false },
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+/**
+ * Distinct, well-formed spring IDs from ?ids=a,b,c
+ */
+function parseIds(value: string | undefined): string[] {
+  const ids = (value ?? '')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter((id) => UUID_PATTERN.test(id));
+  return [...new Set(ids)].slice(0, MAX_TRIP_STOPS);
+}
+
+function formatDuration(minutes: number): string {
+  const rounded = Math.max(1, Math.round(minutes));
+  const hours = Math.floor(rounded / 60);
+  const rest = rounded % 60;
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+function LegRow({ leg, estimated }: { leg: TripLeg; estimated: boolean }) {
+  return (
+    <div className="flex items-center gap-3 pl-3 text-sm text-bark/60 font-body">
+      <ArrowDown className="w-4 h-4 text-forest/40" />
+      <span>
+        {estimated && '~'}
+        {Math.round(leg.miles)} mi · {formatDuration(leg.minutes)} to {leg.to.name}
+      </span>
+    </div>
+  );
+}
+
+function EmptyTrip() {
+  return (
+    <div className="bg-cream rounded-xl p-12 text-center border border-forest/10">
+      <Droplets className="w-12 h-12 mx-auto text-bark/30 mb-4" />
+      <h3 className="font-display text-xl font-semibold text-forest mb-2">No springs in this trip yet</h3>
+      <p className="text-bark/60 font-body mb-4">
+        Use &ldquo;Add to Trip&rdquo; on any spring page, then come back here for the best order to visit them.
+      </p>
+      <Link
+        href="/springs"
+        className="inline-flex items-center gap-2 text-forest hover:text-terracotta transition-colors font-display font-medium"
+      >
+        Browse springs
+      </Link>
+    </div>
+  );
+}
+
+// =============================================================================
+// Page
+// =============================================================================
+
+export default async function TripPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ ids?: string }>;
+}) {
+  const { ids: idsParam } = await searchParams;
+  const ids = parseIds(idsParam);
+
+  const springsResult = await db.getSpringsByIds(ids);
+  const springs = springsResult.ok ? springsResult.data : [];
+  const planResult = springs.length > 0 ? await planTrip(springs) : null;
+  const plan = planResult?.ok ? planResult.data : null;
+
+  const stopIds = plan ? plan.stops.map((s) => s.id) : [];
+  const estimated = plan?.routing === 'haversine';
+
+  return (
+    <div className="min-h-screen bg-stone">
+      <Header />
+
+      <main className="pt-8 pb-20">
+        {/* Breadcrumb */}
+        <div className="container-brutal mb-6">
+          <Link
+            href="/springs"
+            className="inline-flex items-center gap-2 text-bark/60 hover:text-forest transition-colors font-body text-sm"
+          >
+            <ChevronLeft className="w-4 h-4" />
+            All Springs
+          </Link>
+        </div>
+
+        <div className="container-brutal mb-8">
+          <div className="flex items-center gap-2 text-bark/60 font-body text-sm mb-3">
+            <Route className="w-4 h-4" />
+            <span>Road trip</span>
+          </div>
+          <h1 className="font-display text-4xl md:text-5xl font-bold text-forest mb-4 leading-tight">
+            Your Soak Trip
+          </h1>
+
+          {plan && (
+            <>
+              <p className="text-lg text-bark/70 font-body max-w-2xl">
+                {plan.stops.length} {plan.stops.length === 1 ? 'stop' : 'stops'}
+                {plan.legs.length > 0 && (
+                  <>
+                    {' '}· {estimated && 'about '}
+                    {Math.round(plan.totalMiles)} miles · {formatDuration(plan.totalMinutes)} of driving
+                  </>
+                )}
+              </p>
+              <p className="text-sm text-bark/50 font-body mt-2">
+                {estimated
+                  ? 'Drive distances are estimated from straight-line distance; check a map before you go.'
+                  : 'Drive distances and times follow the road network.'}{' '}
+                <Link href={tripHref(stopIds)} className="text-forest hover:text-terracotta transition-colors">
+                  Link to this trip
+                </Link>
+              </p>
+              <SaveOfflineButton bundleQuery={`ids=${stopIds.join(',')}`} compact className="mt-4 items-start" />
+            </>
+          )}
+        </div>
+
+        {/* A linked trip never replaces the visitor's own without asking */}
+        {idsParam !== undefined && springsResult.ok && <SharedTripPrompt ids={stopIds} />}
+
+        {plan ? (
+          <>
+            {/* Map */}
+            <div className="container-brutal mb-12">
+              <div className="aspect-[16/9] rounded-xl overflow-hidden shadow-soft border border-forest/10">
+                <SpringMap
+                  springs={plan.stops}
+                  center={[plan.stops[0].lng, plan.stops[0].lat]}
+                  zoom={plan.stops.length === 1 ? 9 : 6}
+                />
+              </div>
+            </div>
+
+            {/* Stops in visiting order */}
+            <div className="container-brutal">
+              <ol className="space-y-4 max-w-3xl">
+                {plan.stops.map((spring, i) => (
+                  <li key={spring.id} className="space-y-4">
+                    <div className="grid grid-cols-[2.5rem_1fr] gap-4 items-start">
+                      <div className="mt-4 w-10 h-10 rounded-full bg-forest text-cream font-display font-bold flex items-center justify-center">
+                        {i + 1}
+                      </div>
+                      <div>
+                        <SpringCard spring={spring} />
+                        <RemoveFromTripLink springId={spring.id} tripIds={stopIds} />
+                      </div>
+                    </div>
+                    {plan.legs[i] && <LegRow leg={plan.legs[i]} estimated={estimated} />}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </>
+        ) : (
+          <div className="container-brutal">
+            {planResult?.ok === false || !springsResult.ok ? (
+              <div className="bg-cream rounded-xl p-12 text-center border border-forest/10">
+                <h3 className="font-display text-xl font-semibold text-forest mb-2">Something went wrong</h3>
+                <p className="text-bark/60 font-body">We could not plan this trip. Please try again.</p>
+              </div>
+            ) : (
+              <EmptyTrip />
+            )}
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -3,7 +3,7 @@ import { Metadata } from 'next';
 import { notFound } from 'next/navigation';
 import { Loader2, Clock } from 'lucide-react';
 
-import { db } from '@/lib/supabase';
+import { db } from '@/lib/data';
 import { safeJsonLd, generateBreadcrumbSchema, generateItemListSchema } from '@/lib/schema';
 import { Header } from '@/components/layout/Header';
 import { Footer } from '@/components/layout/Footer';
@@ -121,7 +121,7 @@ export default async function TypePage({ params }: TypePageProps) {
   if (!springsResult.ok) {
     console.error(`[Type Page: ${type}] Failed to load springs:`, springsResult.error);
   }
-  const featuredSprings = springsResult.ok ? springsResult.data : [];
+  const featuredSprings = springsResult.ok ? springsResult.data.springs : [];
 
   // Get all states for quick links
   const statesResult = await db.getStates();
@@ -0,0 +1,438 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { CircleDashed, List, Loader2, MapPin, Pentagon, Search, X } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { encodeShape, type DrawnShape } from '@/lib/utils/shape';
+import { SpringMap, type DrawMode, type MapView } from '@/components/maps';
+import { FilterToggleRow } from '@/components/home/FilterToggles';
+import type { ExperienceType, MapBounds, SpringMarker, SpringType } from '@/types/spring';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Rows rendered in the side list; the map shows everything
+const LIST_LIMIT = 100;
+
+// Springs fetched for a drawn area, which isn't narrowed by zooming
+const AREA_LIMIT = 500;
+
+const DRAW_HINTS: Record<DrawMode, string> = {
+  polygon: 'Click to add points; double-click or click the first point to finish. Esc cancels.',
+  circle: 'Press at the center and drag out the radius. Esc cancels.',
+};
+
+const TYPE_LABELS: Record<SpringType, string> = {
+  hot: 'Hot spring',
+  warm: 'Warm spring',
+  cold: 'Swimming hole',
+};
+
+const TYPE_DOT_COLORS: Record<SpringType, string> = {
+  hot: 'bg-hot',
+  warm: 'bg-warm',
+  cold: 'bg-cold',
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface ExploreFilters {
+  type: SpringType | null;
+  experience: ExperienceType | null;
+}
+
+interface SearchResult {
+  springs: SpringMarker[];
+  truncated: boolean;
+  // The viewport searched; null for a drawn area
+  bounds: MapBounds | null;
+  zoom: number;
+}
+
+/**
+ * Viewport bounds as /api/springs/bbox accepts them. Views that wrap the
+ * antimeridian are widened to the whole range.
+ */
+function clampBounds(bounds: MapBounds): MapBounds {
+  const west = Math.max(-180, bounds.west);
+  const east = Math.min(180, bounds.east);
+  return {
+    west: west < east ? west : -180,
+    south: Math.max(-90, bounds.south),
+    east: west < east ? east : 180,
+    north: Math.min(90, bounds.north),
+  };
+}
+
+function containsBounds(outer: MapBounds, inner: MapBounds): boolean {
+  return (
+    inner.west >= outer.west && inner.east <= outer.east && inner.south >= outer.south && inner.north <= outer.north
+  );
+}
+
+function inBounds(spring: SpringMarker, bounds: MapBounds): boolean {
+  return spring.lng >= bounds.west && spring.lng <= bounds.east && spring.lat >= bounds.south && spring.lat <= bounds.north;
+}
+
+function filterParams(params: URLSearchParams, filters: ExploreFilters): URLSearchParams {
+  if (filters.type) params.set('type', filters.type);
+  if (filters.experience) params.set('experience', filters.experience);
+  return params;
+}
+
+/**
+ * The shareable /map URL for a view, filters and drawn area
+ */
+function exploreHref(view: MapView, filters: ExploreFilters, shape: DrawnShape | null): string {
+  const params = filterParams(
+    new URLSearchParams({
+      lat: view.center[1].toFixed(4),
+      lng: view.center[0].toFixed(4),
+      zoom: view.zoom.toFixed(1),
+    }),
+    filters
+  );
+  if (shape) params.set('shape', encodeShape(shape));
+  return `/map?${params}`;
+}
+
+// =============================================================================
+// Components
+// =============================================================================
+
+interface SpringRowProps {
+  spring: SpringMarker;
+  highlighted: boolean;
+  onHover: (springId: string | null) => void;
+  onFocus: (springId: string) => void;
+  rowRef: (el: HTMLLIElement | null) => void;
+}
+
+function SpringRow({ spring, highlighted, onHover, onFocus, rowRef }: SpringRowProps) {
+  return (
+    <li
+      ref={rowRef}
+      onMouseEnter={() => onHover(spring.id)}
+      onMouseLeave={() => onHover(null)}
+      className={cn(
+        'flex items-center gap-3 px-4 py-3 border-b border-forest/10 transition-colors',
+        highlighted ? 'bg-cream' : 'hover:bg-cream/60'
+      )}
+    >
+      <span className={cn('w-3 h-3 rounded-full shrink-0', TYPE_DOT_COLORS[spring.spring_type])} aria-hidden />
+      <div className="min-w-0 flex-1">
+        <Link
+          href={`/springs/${spring.slug}`}
+          className="block truncate font-display font-semibold text-forest hover:text-terracotta transition-colors"
+        >
+          {spring.name}
+        </Link>
+        <p className="text-xs text-bark/60 font-body capitalize">
+          {TYPE_LABELS[spring.spring_type]} · {spring.experience_type}
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={() => onFocus(spring.id)}
+        aria-label={`Show ${spring.name} on the map`}
+        className="p-1.5 rounded-md text-bark/50 hover:text-terracotta hover:bg-stone transition-colors"
+      >
+        <MapPin className="w-4 h-4" />
+      </button>
+    </li>
+  );
+}
+
+interface DrawToolsProps {
+  drawMode: DrawMode | null;
+  hasShape: boolean;
+  onDrawModeChange: (mode: DrawMode | null) => void;
+  onClear: () => void;
+}
+
+const DRAW_BUTTON_CLASS =
+  'inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border font-display text-sm font-medium transition-colors';
+
+function DrawTools({ drawMode, hasShape, onDrawModeChange, onClear }: DrawToolsProps) {
+  const tools: { mode: DrawMode; label: string; Icon: typeof Pentagon }[] = [
+    { mode: 'polygon', label: 'Draw area', Icon: Pentagon },
+    { mode: 'circle', label: 'Circle', Icon: CircleDashed },
+  ];
+
+  return (
+    <div className="flex items-center gap-2" role="group" aria-label="Search a drawn area">
+      {tools.map(({ mode, label, Icon }) => (
+        <button
+          key={mode}
+          type="button"
+          onClick={() => onDrawModeChange(drawMode === mode ? null : mode)}
+          aria-pressed={drawMode === mode}
+          className={cn(
+            DRAW_BUTTON_CLASS,
+            drawMode === mode
+              ? 'border-forest bg-forest text-cream'
+              : 'border-forest/20 bg-cream text-forest hover:border-forest/40'
+          )}
+        >
+          <Icon className="w-4 h-4" />
+          {label}
+        </button>
+      ))}
+      {hasShape && (
+        <button
+          type="button"
+          onClick={onClear}
+          className={cn(DRAW_BUTTON_CLASS, 'border-terracotta/30 bg-cream text-terracotta hover:border-terracotta/60')}
+        >
+          <X className="w-4 h-4" />
+          Clear area
+        </button>
+      )}
+    </div>
+  );
+}
+
+// =============================================================================
+// ExploreMap Component - Full-screen map with a list of what's in view
+// =============================================================================
+
+interface ExploreMapProps {
+  initialCenter: [number, number];
+  initialZoom: number;
+  initialType: SpringType | null;
+  initialExperience: ExperienceType | null;
+  initialShape: DrawnShape | null;
+}
+
+export function ExploreMap({
+  initialCenter,
+  initialZoom,
+  initialType,
+  initialExperience,
+  initialShape,
+}: ExploreMapProps) {
+  const [filters, setFilters] = useState<ExploreFilters>({ type: initialType, experience: initialExperience });
+  const [shape, setShape] = useState<DrawnShape | null>(initialShape);
+  const [drawMode, setDrawMode] = useState<DrawMode | null>(null);
+  const [view, setView] = useState<MapView | null>(null);
+  const [result, setResult] = useState<SearchResult | null>(null);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [listOpen, setListOpen] = useState(true);
+
+  const request = useRef<AbortController | null>(null);
+  const rows = useRef(new Map<string, HTMLLIElement>());
+
+  const runSearch = useCallback(async (url: string, bounds: MapBounds | null, zoom: number) => {
+    request.current?.abort();
+    const controller = new AbortController();
+    request.current = controller;
+
+    setStatus('loading');
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) throw new Error(`Search failed: ${response.status}`);
+      const data: { springs: SpringMarker[]; truncated: boolean } = await response.json();
+      setResult({ springs: data.springs, truncated: data.truncated, bounds, zoom });
+      setStatus('idle');
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Explore map search error:', error);
+      setStatus('error');
+    }
+  }, []);
+
+  const search = useCallback(
+    (searchView: MapView, searchFilters: ExploreFilters) => {
+      const bounds = clampBounds(searchView.bounds);
+      const params = filterParams(
+        new URLSearchParams({
+          bbox: [bounds.west, bounds.south, bounds.east, bounds.north].map((n) => n.toFixed(5)).join(','),
+          zoom: searchView.zoom.toFixed(1),
+        }),
+        searchFilters
+      );
+      return runSearch(`/api/springs/bbox?${params}`, bounds, searchView.zoom);
+    },
+    [runSearch]
+  );
+
+  const searchArea = useCallback(
+    (area: DrawnShape, searchFilters: ExploreFilters, zoom: number) => {
+      const params = filterParams(
+        new URLSearchParams({ shape: encodeShape(area), limit: String(AREA_LIMIT) }),
+        searchFilters
+      );
+      return runSearch(`/api/springs/within?${params}`, null, zoom);
+    },
+    [runSearch]
+  );
+
+  useEffect(() => () => request.current?.abort(), []);
+
+  // Keep the URL shareable without a navigation per pan
+  useEffect(() => {
+    if (view) window.history.replaceState(null, '', exploreHref(view, filters, shape));
+  }, [view, filters, shape]);
+
+  // Scroll the list to springs hovered on the map
+  useEffect(() => {
+    if (hoveredId) rows.current.get(hoveredId)?.scrollIntoView({ block: 'nearest' });
+  }, [hoveredId]);
+
+  const handleViewChange = (next: MapView) => {
+    setView(next);
+    // The first view is searched right away; later ones wait for "Search this area"
+    if (!result && status === 'idle') {
+      if (shape) searchArea(shape, filters, next.zoom);
+      else search(next, filters);
+    }
+  };
+
+  const handleFiltersChange = (next: ExploreFilters) => {
+    setFilters(next);
+    if (shape) searchArea(shape, next, view?.zoom ?? initialZoom);
+    else if (view) search(view, next);
+  };
+
+  const handleShapeDrawn = (next: DrawnShape) => {
+    setShape(next);
+    setDrawMode(null);
+    searchArea(next, filters, view?.zoom ?? initialZoom);
+  };
+
+  const clearShape = () => {
+    setShape(null);
+    setDrawMode(null);
+    if (view) search(view, filters);
+  };
+
+  // A viewport search covers the view unless the view extends past it, or the
+  // search hit its marker cap and the view has since zoomed in. A drawn area
+  // stays put as the map moves.
+  const needsSearch =
+    view !== null &&
+    result?.bounds != null &&
+    (!containsBounds(result.bounds, clampBounds(view.bounds)) || (result.truncated && view.zoom > result.zoom + 0.5));
+
+  const springs = result?.springs ?? [];
+  // Everything in a drawn area is listed, not just what's on screen
+  const listed = shape ? springs : view ? springs.filter((spring) => inBounds(spring, view.bounds)) : [];
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-3 px-4 py-2 border-b border-forest/10 bg-stone">
+        <button
+          type="button"
+          onClick={() => setListOpen((open) => !open)}
+          aria-expanded={listOpen}
+          aria-controls="explore-list"
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-forest/20 bg-cream font-display text-sm font-medium text-forest hover:border-forest/40 transition-colors"
+        >
+          {listOpen ? <X className="w-4 h-4" /> : <List className="w-4 h-4" />}
+          {listOpen ? 'Hide list' : 'Show list'}
+        </button>
+        <FilterToggleRow
+          selectedType={filters.type}
+          selectedExperience={filters.experience}
+          onTypeChange={(type) => handleFiltersChange({ ...filters, type })}
+          onExperienceChange={(experience) => handleFiltersChange({ ...filters, experience })}
+        />
+        <DrawTools drawMode={drawMode} hasShape={shape !== null} onDrawModeChange={setDrawMode} onClear={clearShape} />
+        <p className="ml-auto text-sm text-bark/60 font-body" aria-live="polite">
+          {drawMode ? (
+            DRAW_HINTS[drawMode]
+          ) : status === 'loading' ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : status === 'error' ? (
+            'Could not load springs. Try searching again.'
+          ) : result ? (
+            <>
+              <span className="font-semibold text-forest">{listed.length.toLocaleString()}</span>{' '}
+              {listed.length === 1 ? 'spring' : 'springs'} {shape ? 'in this area' : 'in view'}
+              {result.truncated && (shape ? ' · draw a smaller area to see more' : ' · zoom in to see more')}
+            </>
+          ) : null}
+        </p>
+      </div>
+
+      <div className="relative flex-1 min-h-0 flex">
+        {/* In-view list: beside the map on wide screens, over its lower half on phones */}
+        {listOpen && (
+          <aside
+            id="explore-list"
+            className="absolute inset-x-0 bottom-0 z-20 max-h-[45%] overflow-y-auto bg-stone border-t border-forest/10 sm:static sm:max-h-none sm:w-96 sm:shrink-0 sm:border-t-0 sm:border-r"
+          >
+            {listed.length > 0 ? (
+              <ol>
+                {listed.slice(0, LIST_LIMIT).map((spring) => (
+                  <SpringRow
+                    key={spring.id}
+                    spring={spring}
+                    highlighted={hoveredId === spring.id || activeId === spring.id}
+                    onHover={setHoveredId}
+                    onFocus={setActiveId}
+                    rowRef={(el) => {
+                      if (el) rows.current.set(spring.id, el);
+                      else rows.current.delete(spring.id);
+                    }}
+                  />
+                ))}
+              </ol>
+            ) : (
+              result && (
+                <p className="p-6 text-center text-bark/60 font-body">
+                  {shape
+                    ? 'No springs in this area. Draw a larger one or loosen the filters.'
+                    : 'No springs in view. Zoom out or move the map, then search this area.'}
+                </p>
+              )
+            )}
+            {listed.length > LIST_LIMIT && (
+              <p className="p-4 text-center text-sm text-bark/50 font-body">
+                Showing {LIST_LIMIT} of {listed.length.toLocaleString()}.{' '}
+                {shape ? 'Draw a smaller area to narrow the list.' : 'Zoom in to narrow the list.'}
+              </p>
+            )}
+          </aside>
+        )}
+
+        <div className="relative flex-1 min-w-0">
+          <SpringMap
+            springs={springs}
+            center={initialCenter}
+            zoom={initialZoom}
+            clustered
+            fitToSprings={false}
+            activeSpringId={activeId}
+            highlightedSpringId={hoveredId}
+            onSpringHover={setHoveredId}
+            onViewChange={handleViewChange}
+            shape={shape}
+            drawMode={drawMode}
+            onShapeDrawn={handleShapeDrawn}
+            onDrawCancel={() => setDrawMode(null)}
+            className="h-full rounded-none"
+          />
+
+          {(needsSearch || status === 'error') && view && !drawMode && (
+            <button
+              type="button"
+              onClick={() => (shape ? searchArea(shape, filters, view.zoom) : search(view, filters))}
+              className="absolute top-14 left-1/2 -translate-x-1/2 z-10 inline-flex items-center gap-2 px-4 py-2 rounded-full bg-forest text-cream font-display text-sm font-semibold shadow-soft hover:bg-forest/90 transition-colors"
+            >
+              <Search className="w-4 h-4" />
+              {shape ? 'Search again' : 'Search this area'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
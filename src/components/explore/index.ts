@@ -0,0 +1 @@
+export { ExploreMap } from './ExploreMap';
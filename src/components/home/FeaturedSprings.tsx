@@ -7,7 +7,7 @@ import type { SpringSummary } from '@/types/spring';
 // Get top states for the "Explore by State" section
 async function getTopStates() {
   // Import db here to avoid circular deps
-  const { db } = await import('@/lib/supabase');
+  const { db } = await import('@/lib/data/db');
   const result = await db.getStates();
   if (!result.ok) return [];
 
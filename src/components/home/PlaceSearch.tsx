@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useId, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Search, MapPin, Droplets, Map as MapIcon, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { Suggestion, SuggestionKind } from '@/types/spring';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 150;
+
+const kindIcons: Record<SuggestionKind, typeof Search> = {
+  state: MapIcon,
+  city: MapPin,
+  spring: Droplets,
+};
+
+// =============================================================================
+// PlaceSearch Component - Typeahead combobox for springs, cities and states
+// =============================================================================
+
+/**
+ * ARIA 1.2 combobox: focus stays in the input while ArrowUp/ArrowDown move the
+ * active option. Enter opens the active suggestion, or falls back to a full
+ * search on /springs?q= when nothing is highlighted.
+ */
+export function PlaceSearch({ className }: { className?: string }) {
+  const router = useRouter();
+  const listboxId = useId();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState('');
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Fetch suggestions as the user types; stale requests are aborted
+  useEffect(() => {
+    const term = query.trim();
+    if (term.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const res = await fetch(`/api/autocomplete?q=${encodeURIComponent(term)}`, {
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error(`Autocomplete failed: ${res.status}`);
+        const body: { suggestions: Suggestion[] } = await res.json();
+        setSuggestions(body.suggestions);
+        setActiveIndex(-1);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Autocomplete error:', error);
+        setSuggestions([]);
+      }
+      setIsLoading(false);
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Close when clicking outside
+  useEffect(() => {
+    function handleClickOutside(event: MouseEvent) {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const showList = isOpen && suggestions.length > 0;
+
+  const go = (url: string) => {
+    setIsOpen(false);
+    router.push(url);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((i) => (suggestions.length ? (i + 1) % suggestions.length : -1));
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setIsOpen(true);
+        setActiveIndex((i) => (suggestions.length ? (i <= 0 ? suggestions.length : i) - 1 : -1));
+        break;
+      case 'Home':
+      case 'End':
+        if (!showList) break;
+        event.preventDefault();
+        setActiveIndex(event.key === 'Home' ? 0 : suggestions.length - 1);
+        break;
+      case 'Enter': {
+        event.preventDefault();
+        const active = showList ? suggestions[activeIndex] : undefined;
+        if (active) {
+          go(active.url);
+        } else if (query.trim()) {
+          go(`/springs?q=${encodeURIComponent(query.trim())}`);
+        }
+        break;
+      }
+      case 'Escape':
+        if (showList) {
+          setIsOpen(false);
+          setActiveIndex(-1);
+        } else {
+          setQuery('');
+        }
+        break;
+    }
+  };
+
+  return (
+    <div ref={containerRef} className={cn('relative', className)}>
+      <label htmlFor={`${listboxId}-input`} className="sr-only">
+        Search springs, cities or states
+      </label>
+      <div className="relative">
+        <Search className="absolute left-5 top-1/2 -translate-y-1/2 w-4 h-4 text-cream/50 pointer-events-none" />
+        <input
+          id={`${listboxId}-input`}
+          type="text"
+          role="combobox"
+          autoComplete="off"
+          spellCheck={false}
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onKeyDown={handleKeyDown}
+          placeholder="Try “Boise” or “Goldbug”"
+          aria-autocomplete="list"
+          aria-expanded={showList}
+          aria-controls={listboxId}
+          aria-activedescendant={showList && activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+          className={cn(
+            'w-full pl-12 pr-12 py-4',
+            'bg-cream/10 hover:bg-cream/15 focus:bg-cream/15 backdrop-blur-sm',
+            'border border-cream/20 hover:border-cream/30 focus:border-cream/40',
+            'font-display font-medium text-cream text-base placeholder:text-cream/50',
+            'rounded-full transition-all duration-300 outline-none'
+          )}
+        />
+        {isLoading && (
+          <Loader2 className="absolute right-5 top-1/2 -translate-y-1/2 w-4 h-4 text-cream/50 animate-spin" />
+        )}
+      </div>
+
+      <ul
+        id={listboxId}
+        role="listbox"
+        aria-label="Suggestions"
+        hidden={!showList}
+        className="absolute top-full left-0 right-0 mt-2 bg-cream rounded-2xl shadow-lifted border border-forest/10 max-h-80 overflow-y-auto z-50 py-1"
+      >
+        {suggestions.map((suggestion, index) => {
+          const Icon = kindIcons[suggestion.kind];
+          const isActive = index === activeIndex;
+          return (
+            <li
+              key={`${suggestion.kind}-${suggestion.url}`}
+              id={`${listboxId}-${index}`}
+              role="option"
+              aria-selected={isActive}
+              // Keep focus in the input so keyboard navigation continues to work
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => go(suggestion.url)}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={cn(
+                'flex items-center gap-3 px-5 py-3 cursor-pointer',
+                'border-b border-forest/5 last:border-b-0',
+                isActive ? 'bg-forest/5' : 'bg-transparent'
+              )}
+            >
+              <Icon className="w-4 h-4 flex-shrink-0 text-bark/40" />
+              <span className="flex-1 min-w-0 truncate font-display font-medium text-forest">
+                {suggestion.label}
+              </span>
+              <span className="flex-shrink-0 text-sm text-bark/40 font-body">{suggestion.detail}</span>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { db } from '@/lib/supabase';
+import { db } from '@/lib/data';
 import { SearchHeroClient } from './SearchHeroClient';
 
 export async function SearchHero() {
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { MapPin, Navigation, ChevronDown, Check, Flame, Waves, Droplet, ArrowRight } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { PlaceSearch } from './PlaceSearch';
 
 interface SearchHeroClientProps {
   stats: {
@@ -135,6 +136,9 @@ export function SearchHeroClient({ stats, states }: SearchHeroClientProps) {
             for summer escapes. Discover natural waters across America.
           </p>
 
+          {/* Typeahead search - springs, cities and states */}
+          <PlaceSearch className="max-w-2xl mb-4" />
+
           {/* Action row */}
           <div className="flex flex-col sm:flex-row gap-4 mb-20 md:mb-28">
             {/* Near me button - Primary CTA */}
@@ -144,12 +144,20 @@ export function Footer() {
           <p className="text-cream/40 text-sm font-body">
             &copy; {new Date().getFullYear()} SoakMap. Find your perfect soak.
           </p>
-          <Link
-            href="/states"
-            className="text-cream/40 hover:text-cream transition-colors text-sm font-body"
-          >
-            All States
-          </Link>
+          <div className="flex items-center gap-6">
+            <Link
+              href="/developers"
+              className="text-cream/40 hover:text-cream transition-colors text-sm font-body"
+            >
+              API
+            </Link>
+            <Link
+              href="/states"
+              className="text-cream/40 hover:text-cream transition-colors text-sm font-body"
+            >
+              All States
+            </Link>
+          </div>
         </div>
       </div>
     </footer>
@@ -30,6 +30,24 @@ export function Header() {
             >
               By State
             </Link>
+            <Link
+              href="/map"
+              className="font-display text-sm font-medium text-bark/70 hover:text-forest transition-colors"
+            >
+              Map
+            </Link>
+            <Link
+              href="/search"
+              className="font-display text-sm font-medium text-bark/70 hover:text-forest transition-colors"
+            >
+              Search
+            </Link>
+            <Link
+              href="/plan"
+              className="font-display text-sm font-medium text-bark/70 hover:text-forest transition-colors"
+            >
+              Plan a Trip
+            </Link>
           </nav>
 
           {/* Mobile menu button */}
@@ -0,0 +1,38 @@
+'use client';
+
+import { Layers } from 'lucide-react';
+import { AVAILABLE_MAP_STYLES, type MapStyleId } from '@/lib/map-styles';
+
+interface BasemapSwitcherProps {
+  value: MapStyleId;
+  onChange: (id: MapStyleId) => void;
+}
+
+/**
+ * Basemap toggle drawn over the map's top-left corner
+ */
+export function BasemapSwitcher({ value, onChange }: BasemapSwitcherProps) {
+  return (
+    <div
+      className="absolute left-2 top-2 z-10 flex items-center gap-1 rounded-lg bg-cream/95 border border-forest/10 p-1 shadow-soft"
+      role="radiogroup"
+      aria-label="Basemap"
+    >
+      <Layers className="w-4 h-4 mx-1 text-bark/50" aria-hidden />
+      {AVAILABLE_MAP_STYLES.map((style) => (
+        <button
+          key={style.id}
+          type="button"
+          role="radio"
+          aria-checked={style.id === value}
+          onClick={() => onChange(style.id)}
+          className={`px-2 py-0.5 rounded-md font-display text-xs font-medium transition-colors ${
+            style.id === value ? 'bg-forest text-cream' : 'text-forest hover:text-terracotta'
+          }`}
+        >
+          {style.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -3,25 +3,52 @@
 import { useEffect, useRef, useCallback } from 'react';
 import maplibregl from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
-import type { SpringType, ExperienceType } from '@/types/spring';
-
-interface SpringMarker {
-  id: string;
-  name: string;
-  slug: string;
-  lat: number;
-  lng: number;
-  spring_type: SpringType;
-  experience_type: ExperienceType;
-}
+import { Protocol } from 'pmtiles';
+import { MAP_STYLES, withOverlays, type MapStyleId } from '@/lib/map-styles';
+import { cn } from '@/lib/utils';
+import type { DrawnShape } from '@/lib/utils/shape';
+import type { SpringType, ExperienceType, SpringMarker, MapBounds } from '@/types/spring';
+import { BasemapSwitcher } from './BasemapSwitcher';
+import { useBasemap } from './useBasemap';
+import { useOnline } from './useOnline';
+import { useShapeDrawing, type DrawMode } from './useShapeDrawing';
+
+// The vector basemap's pmtiles:// source reads its archive with range requests
+maplibregl.addProtocol('pmtiles', new Protocol().tile);
 
 interface SpringMapProps {
   springs: SpringMarker[];
   center?: [number, number];
   zoom?: number;
+  // Render through a clustered GeoJSON source instead of one DOM marker per
+  // spring. Defaults to clustering large collections.
+  clustered?: boolean;
+  // Spring to pan to and open a popup for, e.g. when picked from a synced list
+  activeSpringId?: string | null;
+  // Spring to emphasize without moving the map, e.g. while hovered in a list
+  highlightedSpringId?: string | null;
+  // Called with a spring's id when the pointer enters its marker, null on leave
+  onSpringHover?: (springId: string | null) => void;
+  // Called once the map loads and after every pan or zoom
+  onViewChange?: (view: MapView) => void;
+  // Zoom to fit the springs whenever they change (default true). Maps whose
+  // springs follow the viewport turn this off.
+  fitToSprings?: boolean;
+  // Draw-to-search: the area to outline, and a tool to draw a new one with.
+  // A finished drawing goes to onShapeDrawn; Escape calls onDrawCancel.
+  shape?: DrawnShape | null;
+  drawMode?: DrawMode | null;
+  onShapeDrawn?: (shape: DrawnShape) => void;
+  onDrawCancel?: () => void;
   className?: string;
 }
 
+export interface MapView {
+  center: [number, number]; // [lng, lat]
+  zoom: number;
+  bounds: MapBounds;
+}
+
 // Color mapping for spring types
 const MARKER_COLORS: Record<SpringType, string> = {
   hot: '#C65D3B',    // terracotta
@@ -62,17 +89,372 @@ function formatType(type: string): string {
   return type.charAt(0).toUpperCase() + type.slice(1);
 }
 
+// Build popup HTML for a spring (content is escaped)
+function buildPopupHtml(spring: Pick<SpringMarker, 'name' | 'slug' | 'spring_type' | 'experience_type'>): string {
+  const escapedName = escapeHtml(spring.name);
+  const typeLabel = TYPE_LABELS[spring.spring_type];
+  const experienceLabel = formatType(spring.experience_type);
+  const experienceIcon = EXPERIENCE_ICONS[spring.experience_type];
+  const markerColor = MARKER_COLORS[spring.spring_type];
+  const springUrl = isValidSlug(spring.slug) ? `/springs/${spring.slug}` : '#';
+
+  return `
+    <div class="spring-popup-content">
+      <div class="spring-popup-header">
+        <span class="spring-popup-badge" style="background: ${markerColor};">${typeLabel}</span>
+      </div>
+      <h3 class="spring-popup-name">${escapedName}</h3>
+      <div class="spring-popup-meta">
+        <span class="spring-popup-experience">${experienceIcon} ${experienceLabel}</span>
+      </div>
+      <a href="${springUrl}" class="spring-popup-link">
+        View Details
+        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M5 12h14M12 5l7 7-7 7"/></svg>
+      </a>
+    </div>
+  `;
+}
+
+function createPopup(offset: number): maplibregl.Popup {
+  return new maplibregl.Popup({
+    offset,
+    closeButton: false,
+    closeOnClick: true,
+    className: 'spring-popup',
+    maxWidth: '280px',
+  });
+}
+
+// =============================================================================
+// Clustered rendering
+// =============================================================================
+
+// Above this many springs, SpringMap clusters by default
+const CLUSTER_THRESHOLD = 150;
+
+const CLUSTER_SOURCE_ID = 'springs';
+const POINT_LAYER_ID = 'spring-points';
+const HIGHLIGHT_LAYER_ID = 'spring-highlight';
+
+const HIGHLIGHT_COLOR = '#C65D3B';
+const MARKER_SHADOW = '0 2px 8px rgba(0,0,0,0.3)';
+const MARKER_HOVER_SHADOW = '0 4px 16px rgba(0,0,0,0.5)';
+const MARKER_HIGHLIGHT_SHADOW = `0 0 0 4px ${HIGHLIGHT_COLOR}, 0 4px 16px rgba(0,0,0,0.5)`;
+
+// Unclustered point with the given id (none when null)
+function highlightFilter(springId: string | null): maplibregl.FilterSpecification {
+  return ['all', ['!', ['has', 'point_count']], ['==', ['get', 'id'], springId ?? '']];
+}
+
+interface ClusterProperties {
+  cluster_id: number;
+  point_count: number;
+  hot: number;
+  warm: number;
+  cold: number;
+}
+
+function toFeatureCollection(springs: SpringMarker[]): GeoJSON.FeatureCollection<GeoJSON.Point> {
+  return {
+    type: 'FeatureCollection',
+    features: springs.map((spring) => ({
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates: [spring.lng, spring.lat] },
+      properties: {
+        id: spring.id,
+        name: spring.name,
+        slug: spring.slug,
+        spring_type: spring.spring_type,
+        experience_type: spring.experience_type,
+      },
+    })),
+  };
+}
+
+// Cluster bubble: a ring split by spring type with the total in the middle
+function createClusterElement(props: ClusterProperties): HTMLDivElement {
+  const { point_count: total, hot, warm, cold } = props;
+  const size = total >= 100 ? 56 : total >= 25 ? 46 : 38;
+  const hotEnd = (hot / total) * 360;
+  const warmEnd = hotEnd + (warm / total) * 360;
+
+  const el = document.createElement('div');
+  el.className = 'spring-cluster';
+  el.style.width = `${size}px`;
+  el.style.height = `${size}px`;
+  el.style.borderRadius = '50%';
+  el.style.padding = '5px';
+  el.style.background = `conic-gradient(${MARKER_COLORS.hot} 0deg ${hotEnd}deg, ${MARKER_COLORS.warm} ${hotEnd}deg ${warmEnd}deg, ${MARKER_COLORS.cold} ${warmEnd}deg 360deg)`;
+  el.style.boxShadow = '0 2px 8px rgba(0,0,0,0.3)';
+  el.style.cursor = 'pointer';
+
+  const inner = document.createElement('div');
+  inner.style.width = '100%';
+  inner.style.height = '100%';
+  inner.style.borderRadius = '50%';
+  inner.style.background = 'white';
+  inner.style.display = 'flex';
+  inner.style.alignItems = 'center';
+  inner.style.justifyContent = 'center';
+  inner.style.font = '600 13px system-ui, sans-serif';
+  inner.style.color = '#2D4739';
+  inner.textContent = total.toLocaleString();
+  el.appendChild(inner);
+
+  // Per-type counts in a strip under the bubble, outside the element's box so
+  // the marker stays anchored on the bubble's center (markers are absolutely
+  // positioned, so the strip is placed against the bubble)
+  const counts = document.createElement('div');
+  counts.style.position = 'absolute';
+  counts.style.top = 'calc(100% + 2px)';
+  counts.style.left = '50%';
+  counts.style.transform = 'translateX(-50%)';
+  counts.style.display = 'flex';
+  counts.style.gap = '6px';
+  counts.style.padding = '1px 6px';
+  counts.style.borderRadius = '9999px';
+  counts.style.background = 'rgba(255,255,255,0.92)';
+  counts.style.boxShadow = '0 1px 4px rgba(0,0,0,0.2)';
+  counts.style.font = '600 10px system-ui, sans-serif';
+  counts.style.color = '#2D4739';
+  counts.style.whiteSpace = 'nowrap';
+  counts.setAttribute('aria-hidden', 'true');
+  for (const [type, count] of [['hot', hot], ['warm', warm], ['cold', cold]] as const) {
+    if (count === 0) continue;
+    const item = document.createElement('span');
+    item.style.display = 'inline-flex';
+    item.style.alignItems = 'center';
+    item.style.gap = '2px';
+    const dot = document.createElement('span');
+    dot.style.width = '6px';
+    dot.style.height = '6px';
+    dot.style.borderRadius = '50%';
+    dot.style.background = MARKER_COLORS[type];
+    item.append(dot, count.toLocaleString());
+    counts.appendChild(item);
+  }
+  el.appendChild(counts);
+
+  const summary = `${total} springs: ${hot} hot, ${warm} warm, ${cold} cold`;
+  el.title = summary;
+  el.setAttribute('tabindex', '0');
+  el.setAttribute('role', 'button');
+  el.setAttribute('aria-label', `${summary}. Zoom in to expand`);
+
+  return el;
+}
+
+/**
+ * Render springs through a clustered GeoJSON source. Unclustered points are a
+ * circle layer; cluster bubbles are DOM markers for the clusters currently in
+ * view only. Returns a cleanup function.
+ */
+function renderClustered(
+  mapInstance: maplibregl.Map,
+  springs: SpringMarker[],
+  onHover: (springId: string | null) => void
+): () => void {
+  mapInstance.addSource(CLUSTER_SOURCE_ID, {
+    type: 'geojson',
+    data: toFeatureCollection(springs),
+    cluster: true,
+    clusterMaxZoom: 12,
+    clusterRadius: 50,
+    clusterProperties: {
+      hot: ['+', ['case', ['==', ['get', 'spring_type'], 'hot'], 1, 0]],
+      warm: ['+', ['case', ['==', ['get', 'spring_type'], 'warm'], 1, 0]],
+      cold: ['+', ['case', ['==', ['get', 'spring_type'], 'cold'], 1, 0]],
+    },
+  });
+
+  mapInstance.addLayer({
+    id: POINT_LAYER_ID,
+    type: 'circle',
+    source: CLUSTER_SOURCE_ID,
+    filter: ['!', ['has', 'point_count']],
+    paint: {
+      'circle-radius': 9,
+      'circle-color': [
+        'match',
+        ['get', 'spring_type'],
+        'hot', MARKER_COLORS.hot,
+        'warm', MARKER_COLORS.warm,
+        MARKER_COLORS.cold,
+      ],
+      'circle-stroke-width': 3,
+      'circle-stroke-color': '#ffffff',
+    },
+  });
+
+  // Ring drawn around the highlighted point; see highlightFilter
+  mapInstance.addLayer({
+    id: HIGHLIGHT_LAYER_ID,
+    type: 'circle',
+    source: CLUSTER_SOURCE_ID,
+    filter: highlightFilter(null),
+    paint: {
+      'circle-radius': 13,
+      'circle-color': 'rgba(0,0,0,0)',
+      'circle-stroke-width': 4,
+      'circle-stroke-color': HIGHLIGHT_COLOR,
+    },
+  });
+
+  const source = mapInstance.getSource(CLUSTER_SOURCE_ID) as maplibregl.GeoJSONSource;
+  const clusterMarkers = new Map<number, maplibregl.Marker>();
+  let visibleMarkers = new Map<number, maplibregl.Marker>();
+
+  // The source can be gone by the time the lookup settles (springs replaced
+  // mid-click); zoom in a step instead of leaving the rejection unhandled
+  const expandCluster = (clusterId: number, coordinates: [number, number]) => {
+    source
+      .getClusterExpansionZoom(clusterId)
+      .then((expansionZoom) => mapInstance.easeTo({ center: coordinates, zoom: expansionZoom }))
+      .catch(() => {
+        if (mapInstance.getSource(CLUSTER_SOURCE_ID)) {
+          mapInstance.easeTo({ center: coordinates, zoom: mapInstance.getZoom() + 2 });
+        }
+      });
+  };
+
+  // Sync cluster DOM markers with the clusters currently rendered
+  const updateClusterMarkers = () => {
+    if (!mapInstance.getSource(CLUSTER_SOURCE_ID) || !mapInstance.isSourceLoaded(CLUSTER_SOURCE_ID)) return;
+
+    const nextVisible = new Map<number, maplibregl.Marker>();
+    for (const feature of mapInstance.querySourceFeatures(CLUSTER_SOURCE_ID)) {
+      const props = feature.properties as ClusterProperties;
+      if (!props.cluster_id || nextVisible.has(props.cluster_id)) continue;
+
+      let marker = clusterMarkers.get(props.cluster_id);
+      if (!marker) {
+        const coordinates = (feature.geometry as GeoJSON.Point).coordinates as [number, number];
+        const el = createClusterElement(props);
+        const clusterId = props.cluster_id;
+        el.addEventListener('click', () => expandCluster(clusterId, coordinates));
+        el.addEventListener('keydown', (event) => {
+          if (event.key === 'Enter' || event.key === ' ') {
+            event.preventDefault();
+            expandCluster(clusterId, coordinates);
+          }
+        });
+        marker = new maplibregl.Marker({ element: el }).setLngLat(coordinates);
+        clusterMarkers.set(clusterId, marker);
+      }
+
+      nextVisible.set(props.cluster_id, marker);
+      if (!visibleMarkers.has(props.cluster_id)) marker.addTo(mapInstance);
+    }
+
+    for (const [clusterId, marker] of visibleMarkers) {
+      if (!nextVisible.has(clusterId)) marker.remove();
+    }
+    visibleMarkers = nextVisible;
+  };
+
+  const handlePointClick = (e: maplibregl.MapLayerMouseEvent) => {
+    const feature = e.features?.[0];
+    if (!feature) return;
+    const coordinates = (feature.geometry as GeoJSON.Point).coordinates as [number, number];
+    createPopup(12)
+      .setLngLat(coordinates)
+      .setHTML(buildPopupHtml(feature.properties as SpringMarker))
+      .addTo(mapInstance);
+  };
+  const handlePointEnter = () => {
+    mapInstance.getCanvas().style.cursor = 'pointer';
+  };
+  // mouseenter fires once per layer, so moving between touching points needs mousemove
+  const handlePointMove = (e: maplibregl.MapLayerMouseEvent) => {
+    onHover((e.features?.[0]?.properties.id as string | undefined) ?? null);
+  };
+  const handlePointLeave = () => {
+    mapInstance.getCanvas().style.cursor = '';
+    onHover(null);
+  };
+
+  mapInstance.on('render', updateClusterMarkers);
+  mapInstance.on('click', POINT_LAYER_ID, handlePointClick);
+  mapInstance.on('mouseenter', POINT_LAYER_ID, handlePointEnter);
+  mapInstance.on('mousemove', POINT_LAYER_ID, handlePointMove);
+  mapInstance.on('mouseleave', POINT_LAYER_ID, handlePointLeave);
+
+  return () => {
+    mapInstance.off('render', updateClusterMarkers);
+    mapInstance.off('click', POINT_LAYER_ID, handlePointClick);
+    mapInstance.off('mouseenter', POINT_LAYER_ID, handlePointEnter);
+    mapInstance.off('mousemove', POINT_LAYER_ID, handlePointMove);
+    mapInstance.off('mouseleave', POINT_LAYER_ID, handlePointLeave);
+    clusterMarkers.forEach((m) => m.remove());
+    clusterMarkers.clear();
+    if (mapInstance.getLayer(HIGHLIGHT_LAYER_ID)) mapInstance.removeLayer(HIGHLIGHT_LAYER_ID);
+    if (mapInstance.getLayer(POINT_LAYER_ID)) mapInstance.removeLayer(POINT_LAYER_ID);
+    if (mapInstance.getSource(CLUSTER_SOURCE_ID)) mapInstance.removeSource(CLUSTER_SOURCE_ID);
+  };
+}
+
+/**
+ * Swap the basemap of an existing map when the switcher (or connectivity)
+ * changes it. The initial basemap is set when the map is created.
+ */
+function useBasemapStyle(map: React.RefObject<maplibregl.Map | null>, basemap: MapStyleId) {
+  const applied = useRef(basemap);
+
+  useEffect(() => {
+    if (!map.current || applied.current === basemap) return;
+    applied.current = basemap;
+    map.current.setStyle(MAP_STYLES[basemap].build(), { transformStyle: withOverlays });
+  }, [map, basemap]);
+}
+
+// Tiles come from the network, or from the service worker's cache for areas
+// saved with "Save for Offline"; say so rather than show blank squares unexplained
+function OfflineNotice() {
+  return (
+    <div className="absolute left-2 bottom-8 z-10 max-w-[80%] rounded-lg bg-cream/95 border border-forest/10 px-3 py-1.5 text-xs text-bark/70 font-body shadow-soft">
+      Offline — only saved map areas are shown
+    </div>
+  );
+}
+
 export function SpringMap({
   springs,
   center,
   zoom = 6,
+  clustered,
+  activeSpringId,
+  highlightedSpringId = null,
+  onSpringHover,
+  onViewChange,
+  fitToSprings = true,
+  shape = null,
+  drawMode = null,
+  onShapeDrawn,
+  onDrawCancel,
   className = '',
 }: SpringMapProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<maplibregl.Map | null>(null);
   const markers = useRef<maplibregl.Marker[]>([]);
+  const markerElements = useRef(new Map<string, HTMLDivElement>());
   const cleanupFns = useRef<(() => void)[]>([]);
 
+  // Latest callbacks, so map event handlers bound once always call the current ones
+  const callbacks = useRef({ onSpringHover, onViewChange });
+  useEffect(() => {
+    callbacks.current = { onSpringHover, onViewChange };
+  });
+  const highlighted = useRef(highlightedSpringId);
+  useEffect(() => {
+    highlighted.current = highlightedSpringId;
+  });
+  const online = useOnline();
+  const [basemap, setBasemap] = useBasemap();
+  useBasemapStyle(map, basemap);
+
+  // Cluster large collections unless the caller decides explicitly
+  const useClusters = clustered ?? springs.length > CLUSTER_THRESHOLD;
+
   // Calculate center from springs if not provided
   const getCenter = useCallback((): [number, number] => {
     if (center) return center;
@@ -90,30 +472,7 @@ export function SpringMap({
     // Initialize map
     map.current = new maplibregl.Map({
       container: mapContainer.current,
-      style: {
-        version: 8,
-        sources: {
-          'osm': {
-            type: 'raster',
-            tiles: [
-              'https://a.tile.openstreetmap.org/{z}/{x}/{y}.png',
-              'https://b.tile.openstreetmap.org/{z}/{x}/{y}.png',
-              'https://c.tile.openstreetmap.org/{z}/{x}/{y}.png',
-            ],
-            tileSize: 256,
-            attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
-          },
-        },
-        layers: [
-          {
-            id: 'osm',
-            type: 'raster',
-            source: 'osm',
-            minzoom: 0,
-            maxzoom: 19,
-          },
-        ],
-      },
+      style: MAP_STYLES[basemap].build(),
       center: initialCenter,
       zoom: zoom,
     });
@@ -121,6 +480,24 @@ export function SpringMap({
     // Add navigation controls
     map.current.addControl(new maplibregl.NavigationControl(), 'top-right');
 
+    const mapInstance = map.current;
+    const emitView = () => {
+      const bounds = mapInstance.getBounds();
+      const { lng, lat } = mapInstance.getCenter();
+      callbacks.current.onViewChange?.({
+        center: [lng, lat],
+        zoom: mapInstance.getZoom(),
+        bounds: {
+          west: bounds.getWest(),
+          south: bounds.getSouth(),
+          east: bounds.getEast(),
+          north: bounds.getNorth(),
+        },
+      });
+    };
+    mapInstance.on('load', emitView);
+    mapInstance.on('moveend', emitView);
+
     return () => {
       // Run all cleanup functions
       cleanupFns.current.forEach((fn) => fn());
@@ -133,108 +510,160 @@ export function SpringMap({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only initialize map once on mount
 
+  // After map creation, so the initial shape is drawn on the new map
+  useShapeDrawing(map, drawMode, shape, onShapeDrawn, onDrawCancel);
+
   // Update markers when springs change
   useEffect(() => {
-    if (!map.current) return;
+    const mapInstance = map.current;
+    if (!mapInstance) return;
 
-    // Clear existing markers and cleanup
+    // Clear existing markers, layers and cleanup
     cleanupFns.current.forEach((fn) => fn());
     cleanupFns.current = [];
     markers.current.forEach((m) => m.remove());
     markers.current = [];
-
-    // Add new markers
-    springs.forEach((spring) => {
-      // Create custom marker element
-      const el = document.createElement('div');
-      el.className = 'spring-marker';
-      el.style.width = '24px';
-      el.style.height = '24px';
-      el.style.borderRadius = '50%';
-      el.style.backgroundColor = MARKER_COLORS[spring.spring_type];
-      el.style.border = '3px solid white';
-      el.style.boxShadow = '0 2px 8px rgba(0,0,0,0.3)';
-      el.style.cursor = 'pointer';
-      el.style.transition = 'box-shadow 0.15s ease';
-
-      // Accessibility attributes
-      el.setAttribute('tabindex', '0');
-      el.setAttribute('role', 'button');
-      el.setAttribute('aria-label', `View ${escapeHtml(spring.name)} - ${formatType(spring.spring_type)} spring`);
-
-      // Event handlers - use box-shadow for hover effect instead of transform
-      // to avoid position issues with MapLibre markers
-      const handleMouseEnter = () => {
-        el.style.boxShadow = '0 4px 16px rgba(0,0,0,0.5)';
-      };
-      const handleMouseLeave = () => {
-        el.style.boxShadow = '0 2px 8px rgba(0,0,0,0.3)';
+    markerElements.current.clear();
+
+    const handleHover = (springId: string | null) => callbacks.current.onSpringHover?.(springId);
+
+    if (useClusters) {
+      // Sources can only be added once the style has loaded
+      let cancelled = false;
+      let teardown: (() => void) | null = null;
+      const render = () => {
+        if (cancelled) return;
+        teardown = renderClustered(mapInstance, springs, handleHover);
+        mapInstance.setFilter(HIGHLIGHT_LAYER_ID, highlightFilter(highlighted.current));
       };
-
-      el.addEventListener('mouseenter', handleMouseEnter);
-      el.addEventListener('mouseleave', handleMouseLeave);
-
-      // Store cleanup function
+      if (mapInstance.isStyleLoaded()) {
+        render();
+      } else {
+        mapInstance.once('load', render);
+      }
       cleanupFns.current.push(() => {
-        el.removeEventListener('mouseenter', handleMouseEnter);
-        el.removeEventListener('mouseleave', handleMouseLeave);
+        cancelled = true;
+        mapInstance.off('load', render);
+        teardown?.();
       });
-
-      // Create popup with escaped content
-      const escapedName = escapeHtml(spring.name);
-      const typeLabel = TYPE_LABELS[spring.spring_type];
-      const experienceLabel = formatType(spring.experience_type);
-      const experienceIcon = EXPERIENCE_ICONS[spring.experience_type];
-      const markerColor = MARKER_COLORS[spring.spring_type];
-      const springUrl = isValidSlug(spring.slug) ? `/springs/${spring.slug}` : '#';
-
-      const popup = new maplibregl.Popup({
-        offset: 18,
-        closeButton: false,
-        closeOnClick: true,
-        className: 'spring-popup',
-        maxWidth: '280px',
-      }).setHTML(`
-        <div class="spring-popup-content">
-          <div class="spring-popup-header">
-            <span class="spring-popup-badge" style="background: ${markerColor};">${typeLabel}</span>
-          </div>
-          <h3 class="spring-popup-name">${escapedName}</h3>
-          <div class="spring-popup-meta">
-            <span class="spring-popup-experience">${experienceIcon} ${experienceLabel}</span>
-          </div>
-          <a href="${springUrl}" class="spring-popup-link">
-            View Details
-            <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M5 12h14M12 5l7 7-7 7"/></svg>
-          </a>
-        </div>
-      `);
-
-      const marker = new maplibregl.Marker({ element: el })
-        .setLngLat([spring.lng, spring.lat])
-        .setPopup(popup)
-        .addTo(map.current!);
-
-      markers.current.push(marker);
-    });
+    } else {
+      springs.forEach((spring) => {
+        // Create custom marker element
+        const el = document.createElement('div');
+        el.className = 'spring-marker';
+        el.style.width = '24px';
+        el.style.height = '24px';
+        el.style.borderRadius = '50%';
+        el.style.backgroundColor = MARKER_COLORS[spring.spring_type];
+        el.style.border = '3px solid white';
+        el.style.boxShadow = spring.id === highlighted.current ? MARKER_HIGHLIGHT_SHADOW : MARKER_SHADOW;
+        el.style.cursor = 'pointer';
+        el.style.transition = 'box-shadow 0.15s ease';
+
+        // Accessibility attributes
+        el.setAttribute('tabindex', '0');
+        el.setAttribute('role', 'button');
+        el.setAttribute('aria-label', `View ${escapeHtml(spring.name)} - ${formatType(spring.spring_type)} spring`);
+
+        // Event handlers - use box-shadow for hover effect instead of transform
+        // to avoid position issues with MapLibre markers
+        const handleMouseEnter = () => {
+          if (spring.id !== highlighted.current) el.style.boxShadow = MARKER_HOVER_SHADOW;
+          handleHover(spring.id);
+        };
+        const handleMouseLeave = () => {
+          if (spring.id !== highlighted.current) el.style.boxShadow = MARKER_SHADOW;
+          handleHover(null);
+        };
+
+        el.addEventListener('mouseenter', handleMouseEnter);
+        el.addEventListener('mouseleave', handleMouseLeave);
+
+        // Store cleanup function
+        cleanupFns.current.push(() => {
+          el.removeEventListener('mouseenter', handleMouseEnter);
+          el.removeEventListener('mouseleave', handleMouseLeave);
+        });
+
+        // Create popup with escaped content
+        const popup = createPopup(18).setHTML(buildPopupHtml(spring));
+
+        const marker = new maplibregl.Marker({ element: el })
+          .setLngLat([spring.lng, spring.lat])
+          .setPopup(popup)
+          .addTo(mapInstance);
+
+        markers.current.push(marker);
+        markerElements.current.set(spring.id, el);
+      });
+    }
 
     // Fit bounds if multiple springs
-    if (springs.length > 1 && map.current) {
+    if (fitToSprings && springs.length > 1) {
       const bounds = new maplibregl.LngLatBounds();
       springs.forEach((spring) => {
         bounds.extend([spring.lng, spring.lat]);
       });
-      map.current.fitBounds(bounds, { padding: 50, maxZoom: 10 });
+      mapInstance.fitBounds(bounds, { padding: 50, maxZoom: 10 });
+    }
+    // fitToSprings is fixed per map; changing it shouldn't redraw the markers
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [springs, useClusters]);
+
+  // Emphasize the highlighted spring's marker (or clustered point)
+  useEffect(() => {
+    const mapInstance = map.current;
+    if (!mapInstance) return;
+
+    if (useClusters) {
+      if (mapInstance.getLayer(HIGHLIGHT_LAYER_ID)) {
+        mapInstance.setFilter(HIGHLIGHT_LAYER_ID, highlightFilter(highlightedSpringId));
+      }
+      return;
     }
-  }, [springs]);
+
+    const el = highlightedSpringId ? markerElements.current.get(highlightedSpringId) : undefined;
+    if (!el) return;
+    el.style.boxShadow = MARKER_HIGHLIGHT_SHADOW;
+    el.style.zIndex = '1';
+    return () => {
+      el.style.boxShadow = MARKER_SHADOW;
+      el.style.zIndex = '';
+    };
+  }, [highlightedSpringId, springs, useClusters]);
+
+  // Focus the active spring. A standalone popup works whether the spring is a
+  // DOM marker or hidden inside a cluster.
+  useEffect(() => {
+    const mapInstance = map.current;
+    const spring = activeSpringId ? springs.find((s) => s.id === activeSpringId) : undefined;
+    if (!mapInstance || !spring) return;
+
+    mapInstance.easeTo({
+      center: [spring.lng, spring.lat],
+      zoom: Math.max(mapInstance.getZoom(), 10),
+    });
+    const popup = createPopup(18)
+      .setLngLat([spring.lng, spring.lat])
+      .setHTML(buildPopupHtml(spring))
+      .addTo(mapInstance);
+
+    return () => {
+      popup.remove();
+    };
+  }, [activeSpringId, springs]);
 
   return (
-    <div
-      ref={mapContainer}
-      className={`w-full h-full min-h-[300px] rounded-xl overflow-hidden ${className}`}
-      role="application"
-      aria-label="Map showing spring locations"
-    />
+    <div className={cn('relative w-full h-full min-h-[300px] rounded-xl', className)}>
+      <div
+        ref={mapContainer}
+        className="w-full h-full min-h-[300px] rounded-[inherit] overflow-hidden"
+        role="application"
+        aria-label="Map showing spring locations"
+      />
+      <BasemapSwitcher value={basemap} onChange={setBasemap} />
+      {!online && <OfflineNotice />}
+    </div>
   );
 }
 
@@ -256,36 +685,16 @@ export function SingleSpringMap({
 }: SingleSpringMapProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<maplibregl.Map | null>(null);
+  const online = useOnline();
+  const [basemap, setBasemap] = useBasemap();
+  useBasemapStyle(map, basemap);
 
   useEffect(() => {
     if (!mapContainer.current || map.current) return;
 
     map.current = new maplibregl.Map({
       container: mapContainer.current,
-      style: {
-        version: 8,
-        sources: {
-          'osm': {
-            type: 'raster',
-            tiles: [
-              'https://a.tile.openstreetmap.org/{z}/{x}/{y}.png',
-              'https://b.tile.openstreetmap.org/{z}/{x}/{y}.png',
-              'https://c.tile.openstreetmap.org/{z}/{x}/{y}.png',
-            ],
-            tileSize: 256,
-            attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
-          },
-        },
-        layers: [
-          {
-            id: 'osm',
-            type: 'raster',
-            source: 'osm',
-            minzoom: 0,
-            maxzoom: 19,
-          },
-        ],
-      },
+      style: MAP_STYLES[basemap].build(),
       center: [lng, lat],
       zoom: 12,
     });
@@ -327,14 +736,20 @@ export function SingleSpringMap({
       map.current?.remove();
       map.current = null;
     };
+    // Basemap changes are applied in place by useBasemapStyle
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [lat, lng, name, springType]);
 
   return (
-    <div
-      ref={mapContainer}
-      className={`w-full h-full min-h-[200px] rounded-xl overflow-hidden ${className}`}
-      role="application"
-      aria-label={`Map showing location of ${name}`}
-    />
+    <div className={`relative w-full h-full min-h-[200px] ${className}`}>
+      <div
+        ref={mapContainer}
+        className="w-full h-full min-h-[200px] rounded-xl overflow-hidden"
+        role="application"
+        aria-label={`Map showing location of ${name}`}
+      />
+      <BasemapSwitcher value={basemap} onChange={setBasemap} />
+      {!online && <OfflineNotice />}
+    </div>
   );
 }
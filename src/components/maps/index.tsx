@@ -3,7 +3,11 @@
 import dynamic from 'next/dynamic';
 import { Component, ReactNode } from 'react';
 import { MapPin, AlertCircle } from 'lucide-react';
-import type { SpringType, ExperienceType } from '@/types/spring';
+import type { SpringType, SpringMarker } from '@/types/spring';
+import type { DrawnShape } from '@/lib/utils/shape';
+import type { MapView } from './SpringMap';
+import type { DrawMode } from './useShapeDrawing';
+import { useOnline } from './useOnline';
 
 // Loading placeholder
 function MapLoading({ className = '' }: { className?: string }) {
@@ -19,11 +23,16 @@ function MapLoading({ className = '' }: { className?: string }) {
 
 // Error fallback
 function MapError({ className = '', onRetry }: { className?: string; onRetry?: () => void }) {
+  // Offline, the map's code or style may not be cached
+  const online = useOnline();
+
   return (
     <div className={`w-full h-full min-h-[200px] bg-cream rounded-xl border border-terracotta/20 flex items-center justify-center ${className}`}>
       <div className="text-center p-4">
         <AlertCircle className="w-8 h-8 mx-auto text-terracotta/60 mb-2" />
-        <p className="text-sm text-bark/70 font-body mb-3">Unable to load map</p>
+        <p className="text-sm text-bark/70 font-body mb-3">
+          {online ? 'Unable to load map' : 'The map is unavailable offline'}
+        </p>
         {onRetry && (
           <button
             onClick={onRetry}
@@ -97,6 +106,16 @@ export function SpringMap(props: {
   springs: SpringMarker[];
   center?: [number, number];
   zoom?: number;
+  clustered?: boolean;
+  activeSpringId?: string | null;
+  highlightedSpringId?: string | null;
+  onSpringHover?: (springId: string | null) => void;
+  onViewChange?: (view: MapView) => void;
+  fitToSprings?: boolean;
+  shape?: DrawnShape | null;
+  drawMode?: DrawMode | null;
+  onShapeDrawn?: (shape: DrawnShape) => void;
+  onDrawCancel?: () => void;
   className?: string;
 }) {
   return (
@@ -121,12 +140,4 @@ export function SingleSpringMap(props: {
 }
 
 // Re-export types for convenience
-export type SpringMarker = {
-  id: string;
-  name: string;
-  slug: string;
-  lat: number;
-  lng: number;
-  spring_type: SpringType;
-  experience_type: ExperienceType;
-};
+export type { SpringMarker, MapView, DrawMode };
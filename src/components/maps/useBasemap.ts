@@ -0,0 +1,55 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { DEFAULT_MAP_STYLE, MAP_STYLES, isAvailableMapStyle, type MapStyleId } from '@/lib/map-styles';
+import { useOnline } from './useOnline';
+
+// The basemap last picked in the switcher, shared by every map on the site
+const STORAGE_KEY = 'soakmap:basemap';
+
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  // Other tabs
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+function getSnapshot(): MapStyleId {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY) ?? '';
+    return isAvailableMapStyle(stored) ? stored : DEFAULT_MAP_STYLE;
+  } catch {
+    // Storage disabled (e.g. some private browsing modes)
+    return DEFAULT_MAP_STYLE;
+  }
+}
+
+function getServerSnapshot(): MapStyleId {
+  return DEFAULT_MAP_STYLE;
+}
+
+/**
+ * The basemap to draw, plus a setter for the switcher. Offline, a basemap whose
+ * tiles can't be saved gives way to the raster one, which may be.
+ */
+export function useBasemap(): [MapStyleId, (id: MapStyleId) => void] {
+  const selected = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  const online = useOnline();
+  const basemap = online || MAP_STYLES[selected].offlineTiles.length > 0 ? selected : 'osm';
+
+  const setBasemap = useCallback((id: MapStyleId) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, id);
+    } catch {
+      return;
+    }
+    listeners.forEach((listener) => listener());
+  }, []);
+
+  return [basemap, setBasemap];
+}
@@ -0,0 +1,244 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type maplibregl from 'maplibre-gl';
+import { haversineMiles, type LatLng } from '@/lib/utils/geo';
+import { MAX_CIRCLE_RADIUS_MILES, shapeToGeometry, type DrawnShape } from '@/lib/utils/shape';
+
+export type DrawMode = 'polygon' | 'circle';
+
+// Not prefixed 'basemap-', so the shape survives a basemap switch (see withOverlays)
+const SHAPE_SOURCE_ID = 'drawn-shape';
+const SHAPE_FILL_LAYER_ID = 'drawn-shape-fill';
+const SHAPE_LINE_LAYER_ID = 'drawn-shape-line';
+const SHAPE_VERTEX_LAYER_ID = 'drawn-shape-vertices';
+
+const SHAPE_COLOR = '#2D4739'; // forest
+
+// A click this close to the first vertex closes the polygon
+const CLOSE_RING_PIXELS = 12;
+
+// Shorter drags are taken as a stray click, not a circle
+const MIN_CIRCLE_RADIUS_MILES = 0.1;
+
+const EMPTY: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features: [] };
+
+function toPosition(point: LatLng): GeoJSON.Position {
+  return [point.lng, point.lat];
+}
+
+/**
+ * The committed shape, or the one being drawn: its area, the open outline of a
+ * polygon in progress, and its vertices
+ */
+function shapeFeatures(shape: DrawnShape | null, draft: LatLng[], cursor: LatLng | null): GeoJSON.FeatureCollection {
+  if (shape) {
+    return { type: 'FeatureCollection', features: [{ type: 'Feature', geometry: shapeToGeometry(shape), properties: {} }] };
+  }
+
+  const outline = cursor ? [...draft, cursor] : draft;
+  const features: GeoJSON.Feature[] = draft.map((point) => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: toPosition(point) },
+    properties: {},
+  }));
+  if (outline.length >= 3) {
+    features.push({ type: 'Feature', geometry: shapeToGeometry({ type: 'polygon', points: outline }), properties: {} });
+  } else if (outline.length === 2) {
+    features.push({ type: 'Feature', geometry: { type: 'LineString', coordinates: outline.map(toPosition) }, properties: {} });
+  }
+  return { type: 'FeatureCollection', features };
+}
+
+function addShapeLayers(mapInstance: maplibregl.Map) {
+  if (mapInstance.getSource(SHAPE_SOURCE_ID)) return;
+
+  mapInstance.addSource(SHAPE_SOURCE_ID, { type: 'geojson', data: EMPTY });
+  mapInstance.addLayer({
+    id: SHAPE_FILL_LAYER_ID,
+    type: 'fill',
+    source: SHAPE_SOURCE_ID,
+    filter: ['==', ['geometry-type'], 'Polygon'],
+    paint: { 'fill-color': SHAPE_COLOR, 'fill-opacity': 0.1 },
+  });
+  mapInstance.addLayer({
+    id: SHAPE_LINE_LAYER_ID,
+    type: 'line',
+    source: SHAPE_SOURCE_ID,
+    filter: ['!=', ['geometry-type'], 'Point'],
+    paint: { 'line-color': SHAPE_COLOR, 'line-width': 2 },
+  });
+  mapInstance.addLayer({
+    id: SHAPE_VERTEX_LAYER_ID,
+    type: 'circle',
+    source: SHAPE_SOURCE_ID,
+    filter: ['==', ['geometry-type'], 'Point'],
+    paint: {
+      'circle-radius': 4,
+      'circle-color': '#ffffff',
+      'circle-stroke-width': 2,
+      'circle-stroke-color': SHAPE_COLOR,
+    },
+  });
+}
+
+/**
+ * Draw-to-search on an existing map. Shows `shape`, and while `mode` is set
+ * lets the user draw a new one:
+ *
+ * - polygon: click to add points; double-click, or click the first point, to finish
+ * - circle: press at the center and drag out the radius
+ *
+ * Escape abandons the drawing. The finished shape goes to onDrawn; showing it
+ * is up to the caller, through `shape`.
+ */
+export function useShapeDrawing(
+  map: React.RefObject<maplibregl.Map | null>,
+  mode: DrawMode | null,
+  shape: DrawnShape | null,
+  onDrawn: ((shape: DrawnShape) => void) | undefined,
+  onCancel: (() => void) | undefined
+) {
+  // Latest callbacks, so handlers bound per drawing session call the current ones
+  const callbacks = useRef({ onDrawn, onCancel });
+  useEffect(() => {
+    callbacks.current = { onDrawn, onCancel };
+  });
+
+  // Show the committed shape, once the style can take a source
+  useEffect(() => {
+    const mapInstance = map.current;
+    if (!mapInstance || mode) return;
+
+    const show = () => {
+      addShapeLayers(mapInstance);
+      (mapInstance.getSource(SHAPE_SOURCE_ID) as maplibregl.GeoJSONSource).setData(shapeFeatures(shape, [], null));
+    };
+    if (mapInstance.isStyleLoaded()) {
+      show();
+    } else {
+      mapInstance.once('load', show);
+    }
+    return () => {
+      mapInstance.off('load', show);
+    };
+  }, [map, mode, shape]);
+
+  // Drawing session
+  useEffect(() => {
+    const mapInstance = map.current;
+    if (!mapInstance || !mode) return;
+
+    let draft: LatLng[] = [];
+    let cursor: LatLng | null = null;
+    let circleCenter: LatLng | null = null;
+
+    const render = (features: GeoJSON.FeatureCollection) => {
+      if (!mapInstance.isStyleLoaded()) return;
+      addShapeLayers(mapInstance);
+      (mapInstance.getSource(SHAPE_SOURCE_ID) as maplibregl.GeoJSONSource).setData(features);
+    };
+    const finish = (drawn: DrawnShape) => {
+      draft = [];
+      cursor = null;
+      circleCenter = null;
+      callbacks.current.onDrawn?.(drawn);
+    };
+
+    // Polygon
+    const handleClick = (e: maplibregl.MapMouseEvent) => {
+      const point = { lat: e.lngLat.lat, lng: e.lngLat.lng };
+      if (draft.length >= 3) {
+        const first = mapInstance.project(toPosition(draft[0]) as [number, number]);
+        if (first.dist(e.point) <= CLOSE_RING_PIXELS) {
+          finish({ type: 'polygon', points: draft });
+          return;
+        }
+      }
+      // A double-click also sends two clicks; keep one point for it
+      const last = draft[draft.length - 1];
+      if (last && mapInstance.project(toPosition(last) as [number, number]).dist(e.point) < 3) return;
+      draft = [...draft, point];
+      render(shapeFeatures(null, draft, null));
+    };
+    const handleDoubleClick = (e: maplibregl.MapMouseEvent) => {
+      e.preventDefault();
+      if (draft.length >= 3) finish({ type: 'polygon', points: draft });
+    };
+    const handlePolygonMove = (e: maplibregl.MapMouseEvent) => {
+      if (draft.length === 0) return;
+      cursor = { lat: e.lngLat.lat, lng: e.lngLat.lng };
+      render(shapeFeatures(null, draft, cursor));
+    };
+
+    // Circle
+    const radiusTo = (e: maplibregl.MapMouseEvent | maplibregl.MapTouchEvent) =>
+      Math.min(haversineMiles(circleCenter!, { lat: e.lngLat.lat, lng: e.lngLat.lng }), MAX_CIRCLE_RADIUS_MILES);
+    const handleCircleStart = (e: maplibregl.MapMouseEvent | maplibregl.MapTouchEvent) => {
+      circleCenter = { lat: e.lngLat.lat, lng: e.lngLat.lng };
+    };
+    const handleCircleMove = (e: maplibregl.MapMouseEvent | maplibregl.MapTouchEvent) => {
+      if (!circleCenter) return;
+      const radiusMiles = radiusTo(e);
+      if (radiusMiles >= MIN_CIRCLE_RADIUS_MILES) {
+        render(shapeFeatures({ type: 'circle', center: circleCenter, radiusMiles }, [], null));
+      }
+    };
+    const handleCircleEnd = (e: maplibregl.MapMouseEvent | maplibregl.MapTouchEvent) => {
+      if (!circleCenter) return;
+      const radiusMiles = radiusTo(e);
+      if (radiusMiles >= MIN_CIRCLE_RADIUS_MILES) {
+        finish({ type: 'circle', center: circleCenter, radiusMiles });
+      } else {
+        circleCenter = null;
+        render(EMPTY);
+      }
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return;
+      draft = [];
+      circleCenter = null;
+      render(EMPTY);
+      callbacks.current.onCancel?.();
+    };
+
+    render(EMPTY);
+    mapInstance.getCanvas().style.cursor = 'crosshair';
+    mapInstance.doubleClickZoom.disable();
+    document.addEventListener('keydown', handleKeyDown);
+
+    if (mode === 'polygon') {
+      mapInstance.on('click', handleClick);
+      mapInstance.on('dblclick', handleDoubleClick);
+      mapInstance.on('mousemove', handlePolygonMove);
+    } else {
+      // Dragging draws the radius instead of panning
+      mapInstance.dragPan.disable();
+      mapInstance.touchZoomRotate.disable();
+      mapInstance.on('mousedown', handleCircleStart);
+      mapInstance.on('touchstart', handleCircleStart);
+      mapInstance.on('mousemove', handleCircleMove);
+      mapInstance.on('touchmove', handleCircleMove);
+      mapInstance.on('mouseup', handleCircleEnd);
+      mapInstance.on('touchend', handleCircleEnd);
+    }
+
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown);
+      mapInstance.off('click', handleClick);
+      mapInstance.off('dblclick', handleDoubleClick);
+      mapInstance.off('mousemove', handlePolygonMove);
+      mapInstance.off('mousedown', handleCircleStart);
+      mapInstance.off('touchstart', handleCircleStart);
+      mapInstance.off('mousemove', handleCircleMove);
+      mapInstance.off('touchmove', handleCircleMove);
+      mapInstance.off('mouseup', handleCircleEnd);
+      mapInstance.off('touchend', handleCircleEnd);
+      mapInstance.getCanvas().style.cursor = '';
+      mapInstance.doubleClickZoom.enable();
+      mapInstance.dragPan.enable();
+      mapInstance.touchZoomRotate.enable();
+    };
+  }, [map, mode]);
+}
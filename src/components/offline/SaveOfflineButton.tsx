@@ -0,0 +1,89 @@
+'use client';
+
+import { useState, useSyncExternalStore } from 'react';
+import { CloudDownload, CloudOff, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { saveForOffline, useOfflineSupported, useSavedOffline, type SaveProgress } from './savedOffline';
+
+interface SaveOfflineButtonProps {
+  /** /api/offline params for this page, e.g. 'spring=goldbug-hot-springs-id' */
+  bundleQuery: string;
+  /** Small pill for toolbars, e.g. beside the export links */
+  compact?: boolean;
+  className?: string;
+}
+
+function subscribeToNothing() {
+  return () => {};
+}
+
+/**
+ * Stores this page, its springs' data and photos, and map tiles around each
+ * spring where the basemap allows it (see OFFLINE_TILE_TEMPLATES), for trips
+ * without signal
+ */
+export function SaveOfflineButton({ bundleQuery, compact = false, className = '' }: SaveOfflineButtonProps) {
+  const supported = useOfflineSupported();
+  const saved = useSavedOffline();
+  const pageUrl = useSyncExternalStore(
+    subscribeToNothing,
+    () => location.pathname + location.search,
+    () => ''
+  );
+  const [progress, setProgress] = useState<SaveProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!supported) return null;
+
+  const isSaved = saved.some((entry) => entry.pageUrl === pageUrl);
+  const isSaving = progress !== null;
+  const iconClass = compact ? 'w-4 h-4' : 'w-5 h-5';
+
+  const save = async () => {
+    setError(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      await saveForOffline(pageUrl, `/api/offline?${bundleQuery}`, setProgress);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Saving failed. Please try again.');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className={`flex flex-col gap-1 ${className}`}>
+      <button
+        type="button"
+        onClick={save}
+        disabled={isSaving}
+        className={cn(
+          'inline-flex items-center justify-center gap-2 rounded-lg border border-forest/20 bg-cream text-forest hover:border-forest/40 transition-all duration-300 disabled:opacity-60',
+          compact
+            ? 'px-3 py-1 font-display text-sm font-medium hover:text-terracotta'
+            : 'px-6 py-4 text-base font-display font-semibold tracking-wide hover-lift hover-press focus-natural'
+        )}
+      >
+        {isSaving ? (
+          <Loader2 className={cn(iconClass, 'animate-spin')} />
+        ) : isSaved ? (
+          <CloudOff className={iconClass} />
+        ) : (
+          <CloudDownload className={iconClass} />
+        )}
+        {isSaving
+          ? progress.total > 0
+            ? `Saving… ${Math.round((progress.done / progress.total) * 100)}%`
+            : 'Saving…'
+          : isSaved
+            ? 'Saved Offline · Update'
+            : 'Save for Offline'}
+      </button>
+      {error && (
+        <p className="text-sm text-terracotta font-body" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CloudOff, MapPin, Trash2 } from 'lucide-react';
+import { SpringCard } from '@/components/springs/SpringCard';
+import type { OfflineBundle } from '@/lib/offline';
+import { readSavedBundle, removeSavedOffline, useSavedOffline, type SavedOfflineEntry } from './savedOffline';
+
+// =============================================================================
+// Components
+// =============================================================================
+
+function SavedEntry({ entry }: { entry: SavedOfflineEntry }) {
+  // undefined while reading the cache, null once we know the data is gone
+  const [bundle, setBundle] = useState<OfflineBundle | null | undefined>(undefined);
+
+  useEffect(() => {
+    let cancelled = false;
+    readSavedBundle(entry)
+      .catch(() => null)
+      .then((data) => {
+        if (!cancelled) setBundle(data);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entry]);
+
+  // A single saved spring gets its full write-up; lists get cards
+  const single = bundle?.springs.length === 1 ? bundle.springs[0] : null;
+
+  return (
+    <section className="bg-cream rounded-xl p-6 border border-forest/10">
+      <div className="flex flex-wrap items-baseline justify-between gap-3 mb-4">
+        <div>
+          <h2 className="font-display text-2xl font-semibold text-forest">
+            <Link href={entry.pageUrl} className="hover:text-terracotta transition-colors">
+              {entry.title}
+            </Link>
+          </h2>
+          <p className="text-sm text-bark/50 font-body">
+            Saved {new Date(entry.savedAt).toLocaleDateString()}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => removeSavedOffline(entry.pageUrl)}
+          className="inline-flex items-center gap-1 text-sm text-bark/50 hover:text-terracotta transition-colors font-body"
+        >
+          <Trash2 className="w-4 h-4" />
+          Remove
+        </button>
+      </div>
+
+      {bundle === null && (
+        <p className="text-bark/60 font-body">
+          The saved data for this page is missing; the browser may have cleared it. Save it again when you have signal.
+        </p>
+      )}
+
+      {single?.description && (
+        <div className="space-y-3 mb-4">
+          <p className="text-bark/80 font-body">{single.description}</p>
+          <p className="inline-flex items-center gap-2 text-sm text-bark/60 font-body">
+            <MapPin className="w-4 h-4" />
+            {single.lat.toFixed(5)}, {single.lng.toFixed(5)}
+          </p>
+        </div>
+      )}
+
+      {bundle && bundle.springs.length > 1 && (
+        <div className="grid sm:grid-cols-2 gap-3">
+          {bundle.springs.map((spring) => (
+            <SpringCard key={spring.id} spring={spring} />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+/**
+ * Everything saved with "Save for Offline", readable without a connection
+ */
+export function SavedOfflineList() {
+  const entries = useSavedOffline();
+
+  if (entries.length === 0) {
+    return (
+      <div className="bg-cream rounded-xl p-12 text-center border border-forest/10">
+        <CloudOff className="w-12 h-12 mx-auto text-bark/30 mb-4" />
+        <h3 className="font-display text-xl font-semibold text-forest mb-2">Nothing saved yet</h3>
+        <p className="text-bark/60 font-body">
+          Use &ldquo;Save for Offline&rdquo; on a spring, state or trip page before you lose signal.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {entries.map((entry) => (
+        <SavedEntry key={entry.pageUrl} entry={entry} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import { useEffect } from 'react';
+
+/**
+ * Registers public/sw.js. Skipped in development, where a caching worker
+ * would serve stale bundles over hot reloads.
+ */
+export function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== 'production' || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker.register('/sw.js').catch((error) => {
+      console.error('Service worker registration failed:', error);
+    });
+  }, []);
+
+  return null;
+}
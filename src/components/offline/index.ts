@@ -0,0 +1,4 @@
+export { SaveOfflineButton } from './SaveOfflineButton';
+export { SavedOfflineList } from './SavedOfflineList';
+export { ServiceWorkerRegistration } from './ServiceWorkerRegistration';
+export { useSavedOffline } from './savedOffline';
@@ -0,0 +1,188 @@
+'use client';
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { OFFLINE_CACHE, type OfflineBundle } from '@/lib/offline';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SavedOfflineEntry {
+  /** The saved page, e.g. '/springs/goldbug-hot-springs-id' or '/trip?ids=...' */
+  pageUrl: string;
+  title: string;
+  /** /api/offline URL whose stored response holds the spring data */
+  bundleUrl: string;
+  savedAt: string;
+  /** Everything stored for this entry, so removing it can clean up */
+  urls: string[];
+}
+
+export interface SaveProgress {
+  done: number;
+  total: number;
+}
+
+// =============================================================================
+// Index (localStorage)
+// =============================================================================
+
+const INDEX_KEY = 'soakmap:offline';
+
+// Parallel downloads while saving; polite to the tile servers
+const SAVE_CONCURRENCY = 4;
+
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+function getSnapshot(): string {
+  try {
+    return localStorage.getItem(INDEX_KEY) ?? '[]';
+  } catch {
+    return '[]';
+  }
+}
+
+function getServerSnapshot(): string {
+  return '[]';
+}
+
+function parseIndex(raw: string): SavedOfflineEntry[] {
+  try {
+    const entries = JSON.parse(raw);
+    return Array.isArray(entries) ? entries : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeIndex(entries: SavedOfflineEntry[]) {
+  localStorage.setItem(INDEX_KEY, JSON.stringify(entries));
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Saved pages, newest first
+ */
+export function useSavedOffline(): SavedOfflineEntry[] {
+  const raw = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  return useMemo(() => parseIndex(raw), [raw]);
+}
+
+/**
+ * Whether this browser can save pages (Cache API and service workers)
+ */
+export function useOfflineSupported(): boolean {
+  return useSyncExternalStore(
+    () => () => {},
+    () => 'serviceWorker' in navigator && 'caches' in window,
+    () => false
+  );
+}
+
+// =============================================================================
+// Saving
+// =============================================================================
+
+/**
+ * Scripts and styles the current page loaded, so a saved page still hydrates
+ */
+function loadedStaticAssets(): string[] {
+  return performance
+    .getEntriesByType('resource')
+    .map((entry) => new URL(entry.name))
+    .filter((url) => url.origin === location.origin && url.pathname.startsWith('/_next/static/'))
+    .map((url) => url.pathname + url.search);
+}
+
+/**
+ * Store a page and everything /api/offline lists for it. Photos and tiles that
+ * fail to download are skipped; the page itself must succeed.
+ */
+export async function saveForOffline(
+  pageUrl: string,
+  bundleUrl: string,
+  onProgress?: (progress: SaveProgress) => void
+): Promise<SavedOfflineEntry> {
+  const cache = await caches.open(OFFLINE_CACHE);
+
+  const [bundleResponse, pageResponse] = await Promise.all([fetch(bundleUrl), fetch(pageUrl)]);
+  if (!bundleResponse.ok || !pageResponse.ok) {
+    throw new Error('Could not download this page. Check your connection and try again.');
+  }
+  const bundle: OfflineBundle = await bundleResponse.clone().json();
+  await cache.put(bundleUrl, bundleResponse);
+  await cache.put(pageUrl, pageResponse);
+
+  const sameOrigin = [...new Set([...bundle.pages, ...loadedStaticAssets()])].filter((url) => url !== pageUrl);
+  const downloads: { url: string; init?: RequestInit }[] = [
+    ...sameOrigin.map((url) => ({ url })),
+    // Photos are on other hosts without CORS guarantees; <img> can use opaque copies
+    ...bundle.photos.map((url) => ({ url, init: { mode: 'no-cors' as const } })),
+    ...bundle.tiles.map((url) => ({ url })),
+  ];
+
+  let done = 0;
+  onProgress?.({ done, total: downloads.length });
+
+  const queue = [...downloads];
+  const worker = async () => {
+    for (let item = queue.shift(); item; item = queue.shift()) {
+      try {
+        const response = await fetch(item.url, item.init);
+        if (response.ok || response.type === 'opaque') {
+          await cache.put(item.url, response);
+        }
+      } catch {
+        // Skipped; the page still works without this photo or tile
+      }
+      onProgress?.({ done: ++done, total: downloads.length });
+    }
+  };
+  await Promise.all(Array.from({ length: SAVE_CONCURRENCY }, worker));
+
+  const entry: SavedOfflineEntry = {
+    pageUrl,
+    title: bundle.title,
+    bundleUrl,
+    savedAt: new Date().toISOString(),
+    urls: [bundleUrl, pageUrl, ...downloads.map((d) => d.url)],
+  };
+  writeIndex([entry, ...parseIndex(getSnapshot()).filter((e) => e.pageUrl !== pageUrl)]);
+
+  return entry;
+}
+
+/**
+ * Forget a saved page, deleting what no other saved page also uses
+ */
+export async function removeSavedOffline(pageUrl: string): Promise<void> {
+  const entries = parseIndex(getSnapshot());
+  const target = entries.find((e) => e.pageUrl === pageUrl);
+  if (!target) return;
+
+  const remaining = entries.filter((e) => e.pageUrl !== pageUrl);
+  const stillUsed = new Set(remaining.flatMap((e) => e.urls));
+
+  const cache = await caches.open(OFFLINE_CACHE);
+  await Promise.all(target.urls.filter((url) => !stillUsed.has(url)).map((url) => cache.delete(url)));
+
+  writeIndex(remaining);
+}
+
+/**
+ * The spring data stored with a saved page, or null if it's gone
+ */
+export async function readSavedBundle(entry: SavedOfflineEntry): Promise<OfflineBundle | null> {
+  const cache = await caches.open(OFFLINE_CACHE);
+  const response = await cache.match(entry.bundleUrl);
+  return response ? response.json() : null;
+}
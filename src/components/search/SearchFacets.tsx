@@ -0,0 +1,382 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { cn, STATE_NAMES } from '@/lib/utils';
+import {
+  accessDifficultySchema,
+  bestSeasonSchema,
+  cellServiceTypeSchema,
+  clothingOptionalTypeSchema,
+  crowdLevelSchema,
+  feeTypeSchema,
+  parkingTypeSchema,
+  warningTypeSchema,
+} from '@/lib/schemas';
+import type { SpringFilterParam } from '@/lib/utils/spring-filters';
+import type { SpringFacetCounts, SpringFacetKey } from '@/types/spring';
+import { listValues, useSearchUrl } from './useSearchUrl';
+
+// =============================================================================
+// Facet Definitions
+// =============================================================================
+
+interface Option {
+  value: string;
+  label: string;
+}
+
+interface ListFacet {
+  facet: SpringFacetKey;
+  param: SpringFilterParam;
+  label: string;
+  options: Option[];
+}
+
+// Fallback label for enum values: 'short_walk' -> 'Short walk'
+function formatLabel(value: string): string {
+  const text = value.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function enumOptions(values: readonly string[], overrides: Record<string, string> = {}): Option[] {
+  return values.map((value) => ({ value, label: overrides[value] ?? formatLabel(value) }));
+}
+
+const SPRING_TYPE_OPTIONS: Option[] = [
+  { value: 'hot', label: 'Hot Springs' },
+  { value: 'warm', label: 'Warm Springs' },
+  { value: 'cold', label: 'Swimming Holes' },
+];
+
+const EXPERIENCE_OPTIONS: Option[] = [
+  { value: 'resort', label: 'Resort' },
+  { value: 'primitive', label: 'Primitive' },
+  { value: 'hybrid', label: 'Hybrid' },
+];
+
+// Buckets match spring_facet_counts; the top bucket has no upper bound
+const TEMPERATURE_BUCKETS = [
+  { value: '0-69', label: 'Under 70°F', min: '0', max: '69' },
+  { value: '70-99', label: '70–99°F', min: '70', max: '99' },
+  { value: '100-109', label: '100–109°F', min: '100', max: '109' },
+  { value: '110-250', label: '110°F and up', min: '110', max: null },
+];
+
+const LIST_FACETS: ListFacet[] = [
+  {
+    facet: 'fee_type',
+    param: 'fee',
+    label: 'Cost',
+    options: enumOptions(feeTypeSchema.options.filter((v) => v !== 'unknown')),
+  },
+  {
+    facet: 'access_difficulty',
+    param: 'access',
+    label: 'Access',
+    options: enumOptions(accessDifficultySchema.options),
+  },
+  {
+    facet: 'parking',
+    param: 'parking',
+    label: 'Parking',
+    options: enumOptions(parkingTypeSchema.options),
+  },
+  {
+    facet: 'cell_service',
+    param: 'cell',
+    label: 'Cell service',
+    options: enumOptions(cellServiceTypeSchema.options.filter((v) => v !== 'unknown')),
+  },
+  {
+    facet: 'crowd_level',
+    param: 'crowd',
+    label: 'Crowds',
+    options: enumOptions(crowdLevelSchema.options),
+  },
+  {
+    facet: 'best_season',
+    param: 'season',
+    label: 'Best season',
+    options: enumOptions(bestSeasonSchema.options, { year_round: 'Year-round' }),
+  },
+  {
+    facet: 'clothing_optional',
+    param: 'clothing',
+    label: 'Clothing optional',
+    options: enumOptions(clothingOptionalTypeSchema.options.filter((v) => v !== 'unknown')),
+  },
+];
+
+const FEATURE_FACETS: { facet: SpringFacetKey; param: SpringFilterParam; label: string }[] = [
+  { facet: 'kid_friendly', param: 'kid_friendly', label: 'Kid friendly' },
+  { facet: 'waterfall', param: 'waterfall', label: 'Waterfall' },
+  { facet: 'cliff_jumping', param: 'cliff_jumping', label: 'Cliff jumping' },
+  { facet: 'rope_swing', param: 'rope_swing', label: 'Rope swing' },
+];
+
+const WARNING_OPTIONS = enumOptions(warningTypeSchema.options, {
+  cold_shock: 'Cold shock risk',
+  wildlife_bears: 'Bear activity',
+  wildlife_snakes: 'Snakes',
+  remote_no_help: 'Remote location',
+});
+
+// =============================================================================
+// Building Blocks
+// =============================================================================
+
+function FacetGroup({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <fieldset className="border-t border-forest/10 pt-4">
+      <legend className="font-display text-sm font-semibold text-forest mb-2">{title}</legend>
+      <div className="space-y-1">{children}</div>
+    </fieldset>
+  );
+}
+
+function FacetCheckbox({
+  label,
+  count,
+  checked,
+  onChange,
+}: {
+  label: string;
+  count: number | undefined;
+  checked: boolean;
+  onChange: () => void;
+}) {
+  // Hide options that can't match anything, unless they're already selected
+  if (!checked && !count) return null;
+
+  return (
+    <label className="flex items-center gap-2 py-0.5 cursor-pointer text-sm font-body text-bark/80 hover:text-forest">
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={onChange}
+        className="w-4 h-4 rounded border-forest/30 accent-forest"
+      />
+      <span className="flex-1">{label}</span>
+      <span className="text-xs text-bark/40 tabular-nums">{(count ?? 0).toLocaleString()}</span>
+    </label>
+  );
+}
+
+function TemperatureRangeForm({
+  min,
+  max,
+  onApply,
+}: {
+  min: string;
+  max: string;
+  onApply: (min: string, max: string) => void;
+}) {
+  const [customMin, setCustomMin] = useState(min);
+  const [customMax, setCustomMax] = useState(max);
+  const inputClass = 'w-20 px-2 py-1 rounded border border-forest/20 bg-cream text-sm font-body';
+
+  return (
+    <form
+      className="flex items-center gap-1.5 pt-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        onApply(customMin, customMax);
+      }}
+    >
+      <input
+        type="number"
+        min={0}
+        max={250}
+        value={customMin}
+        onChange={(e) => setCustomMin(e.target.value)}
+        placeholder="Min °F"
+        aria-label="Minimum temperature in °F"
+        className={inputClass}
+      />
+      <span className="text-bark/40 text-sm">–</span>
+      <input
+        type="number"
+        min={0}
+        max={250}
+        value={customMax}
+        onChange={(e) => setCustomMax(e.target.value)}
+        placeholder="Max °F"
+        aria-label="Maximum temperature in °F"
+        className={inputClass}
+      />
+      <button
+        type="submit"
+        className="px-2 py-1 rounded bg-forest/10 text-forest text-sm font-display font-medium hover:bg-forest/20"
+      >
+        Go
+      </button>
+    </form>
+  );
+}
+
+// =============================================================================
+// SearchFacets Component
+// =============================================================================
+
+interface SearchFacetsProps {
+  counts: SpringFacetCounts;
+  className?: string;
+}
+
+export function SearchFacets({ counts, className }: SearchFacetsProps) {
+  const { searchParams, update } = useSearchUrl();
+  const tempMin = searchParams.get('temp_min') ?? '';
+  const tempMax = searchParams.get('temp_max') ?? '';
+
+  const toggleListValue = (param: string, value: string) => {
+    const current = listValues(searchParams, param);
+    const next = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+    update({ [param]: next.join(',') || null });
+  };
+
+  const stateCounts = counts.state ?? {};
+  const selectedState = searchParams.get('state')?.toUpperCase() ?? '';
+  const stateOptions = Object.keys(STATE_NAMES)
+    .filter((code) => stateCounts[code] || code === selectedState)
+    .sort((a, b) => STATE_NAMES[a].localeCompare(STATE_NAMES[b]));
+
+  return (
+    <aside className={cn('space-y-4', className)} aria-label="Search filters">
+      {/* State */}
+      <div>
+        <label htmlFor="facet-state" className="font-display text-sm font-semibold text-forest block mb-2">
+          State
+        </label>
+        <select
+          id="facet-state"
+          value={selectedState}
+          onChange={(e) => update({ state: e.target.value || null })}
+          className="w-full px-3 py-2 rounded-lg border border-forest/20 bg-cream font-body text-sm text-forest focus-natural"
+        >
+          <option value="">All states</option>
+          {stateOptions.map((code) => (
+            <option key={code} value={code}>
+              {STATE_NAMES[code]} ({(stateCounts[code] ?? 0).toLocaleString()})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Single-valued type facets */}
+      {(
+        [
+          { facet: 'spring_type', param: 'type', title: 'Type', options: SPRING_TYPE_OPTIONS },
+          { facet: 'experience_type', param: 'experience', title: 'Experience', options: EXPERIENCE_OPTIONS },
+        ] as const
+      ).map(({ facet, param, title, options }) => {
+        const selected = searchParams.get(param);
+        return (
+          <FacetGroup key={facet} title={title}>
+            {options.map(({ value, label }) => (
+              <FacetCheckbox
+                key={value}
+                label={label}
+                count={counts[facet]?.[value]}
+                checked={selected === value}
+                onChange={() => update({ [param]: selected === value ? null : value })}
+              />
+            ))}
+          </FacetGroup>
+        );
+      })}
+
+      {/* Temperature */}
+      <FacetGroup title="Temperature">
+        {TEMPERATURE_BUCKETS.map((bucket) => {
+          const checked = tempMin === bucket.min && tempMax === (bucket.max ?? '');
+          return (
+            <FacetCheckbox
+              key={bucket.value}
+              label={bucket.label}
+              count={counts.temperature?.[bucket.value]}
+              checked={checked}
+              onChange={() =>
+                update(checked ? { temp_min: null, temp_max: null } : { temp_min: bucket.min, temp_max: bucket.max })
+              }
+            />
+          );
+        })}
+        <TemperatureRangeForm
+          // Re-mount when the URL changes so the inputs never show stale values
+          key={`${tempMin}-${tempMax}`}
+          min={tempMin}
+          max={tempMax}
+          onApply={(min, max) => update({ temp_min: min || null, temp_max: max || null })}
+        />
+      </FacetGroup>
+
+      {/* Multi-valued practical attributes */}
+      {LIST_FACETS.map(({ facet, param, label, options }) => {
+        const selected = listValues(searchParams, param);
+        return (
+          <FacetGroup key={facet} title={label}>
+            {options.map((option) => (
+              <FacetCheckbox
+                key={option.value}
+                label={option.label}
+                count={counts[facet]?.[option.value]}
+                checked={selected.includes(option.value)}
+                onChange={() => toggleListValue(param, option.value)}
+              />
+            ))}
+          </FacetGroup>
+        );
+      })}
+
+      {/* Features */}
+      <FacetGroup title="Features">
+        {FEATURE_FACETS.map(({ facet, param, label }) => {
+          const checked = searchParams.get(param) === 'true';
+          return (
+            <FacetCheckbox
+              key={facet}
+              label={label}
+              count={counts[facet]?.true}
+              checked={checked}
+              onChange={() => update({ [param]: checked ? null : 'true' })}
+            />
+          );
+        })}
+      </FacetGroup>
+
+      {/* Warnings - counts are how many springs each exclusion would remove */}
+      <FacetGroup title="Avoid">
+        {WARNING_OPTIONS.map((option) => (
+          <FacetCheckbox
+            key={option.value}
+            label={option.label}
+            count={counts.exclude_warnings?.[option.value]}
+            checked={listValues(searchParams, 'exclude_warnings').includes(option.value)}
+            onChange={() => toggleListValue('exclude_warnings', option.value)}
+          />
+        ))}
+      </FacetGroup>
+    </aside>
+  );
+}
+
+/**
+ * Remove every filter but keep the search query, sort and origin
+ */
+export function ClearFiltersButton({ params }: { params: readonly string[] }) {
+  const { searchParams, update } = useSearchUrl();
+  const active = params.filter((param) => searchParams.has(param));
+  if (active.length === 0) return null;
+
+  return (
+    <button
+      type="button"
+      onClick={() => update(Object.fromEntries(active.map((param) => [param, null])))}
+      className="inline-flex items-center gap-1 text-sm text-bark/60 hover:text-terracotta font-display font-medium transition-colors"
+    >
+      <X className="w-3.5 h-3.5" />
+      Clear filters
+    </button>
+  );
+}
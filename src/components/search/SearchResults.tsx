@@ -0,0 +1,142 @@
+'use client';
+
+import { useState } from 'react';
+import { Droplets, Loader2, MapPin } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SpringCard } from '@/components/springs/SpringCard';
+import { SpringMap } from '@/components/maps';
+import type { FacetedSpring, SpringSort } from '@/types/spring';
+import { useSearchUrl } from './useSearchUrl';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const SORT_OPTIONS: { value: SpringSort; label: string }[] = [
+  { value: 'name', label: 'Name' },
+  { value: 'distance', label: 'Distance' },
+  { value: 'temperature', label: 'Hottest first' },
+  { value: 'recent', label: 'Recently added' },
+];
+
+const GEOLOCATION_TIMEOUT_MS = 10000;
+
+// =============================================================================
+// SearchResults Component - Sorted list and map over the same result set
+// =============================================================================
+
+interface SearchResultsProps {
+  springs: FacetedSpring[];
+  total: number;
+  sort: SpringSort;
+  hasOrigin: boolean;
+  className?: string;
+}
+
+export function SearchResults({ springs, total, sort, hasOrigin, className }: SearchResultsProps) {
+  const { update } = useSearchUrl();
+  const [activeSpringId, setActiveSpringId] = useState<string | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+
+  // Distance needs an origin; ask for one the first time it's chosen
+  const handleSortChange = (value: SpringSort) => {
+    if (value !== 'distance' || hasOrigin) {
+      update({ sort: value === 'name' ? null : value });
+      return;
+    }
+    if (!navigator.geolocation) {
+      alert('Geolocation is not supported by your browser');
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        update({
+          sort: 'distance',
+          lat: position.coords.latitude.toFixed(4),
+          lng: position.coords.longitude.toFixed(4),
+        });
+      },
+      (error) => {
+        console.error('Geolocation error:', error);
+        setIsLocating(false);
+        alert('Unable to get your location, so results stay sorted by name.');
+      },
+      { timeout: GEOLOCATION_TIMEOUT_MS }
+    );
+  };
+
+  return (
+    <div className={className}>
+      {/* Count + sort */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <p className="text-bark/60 font-body" aria-live="polite">
+          {springs.length < total ? (
+            <>
+              Showing <span className="font-semibold text-forest">{springs.length}</span> of{' '}
+            </>
+          ) : null}
+          <span className="font-semibold text-forest">{total.toLocaleString()}</span>{' '}
+          {total === 1 ? 'spring' : 'springs'}
+        </p>
+
+        <label className="flex items-center gap-2 text-sm font-body text-bark/60">
+          {isLocating ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Sort by'}
+          <select
+            value={sort}
+            onChange={(e) => handleSortChange(e.target.value as SpringSort)}
+            disabled={isLocating}
+            className="px-3 py-1.5 rounded-lg border border-forest/20 bg-cream font-display text-sm text-forest focus-natural"
+          >
+            {SORT_OPTIONS.map(({ value, label }) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {springs.length > 0 ? (
+        <div className="grid gap-6 xl:grid-cols-2">
+          {/* Map first on small screens; sticky beside the list on wide ones */}
+          <div className="xl:order-2">
+            <div className="h-[360px] xl:h-[calc(100vh-8rem)] xl:sticky xl:top-4">
+              <SpringMap springs={springs} activeSpringId={activeSpringId} className="h-full" />
+            </div>
+          </div>
+
+          <ol className="space-y-3 xl:order-1">
+            {springs.map((spring) => (
+              <li key={spring.id} className="relative">
+                <SpringCard
+                  spring={spring}
+                  distance={spring.distance_miles ?? undefined}
+                  className={cn(activeSpringId === spring.id && 'border-terracotta/50 shadow-md')}
+                />
+                <button
+                  type="button"
+                  onClick={() => setActiveSpringId(spring.id)}
+                  aria-label={`Show ${spring.name} on the map`}
+                  className="absolute top-3 right-3 p-1.5 rounded-md bg-cream/90 text-bark/50 hover:text-terracotta hover:bg-stone transition-colors"
+                >
+                  <MapPin className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      ) : (
+        <div className="bg-cream rounded-xl p-12 text-center border border-forest/10">
+          <Droplets className="w-12 h-12 mx-auto text-bark/30 mb-4" />
+          <h3 className="font-display text-xl font-semibold text-forest mb-2">No springs found</h3>
+          <p className="text-bark/60 font-body">
+            Try removing a filter - the counts beside each option show what you&apos;d get.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
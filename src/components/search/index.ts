@@ -0,0 +1,2 @@
+export { SearchFacets, ClearFiltersButton } from './SearchFacets';
+export { SearchResults } from './SearchResults';
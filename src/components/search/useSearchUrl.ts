@@ -0,0 +1,39 @@
+'use client';
+
+import { useCallback } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+
+/**
+ * All /search state lives in the URL. Returns the current params plus an
+ * updater that sets (string) or removes (null) params and navigates.
+ */
+export function useSearchUrl() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const update = useCallback(
+    (changes: Record<string, string | null>) => {
+      const params = new URLSearchParams(searchParams.toString());
+      for (const [key, value] of Object.entries(changes)) {
+        if (value) {
+          params.set(key, value);
+        } else {
+          params.delete(key);
+        }
+      }
+      const queryString = params.toString();
+      router.push(queryString ? `${pathname}?${queryString}` : pathname, { scroll: false });
+    },
+    [router, pathname, searchParams]
+  );
+
+  return { searchParams, update };
+}
+
+/**
+ * Values of a comma-separated list param
+ */
+export function listValues(searchParams: URLSearchParams, param: string): string[] {
+  return searchParams.getAll(param).flatMap((v) => v.split(',')).filter(Boolean);
+}
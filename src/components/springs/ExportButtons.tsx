@@ -0,0 +1,43 @@
+import { Download } from 'lucide-react';
+
+interface ExportButtonsProps {
+  /** Export filters, e.g. { state: 'ID', type: 'hot' }; unset values are dropped */
+  filters: Record<string, string | undefined>;
+  className?: string;
+}
+
+const FORMATS = [
+  { format: 'gpx', label: 'GPX', hint: 'Garmin, Gaia GPS' },
+  { format: 'kml', label: 'KML', hint: 'Google Earth, CalTopo' },
+  { format: 'geojson', label: 'GeoJSON', hint: 'GIS tools' },
+] as const;
+
+/**
+ * Download links for the current collection, for GPS units and mapping apps
+ * that work without cell service
+ */
+export function ExportButtons({ filters, className = '' }: ExportButtonsProps) {
+  const params = new URLSearchParams(
+    Object.entries(filters).filter((entry): entry is [string, string] => Boolean(entry[1]))
+  ).toString();
+
+  return (
+    <div className={`flex flex-wrap items-center gap-2 ${className}`}>
+      <span className="inline-flex items-center gap-1.5 text-sm text-bark/60 font-body">
+        <Download className="w-4 h-4" />
+        Download for offline use:
+      </span>
+      {FORMATS.map(({ format, label, hint }) => (
+        <a
+          key={format}
+          href={`/api/export.${format}${params ? `?${params}` : ''}`}
+          download
+          title={hint}
+          className="px-3 py-1 rounded-lg border border-forest/20 bg-cream font-display text-sm font-medium text-forest hover:border-forest/40 hover:text-terracotta transition-colors"
+        >
+          {label}
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import Link from 'next/link';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+
+interface PaginationProps {
+  prevHref: string | null;
+  nextHref: string | null;
+}
+
+const LINK_CLASS =
+  'inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-forest/20 bg-cream text-forest hover:bg-forest/10 hover:border-forest/40 transition-colors font-display text-sm';
+
+/**
+ * Previous/next links for keyset-paginated listings; renders nothing on a
+ * single page
+ */
+export function Pagination({ prevHref, nextHref }: PaginationProps) {
+  if (!prevHref && !nextHref) return null;
+
+  return (
+    <nav aria-label="Pagination" className="flex items-center justify-between gap-4 mt-10">
+      {prevHref ? (
+        <Link href={prevHref} className={LINK_CLASS}>
+          <ChevronLeft className="w-4 h-4" />
+          Previous
+        </Link>
+      ) : (
+        <span />
+      )}
+      {nextHref && (
+        <Link href={nextHref} className={LINK_CLASS}>
+          Next
+          <ChevronRight className="w-4 h-4" />
+        </Link>
+      )}
+    </nav>
+  );
+}
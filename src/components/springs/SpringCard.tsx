@@ -26,6 +26,25 @@ function formatTemp(tempF: number | null, type: string): string {
   return type === 'hot' ? 'Hot' : type === 'warm' ? 'Warm' : 'Cold';
 }
 
+// Search snippets wrap matches in <mark></mark>; render them as elements
+// rather than injecting HTML
+function SearchSnippet({ text }: { text: string }) {
+  const parts = text.split(/<\/?mark>/);
+  return (
+    <p className="text-sm text-bark/60 font-body mt-2 line-clamp-3">
+      {parts.map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="bg-sand/60 text-forest rounded px-0.5">
+            {part}
+          </mark>
+        ) : (
+          <span key={i}>{part}</span>
+        )
+      )}
+    </p>
+  );
+}
+
 // =============================================================================
 // SpringCard Component - Compact, Info-Dense Editorial Design
 // =============================================================================
@@ -34,9 +53,10 @@ interface SpringCardProps {
   spring: SpringSummary;
   className?: string;
   distance?: number;
+  snippet?: string | null;
 }
 
-export function SpringCard({ spring, className, distance }: SpringCardProps) {
+export function SpringCard({ spring, className, distance, snippet }: SpringCardProps) {
   const hasAccess = spring.access_difficulty && spring.access_difficulty !== 'drive_up';
   const hasFee = spring.fee_type && spring.fee_type !== 'unknown';
   const hasParking = spring.parking && spring.parking !== 'ample';
@@ -119,6 +139,8 @@ export function SpringCard({ spring, className, distance }: SpringCardProps) {
               </span>
             )}
           </div>
+
+          {snippet && <SearchSnippet text={snippet} />}
         </div>
       </div>
     </Link>
@@ -130,7 +152,7 @@ export function SpringCard({ spring, className, distance }: SpringCardProps) {
 // =============================================================================
 
 interface SpringGridProps {
-  springs: SpringSummary[];
+  springs: (SpringSummary & { snippet?: string | null })[];
   className?: string;
 }
 
@@ -144,7 +166,7 @@ export function SpringGrid({ springs, className }: SpringGridProps) {
       )}
     >
       {springs.map((spring) => (
-        <SpringCard key={spring.id} spring={spring} />
+        <SpringCard key={spring.id} spring={spring} snippet={spring.snippet} />
       ))}
     </div>
   );
@@ -40,6 +40,8 @@ export function StateFilters({ className }: StateFiltersProps) {
   const updateFilters = useCallback(
     (key: string, value: string | null) => {
       const params = new URLSearchParams(searchParams.toString());
+      // Changing filters invalidates any pagination cursor
+      params.delete('cursor');
       if (value) {
         params.set(key, value);
       } else {
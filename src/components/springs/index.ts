@@ -1 +1,3 @@
 export { SpringCard, SpringGrid } from './SpringCard';
+export { ExportButtons } from './ExportButtons';
+export { Pagination } from './Pagination';
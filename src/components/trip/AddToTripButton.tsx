@@ -0,0 +1,41 @@
+'use client';
+
+import Link from 'next/link';
+import { Check, Plus, Route } from 'lucide-react';
+import { MAX_TRIP_STOPS } from '@/lib/trip/optimizer';
+import { tripHref } from './tripHref';
+import { useTripIds } from './useTripIds';
+
+export function AddToTripButton({ springId }: { springId: string }) {
+  const [ids, setIds] = useTripIds();
+  const inTrip = ids.includes(springId);
+  const isFull = !inTrip && ids.length >= MAX_TRIP_STOPS;
+
+  const toggle = () => {
+    setIds(inTrip ? ids.filter((id) => id !== springId) : [...ids, springId]);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <button
+        type="button"
+        onClick={toggle}
+        disabled={isFull}
+        aria-pressed={inTrip}
+        className="inline-flex items-center justify-center gap-2 px-6 py-4 text-base font-display font-semibold tracking-wide rounded-lg border border-forest/20 bg-cream text-forest hover:border-forest/40 hover-lift hover-press focus-natural transition-all duration-300 disabled:opacity-50"
+      >
+        {inTrip ? <Check className="w-5 h-5" /> : <Plus className="w-5 h-5" />}
+        {inTrip ? 'In Your Trip' : isFull ? 'Trip Is Full' : 'Add to Trip'}
+      </button>
+      {ids.length > 0 && (
+        <Link
+          href={tripHref(ids)}
+          className="inline-flex items-center gap-2 font-display text-sm font-medium text-forest hover:text-terracotta transition-colors"
+        >
+          <Route className="w-4 h-4" />
+          View trip ({ids.length} {ids.length === 1 ? 'stop' : 'stops'})
+        </Link>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+'use client';
+
+import Link from 'next/link';
+import { X } from 'lucide-react';
+import { tripHref } from './tripHref';
+import { isSameTrip, useTripIds } from './useTripIds';
+
+/**
+ * Link to the trip without one stop. Removing from the visitor's own trip
+ * also updates the saved trip; removing from someone else's doesn't.
+ */
+export function RemoveFromTripLink({ springId, tripIds }: { springId: string; tripIds: string[] }) {
+  const [storedIds, setIds] = useTripIds();
+  const remaining = tripIds.filter((id) => id !== springId);
+
+  const handleClick = () => {
+    if (isSameTrip(storedIds, tripIds)) setIds(storedIds.filter((id) => id !== springId));
+  };
+
+  return (
+    <Link
+      href={tripHref(remaining)}
+      onClick={handleClick}
+      className="mt-2 inline-flex items-center gap-1 text-sm text-bark/50 hover:text-terracotta transition-colors font-body"
+    >
+      <X className="w-3.5 h-3.5" />
+      Remove from trip
+    </Link>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { Route } from 'lucide-react';
+import { tripHref } from './tripHref';
+import { isSameTrip, useTripIds } from './useTripIds';
+
+/**
+ * For a trip opened from a link: becomes the visitor's own trip when they have
+ * none yet, so "Add to Trip" on spring pages adds to it. A visitor with a trip
+ * of their own keeps it unless they choose "Make this my trip".
+ */
+export function SharedTripPrompt({ ids }: { ids: string[] }) {
+  const [storedIds, setIds, loaded] = useTripIds();
+  const key = ids.join(',');
+  const hasOwnTrip = storedIds.length > 0;
+
+  useEffect(() => {
+    if (loaded && !hasOwnTrip && key) setIds(key.split(','));
+  }, [loaded, hasOwnTrip, key, setIds]);
+
+  if (!loaded || !hasOwnTrip || ids.length === 0 || isSameTrip(storedIds, ids)) return null;
+
+  return (
+    <div className="container-brutal mb-8">
+      <div className="flex flex-wrap items-center gap-4 bg-cream rounded-xl p-4 border border-forest/10 max-w-3xl">
+        <p className="flex-1 min-w-[16rem] text-sm text-bark/70 font-body">
+          This is a shared trip. Your own trip ({storedIds.length} {storedIds.length === 1 ? 'stop' : 'stops'}) is
+          saved on this device.
+        </p>
+        <button
+          type="button"
+          onClick={() => setIds(ids)}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm font-display font-semibold rounded-lg bg-forest text-cream hover:bg-forest/90 focus-natural transition-colors"
+        >
+          Make this my trip
+        </button>
+        <Link
+          href={tripHref(storedIds)}
+          className="inline-flex items-center gap-2 font-display text-sm font-medium text-forest hover:text-terracotta transition-colors"
+        >
+          <Route className="w-4 h-4" />
+          View my trip
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,5 @@
+export { AddToTripButton } from './AddToTripButton';
+export { RemoveFromTripLink } from './RemoveFromTripLink';
+export { SharedTripPrompt } from './SharedTripPrompt';
+export { tripHref } from './tripHref';
+export { useTripIds } from './useTripIds';
@@ -0,0 +1,6 @@
+/**
+ * The /trip URL for a list of spring IDs (usable from server and client)
+ */
+export function tripHref(ids: string[]): string {
+  return `/trip?ids=${ids.join(',')}`;
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+
+// Comma-separated spring IDs, in the order they were added
+const STORAGE_KEY = 'soakmap:trip';
+
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  // Other tabs
+  window.addEventListener('storage', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('storage', listener);
+  };
+}
+
+function getSnapshot(): string {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? '';
+  } catch {
+    // Storage disabled (e.g. some private browsing modes)
+    return '';
+  }
+}
+
+function getServerSnapshot(): string {
+  return '';
+}
+
+function subscribeNever() {
+  return () => {};
+}
+
+/**
+ * Whether two ID lists are the same trip, in any order
+ */
+export function isSameTrip(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id) => b.includes(id));
+}
+
+/**
+ * The springs picked for a trip, kept in localStorage so picks survive
+ * navigation. Returns the IDs, a setter, and whether storage has been read
+ * (until then, during server rendering and hydration, the IDs are empty).
+ */
+export function useTripIds(): [string[], (ids: string[]) => void, boolean] {
+  const raw = useSyncExternalStore(subscribe, getSnapshot, getServerSnapshot);
+  const loaded = useSyncExternalStore(subscribeNever, () => true, () => false);
+  const ids = useMemo(() => raw.split(',').filter(Boolean), [raw]);
+
+  const setIds = useCallback((next: string[]) => {
+    try {
+      localStorage.setItem(STORAGE_KEY, next.join(','));
+    } catch {
+      return;
+    }
+    listeners.forEach((listener) => listener());
+  }, []);
+
+  return [ids, setIds, loaded];
+}
@@ -0,0 +1,86 @@
+/**
+ * API key lookup for the /api middleware.
+ *
+ * Queries supabase-js directly rather than through '@/lib/data', so the
+ * middleware never loads a data source (or the in-memory fixture).
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { env } from '@/lib/env';
+import type { Result } from '@/lib/data/source';
+import type { Database } from '@/types/database';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  per_minute_limit: number;
+  per_day_limit: number;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Keys change rarely; revocations take effect within this window
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+// Bound memory use when clients send many random keys
+const MAX_CACHE_ENTRIES = 1000;
+
+// Unknown keys are cached too, so guessing doesn't cost a query per request
+const keyCache = new Map<string, { key: ApiKey | null; expiresAt: number }>();
+
+// =============================================================================
+// Lookup
+// =============================================================================
+
+/**
+ * Hex SHA-256 of a raw key - the form stored in api_keys.key_hash
+ */
+export async function hashApiKey(rawKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(rawKey));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Resolve a raw key to its quotas; null for unknown or revoked keys.
+ * Keys only exist in Supabase, so every key is unknown with DATA_SOURCE=memory.
+ */
+export async function lookupApiKey(rawKey: string): Promise<Result<ApiKey | null>> {
+  if (env.dataSource !== 'supabase') {
+    return { ok: true, data: null };
+  }
+
+  const keyHash = await hashApiKey(rawKey);
+  const now = Date.now();
+  const cached = keyCache.get(keyHash);
+  if (cached && cached.expiresAt > now) {
+    return { ok: true, data: cached.key };
+  }
+
+  const supabase = createClient<Database>(env.supabaseUrl, env.supabaseAnonKey, {
+    auth: { autoRefreshToken: false, persistSession: false },
+  });
+  const { data, error } = await supabase.rpc('api_key_quota', { lookup_key_hash: keyHash });
+
+  if (error) {
+    // Not cached: the next request retries
+    console.error('Error looking up API key:', error);
+    return { ok: false, error: `Database error: ${error.message}` };
+  }
+
+  const key = data?.[0] ?? null;
+
+  if (keyCache.size >= MAX_CACHE_ENTRIES) {
+    // Map iterates in insertion order, so this drops the oldest entry
+    const oldest = keyCache.keys().next().value;
+    if (oldest !== undefined) keyCache.delete(oldest);
+  }
+  keyCache.set(keyHash, { key, expiresAt: now + CACHE_TTL_MS });
+
+  return { ok: true, data: key };
+}
@@ -0,0 +1,137 @@
+/**
+ * Forward-confirmed reverse DNS (FCrDNS) verification for search engine bots.
+ *
+ * A request claiming to be e.g. Googlebot is genuine only when its IP reverse
+ * resolves to a hostname under the engine's domain AND that hostname resolves
+ * back to the same IP. This is the check the engines themselves document.
+ */
+
+import { Resolver } from 'node:dns/promises';
+import { isIP, isIPv6 } from 'node:net';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** DNS lookups the verifier needs; injectable so tests don't touch the network */
+export interface DnsResolver {
+  /** PTR hostnames for an IP */
+  reverse(ip: string): Promise<string[]>;
+  /** A or AAAA addresses for a hostname, matching the IP family */
+  resolve(hostname: string, family: 4 | 6): Promise<string[]>;
+}
+
+export interface BotVerifier {
+  /** Whether `ip` belongs to a host under one of `domains` (e.g. 'googlebot.com') */
+  verify(ip: string, domains: readonly string[]): Promise<boolean>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Verdicts are stable; re-check genuine bots daily and spoofers hourly
+const VERIFIED_TTL_MS = 24 * 60 * 60 * 1000;
+const REJECTED_TTL_MS = 60 * 60 * 1000;
+
+// DNS failures (timeouts, SERVFAIL) say nothing about the bot; retry soon
+const DNS_ERROR_TTL_MS = 5 * 60 * 1000;
+
+// Bound memory use when many IPs claim to be bots
+const MAX_CACHE_ENTRIES = 10000;
+
+// Answers that mean "no such record" rather than "DNS is broken"
+const NOT_FOUND_CODES = new Set(['ENOTFOUND', 'ENODATA']);
+
+// =============================================================================
+// System Resolver
+// =============================================================================
+
+/**
+ * Resolver backed by the system's DNS servers, with a short timeout so a slow
+ * DNS server delays a bot's first request by seconds at most
+ */
+export function createSystemDnsResolver(timeoutMs = 2000): DnsResolver {
+  const resolver = new Resolver({ timeout: timeoutMs, tries: 1 });
+
+  return {
+    reverse: (ip) => resolver.reverse(ip),
+    resolve: (hostname, family) =>
+      family === 6 ? resolver.resolve6(hostname) : resolver.resolve4(hostname),
+  };
+}
+
+// =============================================================================
+// Verifier
+// =============================================================================
+
+function isUnderDomain(hostname: string, domains: readonly string[]): boolean {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  return domains.some((domain) => host.endsWith(`.${domain}`));
+}
+
+function normalizeIp(ip: string): string {
+  return ip.toLowerCase();
+}
+
+/**
+ * FCrDNS check with a verdict cache. Concurrent requests from the same IP
+ * share one lookup.
+ */
+export function createBotVerifier(resolver: DnsResolver = createSystemDnsResolver()): BotVerifier {
+  const cache = new Map<string, { verdict: Promise<boolean>; expiresAt: number }>();
+
+  async function lookup(ip: string, domains: readonly string[]): Promise<{ verified: boolean; ttlMs: number }> {
+    try {
+      const hostnames = (await resolver.reverse(ip)).filter((host) => isUnderDomain(host, domains));
+      const family = isIPv6(ip) ? 6 : 4;
+
+      for (const hostname of hostnames) {
+        const addresses = await resolver.resolve(hostname, family);
+        if (addresses.map(normalizeIp).includes(normalizeIp(ip))) {
+          return { verified: true, ttlMs: VERIFIED_TTL_MS };
+        }
+      }
+      return { verified: false, ttlMs: REJECTED_TTL_MS };
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (code && NOT_FOUND_CODES.has(code)) {
+        return { verified: false, ttlMs: REJECTED_TTL_MS };
+      }
+      console.error('Bot verification DNS error:', error);
+      return { verified: false, ttlMs: DNS_ERROR_TTL_MS };
+    }
+  }
+
+  return {
+    verify(ip, domains) {
+      // e.g. 'unknown' when no forwarding header was present
+      if (!isIP(ip)) return Promise.resolve(false);
+
+      const key = `${domains.join(',')}|${normalizeIp(ip)}`;
+      const now = Date.now();
+      const cached = cache.get(key);
+      if (cached && cached.expiresAt > now) {
+        return cached.verdict;
+      }
+
+      if (cache.size >= MAX_CACHE_ENTRIES) {
+        // Map iterates in insertion order, so this drops the oldest entry
+        const oldest = cache.keys().next().value;
+        if (oldest !== undefined) cache.delete(oldest);
+      }
+
+      // Pending lookups stay cached (briefly) so a burst shares them
+      const entry = {
+        verdict: lookup(ip, domains).then(({ verified, ttlMs }) => {
+          entry.expiresAt = Date.now() + ttlMs;
+          return verified;
+        }),
+        expiresAt: now + DNS_ERROR_TTL_MS,
+      };
+      cache.set(key, entry);
+
+      return entry.verdict;
+    },
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Typeahead matching for places (seed cities and states)
+ * Springs come from the database; see db.suggestSprings
+ */
+
+import { STATE_NAMES } from '@/lib/utils/states';
+import type { Suggestion } from '@/types/spring';
+import { SEED_CITIES } from './seed-cities';
+
+// =============================================================================
+// Matching
+// =============================================================================
+
+/**
+ * Score how well a name matches the query (lower is better), or null for no match.
+ * 0 = name starts with query, 1 = a later word starts with query, 2 = substring
+ */
+export function matchScore(name: string, query: string): number | null {
+  const haystack = name.toLowerCase();
+  const needle = query.trim().toLowerCase();
+  if (!needle) return null;
+
+  if (haystack.startsWith(needle)) return 0;
+  if (haystack.split(/[\s-]+/).some((word) => word.startsWith(needle))) return 1;
+  if (haystack.includes(needle)) return 2;
+  return null;
+}
+
+function rankMatches<T>(items: T[], getName: (item: T) => string, query: string, limit: number): T[] {
+  return items
+    .map((item) => ({ item, score: matchScore(getName(item), query) }))
+    .filter((entry): entry is { item: T; score: number } => entry.score !== null)
+    .sort((a, b) => a.score - b.score || getName(a.item).localeCompare(getName(b.item)))
+    .slice(0, limit)
+    .map(({ item }) => item);
+}
+
+// =============================================================================
+// Place Suggestions
+// =============================================================================
+
+/**
+ * Seed cities matching the query, linking to their /near/[location] page
+ */
+export function suggestCities(query: string, limit = 5): Suggestion[] {
+  return rankMatches(SEED_CITIES, (city) => city.name, query, limit).map((city) => ({
+    kind: 'city',
+    label: `${city.name}, ${city.state}`,
+    detail: 'Springs within 100 miles',
+    url: `/near/${city.slug}`,
+  }));
+}
+
+/**
+ * States matching the query by name, or exactly by 2-letter code
+ */
+export function suggestStates(query: string, limit = 3): Suggestion[] {
+  const states = Object.entries(STATE_NAMES).map(([code, name]) => ({ code, name }));
+  const code = query.trim().toUpperCase();
+  const byCode = states.filter((state) => state.code === code);
+  const byName = rankMatches(states, (state) => state.name, query, limit).filter(
+    (state) => state.code !== code
+  );
+
+  return [...byCode, ...byName].slice(0, limit).map((state) => ({
+    kind: 'state',
+    label: state.name,
+    detail: 'State',
+    url: `/${state.code.toLowerCase()}`,
+  }));
+}
@@ -0,0 +1,16 @@
+/**
+ * The spring data source selected by DATA_SOURCE.
+ *
+ * - supabase (default): PostGIS-backed production database
+ * - memory: fixture JSON file at DATA_FIXTURE_PATH, no network required
+ */
+
+import { env } from '@/lib/env';
+import { supabaseDataSource } from '@/lib/supabase';
+import { createMemoryDataSource, loadFixtureSprings } from './memory';
+import type { SpringDataSource } from './source';
+
+export const db: SpringDataSource =
+  env.dataSource === 'memory'
+    ? createMemoryDataSource(loadFixtureSprings(env.fixturePath))
+    : supabaseDataSource;
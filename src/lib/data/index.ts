@@ -1 +1,3 @@
 export * from './springs';
+export { db } from './db';
+export type { Result, SpringDataSource, SpringStats, SpringSuggestion } from './source';
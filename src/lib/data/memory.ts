@@ -0,0 +1,537 @@
+/**
+ * In-memory data source backed by a fixture JSON file.
+ *
+ * Mirrors the Supabase provider's filtering, ordering and paging rules so pages
+ * behave the same offline. Full-text search is approximated with substring
+ * matching, and vector tiles come back empty.
+ */
+
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { z } from 'zod';
+import { springSchema } from '@/lib/schemas';
+import { STATE_NAMES } from '@/lib/utils/states';
+import { compareKeyset, decodeCursor, encodeCursor } from '@/lib/utils/cursor';
+import { areaContains, haversineMiles, locateOnRoute } from '@/lib/utils/geo';
+import {
+  FEATURE_FILTERS,
+  KID_FRIENDLY_VALUES,
+  MULTI_VALUE_FILTERS,
+  TAG_FILTERS,
+} from '@/lib/utils/spring-filters';
+import type { Result, SpringDataSource } from './source';
+import type {
+  Spring,
+  SpringSummary,
+  SpringPage,
+  SpringSearchResult,
+  PageParams,
+  State,
+  NearbySpring,
+  NearbyFilters,
+  RouteSpring,
+  SpringFilters,
+  SpringFacetKey,
+  SpringFacetCounts,
+  FacetedSpring,
+} from '@/types';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Same limits as the Supabase provider
+const MAX_LIMIT = 5000;
+const DEFAULT_LIMIT = 100;
+
+// Temperature buckets reported by spring_facet_counts
+const TEMPERATURE_BUCKETS = [
+  { value: '0-69', max: 69 },
+  { value: '70-99', max: 99 },
+  { value: '100-109', max: 109 },
+  { value: '110-250', max: Infinity },
+];
+
+// =============================================================================
+// Fixture Loading
+// =============================================================================
+
+/**
+ * Read and validate a fixture file: a JSON array of Spring rows
+ */
+export function loadFixtureSprings(fixturePath: string): Spring[] {
+  const resolved = path.resolve(process.cwd(), fixturePath);
+  const parsed = z.array(springSchema).safeParse(JSON.parse(readFileSync(resolved, 'utf8')));
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(`Invalid spring fixture ${fixturePath} at ${issue.path.join('.')}: ${issue.message}`);
+  }
+
+  return parsed.data as Spring[];
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function toSummary(s: Spring): SpringSummary {
+  return {
+    id: s.id,
+    name: s.name,
+    slug: s.slug,
+    state: s.state,
+    lat: s.lat,
+    lng: s.lng,
+    spring_type: s.spring_type,
+    experience_type: s.experience_type,
+    photo_url: s.photo_url,
+    temp_f: s.temp_f,
+    access_difficulty: s.access_difficulty,
+    parking: s.parking,
+    fee_type: s.fee_type,
+  };
+}
+
+function matchesNearbyFilters(s: Spring, filters: NearbyFilters | undefined): boolean {
+  return (
+    (!filters?.spring_type || s.spring_type === filters.spring_type) &&
+    (!filters?.experience_type || s.experience_type === filters.experience_type) &&
+    (!filters?.fee_type || s.fee_type === filters.fee_type) &&
+    (!filters?.access_difficulty || s.access_difficulty === filters.access_difficulty) &&
+    (!filters?.clothing_optional || s.clothing_optional === filters.clothing_optional)
+  );
+}
+
+function searchTerms(q: string): string[] {
+  return q.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Substring stand-in for the search_vector match: every term must appear in the
+ * name, description or state name
+ */
+function matchesText(spring: Spring, terms: string[]): boolean {
+  const haystack = `${spring.name} ${spring.description} ${STATE_NAMES[spring.state] ?? ''} ${spring.state}`.toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
+type FilterMiss = SpringFacetKey | 'q';
+
+/**
+ * Every filter the spring fails - the in-memory twin of spring_filter_misses.
+ * `textSearch` selects full-text q matching (faceted search) over a name
+ * substring (listings), as in the Supabase provider.
+ */
+function filterMisses(spring: Spring, filters: SpringFilters, textSearch: boolean): FilterMiss[] {
+  const misses: FilterMiss[] = [];
+
+  if (filters.state && spring.state !== filters.state.toUpperCase()) misses.push('state');
+  if (filters.spring_type && spring.spring_type !== filters.spring_type) misses.push('spring_type');
+  if (filters.experience_type && spring.experience_type !== filters.experience_type) {
+    misses.push('experience_type');
+  }
+
+  const q = filters.q?.trim();
+  if (q) {
+    const matches = textSearch
+      ? matchesText(spring, searchTerms(q))
+      : spring.name.toLowerCase().includes(q.toLowerCase());
+    if (!matches) misses.push('q');
+  }
+
+  const temp = spring.temp_f;
+  if (
+    (filters.temp_min !== undefined && (temp === null || temp < filters.temp_min)) ||
+    (filters.temp_max !== undefined && (temp === null || temp > filters.temp_max))
+  ) {
+    misses.push('temperature');
+  }
+
+  for (const key of MULTI_VALUE_FILTERS) {
+    const allowed: readonly (string | null)[] | undefined = filters[key];
+    if (allowed?.length && (spring[key] === null || !allowed.includes(spring[key]))) misses.push(key);
+  }
+
+  for (const key of FEATURE_FILTERS) {
+    if (filters[key] !== undefined && (spring[key] === true) !== filters[key]) misses.push(key);
+  }
+
+  if (filters.kid_friendly !== undefined) {
+    const isKidFriendly = (KID_FRIENDLY_VALUES as readonly (string | null)[]).includes(spring.kid_friendly);
+    if (isKidFriendly !== filters.kid_friendly) misses.push('kid_friendly');
+  }
+
+  const excluded = filters.exclude_warnings;
+  if (excluded?.length && spring.warnings?.some((w) => excluded.includes(w))) {
+    misses.push('exclude_warnings');
+  }
+
+  return misses;
+}
+
+/**
+ * Keyset paging in (name, id) order, matching fetchSpringPage
+ */
+function keysetPage(rows: Spring[], page: PageParams | undefined, defaultLimit: number): Result<SpringPage> {
+  const cursor = page?.cursor ? decodeCursor(page.cursor) : null;
+  if (page?.cursor && !cursor) {
+    return { ok: false, error: 'Invalid cursor' };
+  }
+
+  const limit = clamp(page?.limit || defaultLimit, 1, MAX_LIMIT);
+  const sorted = [...rows].sort(compareKeyset);
+
+  let slice: Spring[];
+  let hasNext: boolean;
+  let hasPrev: boolean;
+
+  if (cursor?.dir === 'prev') {
+    const before = sorted.filter((s) => compareKeyset(s, cursor) < 0);
+    slice = before.slice(-limit);
+    hasPrev = before.length > limit;
+    hasNext = true;
+  } else {
+    const after = cursor ? sorted.filter((s) => compareKeyset(s, cursor) > 0) : sorted;
+    slice = after.slice(0, limit);
+    hasNext = after.length > limit;
+    hasPrev = cursor !== null;
+  }
+
+  const first = slice[0];
+  const last = slice[slice.length - 1];
+
+  return {
+    ok: true,
+    data: {
+      springs: slice.map(toSummary),
+      total: rows.length,
+      next_cursor: hasNext && last ? encodeCursor(last, 'next') : null,
+      prev_cursor: hasPrev && first ? encodeCursor(first, 'prev') : null,
+    },
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Excerpt around the first matching term with matches wrapped in <mark></mark>,
+ * like ts_headline in search_springs
+ */
+function buildSnippet(description: string, terms: string[]): string | null {
+  const lower = description.toLowerCase();
+  const positions = terms.map((term) => lower.indexOf(term)).filter((i) => i >= 0);
+  if (positions.length === 0) return null;
+
+  const start = Math.max(0, Math.min(...positions) - 80);
+  const excerpt = description.slice(start, start + 240);
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+
+  return `${start > 0 ? '…' : ''}${excerpt.replace(pattern, '<mark>$1</mark>')}${
+    start + 240 < description.length ? '…' : ''
+  }`;
+}
+
+function buildStates(springs: Spring[]): State[] {
+  const byCode = new Map<string, State>();
+
+  for (const spring of springs) {
+    const state = byCode.get(spring.state) ?? {
+      code: spring.state,
+      name: STATE_NAMES[spring.state] ?? spring.state,
+      spring_count: 0,
+      hot_count: 0,
+      warm_count: 0,
+      cold_count: 0,
+    };
+    state.spring_count++;
+    state[`${spring.spring_type}_count`]++;
+    byCode.set(spring.state, state);
+  }
+
+  return Array.from(byCode.values()).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function increment(counts: SpringFacetCounts, facet: SpringFacetKey, value: string | null) {
+  if (value === null) return;
+  const values = (counts[facet] ??= {});
+  values[value] = (values[value] ?? 0) + 1;
+}
+
+// =============================================================================
+// Memory Data Source
+// =============================================================================
+
+export function createMemoryDataSource(springs: Spring[]): SpringDataSource {
+  const states = buildStates(springs);
+
+  const filtered = (filters: SpringFilters, textSearch = false) =>
+    springs.filter((s) => filterMisses(s, filters, textSearch).length === 0);
+
+  return {
+    async getSprings(filters) {
+      return keysetPage(filtered(filters ?? {}), filters, DEFAULT_LIMIT);
+    },
+
+    async getFacetedSprings(filters, sort = 'name', origin, limit = 100) {
+      const rows: FacetedSpring[] = filtered(filters, true).map((s) => ({
+        ...toSummary(s),
+        distance_miles: origin ? haversineMiles(origin, s) : null,
+        created_at: s.created_at,
+      }));
+
+      rows.sort((a, b) => {
+        if (sort === 'distance' && origin) {
+          return (a.distance_miles ?? 0) - (b.distance_miles ?? 0) || compareKeyset(a, b);
+        }
+        if (sort === 'temperature') {
+          if (a.temp_f !== b.temp_f) {
+            if (a.temp_f === null) return 1;
+            if (b.temp_f === null) return -1;
+            return b.temp_f - a.temp_f;
+          }
+        }
+        if (sort === 'recent' && a.created_at !== b.created_at) {
+          return a.created_at < b.created_at ? 1 : -1;
+        }
+        return compareKeyset(a, b);
+      });
+
+      return { ok: true, data: { springs: rows.slice(0, clamp(limit, 1, 500)), total: rows.length } };
+    },
+
+    async getFacetCounts(filters) {
+      const counts: SpringFacetCounts = {};
+
+      for (const spring of springs) {
+        const misses = filterMisses(spring, filters, true);
+        if (misses.length > 1) continue;
+        // A facet counts springs whose only miss (if any) is that facet's own filter
+        const countsFor = (facet: SpringFacetKey) => misses.length === 0 || misses[0] === facet;
+
+        if (countsFor('state')) increment(counts, 'state', spring.state);
+        if (countsFor('spring_type')) increment(counts, 'spring_type', spring.spring_type);
+        if (countsFor('experience_type')) increment(counts, 'experience_type', spring.experience_type);
+        if (countsFor('temperature') && spring.temp_f !== null) {
+          const temp = spring.temp_f;
+          increment(counts, 'temperature', TEMPERATURE_BUCKETS.find((b) => temp <= b.max)?.value ?? null);
+        }
+        for (const key of MULTI_VALUE_FILTERS) {
+          if (countsFor(key)) increment(counts, key, spring[key]);
+        }
+        for (const key of FEATURE_FILTERS) {
+          if (countsFor(key) && spring[key] === true) increment(counts, key, 'true');
+        }
+        if (
+          countsFor('kid_friendly') &&
+          (KID_FRIENDLY_VALUES as readonly (string | null)[]).includes(spring.kid_friendly)
+        ) {
+          increment(counts, 'kid_friendly', 'true');
+        }
+        if (countsFor('exclude_warnings')) {
+          for (const warning of spring.warnings ?? []) increment(counts, 'exclude_warnings', warning);
+        }
+      }
+
+      return { ok: true, data: counts };
+    },
+
+    async searchSprings(q, filters, limit = 20) {
+      const terms = searchTerms(q.slice(0, 200));
+      if (terms.length === 0) return { ok: true, data: { springs: [], total: 0 } };
+
+      const matches: SpringSearchResult[] = filtered({ ...filters }, true)
+        .filter((s) => matchesText(s, terms))
+        .map((s) => {
+          const name = s.name.toLowerCase();
+          // Name hits outrank description hits, as with the A/B weights in SQL
+          const rank = terms.reduce(
+            (sum, term) => sum + (name.includes(term) ? 1 : s.description.toLowerCase().includes(term) ? 0.4 : 0.1),
+            0
+          );
+          return { ...toSummary(s), rank, snippet: buildSnippet(s.description, terms) };
+        })
+        .sort((a, b) => b.rank - a.rank || a.name.localeCompare(b.name));
+
+      return { ok: true, data: { springs: matches.slice(0, clamp(limit, 1, 100)), total: matches.length } };
+    },
+
+    async suggestSprings(q, limit = 5) {
+      const term = q.trim().slice(0, 100).toLowerCase();
+      const suggestions = springs
+        .filter((s) => s.name.toLowerCase().includes(term))
+        .sort(
+          (a, b) =>
+            Number(b.name.toLowerCase().startsWith(term)) - Number(a.name.toLowerCase().startsWith(term)) ||
+            a.name.localeCompare(b.name)
+        )
+        .slice(0, clamp(limit, 1, 20))
+        .map(({ id, name, slug, state, spring_type }) => ({ id, name, slug, state, spring_type }));
+
+      return { ok: true, data: suggestions };
+    },
+
+    async getSpringBySlug(slug) {
+      return { ok: true, data: springs.find((s) => s.slug === slug) ?? null };
+    },
+
+    async getSpringById(id) {
+      return { ok: true, data: springs.find((s) => s.id === id) ?? null };
+    },
+
+    async getSpringsByIds(ids) {
+      const byId = new Map(springs.map((s) => [s.id, s]));
+      return {
+        ok: true,
+        data: ids.flatMap((id) => {
+          const spring = byId.get(id);
+          return spring ? [toSummary(spring)] : [];
+        }),
+      };
+    },
+
+    async getCurrentSlug() {
+      // Fixtures are a snapshot with no rename history
+      return { ok: true, data: null };
+    },
+
+    async getSpringSlugs() {
+      return { ok: true, data: springs.map(({ slug }) => ({ slug })) };
+    },
+
+    async getStates() {
+      return { ok: true, data: [...states] };
+    },
+
+    async getStateByCode(code) {
+      return { ok: true, data: states.find((s) => s.code === code.toUpperCase()) ?? null };
+    },
+
+    async getSpringsByState(stateCode, page) {
+      return keysetPage(filtered({ state: stateCode }), page, MAX_LIMIT);
+    },
+
+    async getSpringsByTag(tag, page) {
+      if (!Object.hasOwn(TAG_FILTERS, tag)) {
+        return { ok: false, error: 'Invalid tag' };
+      }
+      return keysetPage(filtered(TAG_FILTERS[tag]), page, MAX_LIMIT);
+    },
+
+    async getNearby(lat, lng, radiusMiles = 50, limit = 10, filters) {
+      const origin = { lat: clamp(lat, -90, 90), lng: clamp(lng, -180, 180) };
+      const radius = clamp(radiusMiles, 1, 500);
+
+      const nearby: NearbySpring[] = springs
+        .filter((s) => matchesNearbyFilters(s, filters))
+        .map((s) => ({
+          id: s.id,
+          name: s.name,
+          slug: s.slug,
+          state: s.state,
+          spring_type: s.spring_type,
+          experience_type: s.experience_type,
+          distance_miles: haversineMiles(origin, s),
+          lat: s.lat,
+          lng: s.lng,
+          photo_url: s.photo_url,
+          temp_f: s.temp_f,
+          access_difficulty: s.access_difficulty,
+          parking: s.parking,
+          fee_type: s.fee_type,
+        }))
+        .filter((s) => s.distance_miles <= radius)
+        .sort((a, b) => a.distance_miles - b.distance_miles);
+
+      return { ok: true, data: nearby.slice(0, clamp(limit, 1, 50)) };
+    },
+
+    async getSpringsAlongRoute(route, corridorMiles = 10, limit = 100, filters) {
+      if (route.length === 0) {
+        return { ok: true, data: [] };
+      }
+      const corridor = clamp(corridorMiles, 1, 50);
+
+      const matches: RouteSpring[] = springs
+        .filter((s) => matchesNearbyFilters(s, filters))
+        .map((s) => {
+          const { alongMiles, distanceMiles } = locateOnRoute(route, s);
+          return { ...toSummary(s), route_miles: alongMiles, detour_miles: 2 * distanceMiles };
+        })
+        .filter((s) => s.detour_miles / 2 <= corridor)
+        .sort((a, b) => a.detour_miles - b.detour_miles)
+        .slice(0, clamp(limit, 1, 200));
+
+      return {
+        ok: true,
+        data: matches.sort((a, b) => a.route_miles - b.route_miles || a.detour_miles - b.detour_miles),
+      };
+    },
+
+    async getSpringsInArea(area, limit = 200, filters) {
+      const matches = springs
+        .filter((s) => matchesNearbyFilters(s, filters) && areaContains(area, s))
+        .sort((a, b) => Number(b.photo_url !== null) - Number(a.photo_url !== null) || a.name.localeCompare(b.name))
+        .slice(0, clamp(limit, 1, MAX_LIMIT))
+        .map(toSummary);
+      return { ok: true, data: matches };
+    },
+
+    async getSpringsInBounds(bounds, limit = 500, filters) {
+      const markers = filtered({ spring_type: filters?.spring_type, experience_type: filters?.experience_type })
+        .filter(
+          (s) => s.lng >= bounds.west && s.lng <= bounds.east && s.lat >= bounds.south && s.lat <= bounds.north
+        )
+        .sort((a, b) => Number(b.photo_url !== null) - Number(a.photo_url !== null) || a.name.localeCompare(b.name))
+        .slice(0, clamp(limit, 1, MAX_LIMIT))
+        .map(({ id, name, slug, lat, lng, spring_type, experience_type }) => ({
+          id,
+          name,
+          slug,
+          lat,
+          lng,
+          spring_type,
+          experience_type,
+        }));
+
+      return { ok: true, data: markers };
+    },
+
+    async getSpringTile() {
+      // No MVT encoder without PostGIS; an empty tile (204) keeps map pans quiet
+      return { ok: true, data: new Uint8Array() };
+    },
+
+    async getFeaturedSprings(limit = 6) {
+      const safeLimit = clamp(limit, 1, 20);
+      const primary = springs.filter((s) => s.photo_url !== null && s.confidence === 'high').slice(0, safeLimit);
+
+      // Same fallback as Supabase: not enough photo springs means any springs by name
+      const featured =
+        primary.length >= safeLimit ? primary : [...springs].sort(compareKeyset).slice(0, safeLimit);
+
+      return { ok: true, data: featured.map(toSummary) };
+    },
+
+    async getStats() {
+      return {
+        ok: true,
+        data: states.reduce(
+          (acc, state) => ({
+            total: acc.total + state.spring_count,
+            hot: acc.hot + state.hot_count,
+            warm: acc.warm + state.warm_count,
+            cold: acc.cold + state.cold_count,
+          }),
+          { total: 0, hot: 0, warm: 0, cold: 0 }
+        ),
+      };
+    },
+  };
+}
@@ -1,493 +0,0 @@
-import type { Spring } from '@/types/spring';
-
-/**
- * Mock springs data for development and testing.
- * This will be replaced by real Supabase data when the database is populated.
- */
-export const MOCK_SPRINGS: Spring[] = [
-  // HOT SPRINGS
-  {
-    id: '1',
-    name: 'Goldbug Hot Springs',
-    slug: 'goldbug-hot-springs-id',
-    state: 'ID',
-    lat: 44.8667,
-    lng: -114.1667,
-    spring_type: 'hot',
-    experience_type: 'primitive',
-    description:
-      'A stunning series of natural pools reached via a moderate 2-mile hike. Multiple terraced pools offer varying temperatures with breathtaking mountain views.',
-    temp_f: 105,
-    photo_url: null,
-    access_difficulty: 'moderate_hike',
-    parking: 'trailhead',
-    time_from_parking_min: 60,
-    cell_service: 'none',
-    fee_type: 'free',
-    fee_amount_usd: null,
-    crowd_level: 'busy',
-    best_season: 'year_round',
-    best_time: 'weekday',
-    clothing_optional: 'unofficial',
-    sulfur_smell: 'faint',
-    pool_count: 6,
-    depth: null,
-    water_clarity: null,
-    cliff_jumping: null,
-    cliff_heights_ft: null,
-    rope_swing: null,
-    waterfall: null,
-    kid_friendly: null,
-    warnings: ['slippery_rocks', 'high_temperature'],
-    source: 'mock',
-    source_id: null,
-    enrichment_status: 'complete',
-    confidence: 'high',
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  },
-  {
-    id: '2',
-    name: 'Strawberry Park Hot Springs',
-    slug: 'strawberry-park-hot-springs-co',
-    state: 'CO',
-    lat: 40.5558,
-    lng: -106.8453,
-    spring_type: 'hot',
-    experience_type: 'hybrid',
-    description:
-      'Natural hot spring pools nestled in the mountains near Steamboat Springs. Features both developed and natural soaking areas with varying temperatures.',
-    temp_f: 104,
-    photo_url: null,
-    access_difficulty: 'drive_up',
-    parking: 'limited',
-    time_from_parking_min: 5,
-    cell_service: 'partial',
-    fee_type: 'paid',
-    fee_amount_usd: 25,
-    crowd_level: 'moderate',
-    best_season: 'winter',
-    best_time: null,
-    clothing_optional: 'yes',
-    sulfur_smell: 'moderate',
-    pool_count: 4,
-    depth: null,
-    water_clarity: null,
-    cliff_jumping: null,
-    cliff_heights_ft: null,
-    rope_swing: null,
-    waterfall: null,
-    kid_friendly: null,
-    warnings: ['high_temperature'],
-    source: 'mock',
-    source_id: null,
-    enrichment_status: 'complete',
-    confidence: 'high',
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  },
-  {
-    id: '3',
-    name: 'Glenwood Hot Springs',
-    slug: 'glenwood-hot-springs-co',
-    state: 'CO',
-    lat: 39.5505,
-    lng: -107.3248,
-    spring_type: 'hot',
-    experience_type: 'resort',
-    description:
-      'The world\'s largest natural hot springs pool. This historic resort offers a massive mineral pool, spa services, and modern amenities in a stunning canyon setting.',
-    temp_f: 93,
-    photo_url: null,
-    access_difficulty: 'drive_up',
-    parking: 'ample',
-    time_from_parking_min: 2,
-    cell_service: 'full',
-    fee_type: 'paid',
-    fee_amount_usd: 35,
-    crowd_level: 'busy',
-    best_season: 'year_round',
-    best_time: null,
-    clothing_optional: 'no',
-    sulfur_smell: 'faint',
-    pool_count: 2,
-    depth: null,
-    water_clarity: null,
-    cliff_jumping: null,
-    cliff_heights_ft: null,
-    rope_swing: null,
-    waterfall: null,
-    kid_friendly: null,
-    warnings: null,
-    source: 'mock',
-    source_id: null,
-    enrichment_status: 'complete',
-    confidence: 'high',
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  },
-  {
-    id: '4',
-    name: 'Travertine Hot Springs',
-    slug: 'travertine-hot-springs-ca',
-    state: 'CA',
-    lat: 38.2411,
-    lng: -119.2006,
-    spring_type: 'hot',
-    experience_type: 'primitive',
-    description:
-      'Free, primitive hot springs near Bridgeport with stunning views of the Eastern Sierra. Multiple pools at different temperatures perched on travertine formations.',
-    temp_f: 102,
-    photo_url: null,
-    access_difficulty: 'short_walk',
-    parking: 'roadside',
-    time_from_parking_min: 10,
-    cell_service: 'partial',
-    fee_type: 'free',
-    fee_amount_usd: null,
-    crowd_level: 'moderate',
-    best_season: 'fall',
-    best_time: 'early_morning',
-    clothing_optional: 'unofficial',
-    sulfur_smell: 'moderate',
-    pool_count: 5,
-    depth: null,
-    water_clarity: null,
-    cliff_jumping: null,
-    cliff_heights_ft: null,
-    rope_swing: null,
-    waterfall: null,
-    kid_friendly: null,
-    warnings: ['high_temperature', 'slippery_rocks'],
-    source: 'mock',
-    source_id: null,
-    enrichment_status: 'complete',
-    confidence: 'high',
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  },
-  {
-    id: '5',
-    name: 'Terwilliger Hot Springs',
-    slug: 'terwilliger-hot-springs-or',
-    state: 'OR',
-    lat: 44.0164,
-    lng: -122.2622,
-    spring_type: 'hot',
-    experience_type: 'primitive',
-    description:
-      'Also known as Cougar Hot Springs, this series of terraced pools is surrounded by old-growth forest. A short hike leads to progressively cooler pools.',
-    temp_f: 108,
-    photo_url: null,
-    access_difficulty: 'short_walk',
-    parking: 'trailhead',
-    time_from_parking_min: 15,
-    cell_service: 'none',
-    fee_type: 'paid',
-    fee_amount_usd: 7,
-    crowd_level: 'moderate',
-    best_season: 'spring',
-    best_time: 'weekday',
-    clothing_optional: 'yes',
-    sulfur_smell: 'none',
-    pool_count: 5,
-    depth: null,
-    water_clarity: null,
-    cliff_jumping: null,
-    cliff_heights_ft: null,
-    rope_swing: null,
-    waterfall: null,
-    kid_friendly: null,
-    warnings: ['high_temperature'],
-    source: 'mock',
-    source_id: null,
-    enrichment_status: 'complete',
-    confidence: 'high',
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  },
-
-  // WARM SPRINGS
-  {
-    id: '6',
-    name: 'Barton Springs Pool',
-    slug: 'barton-springs-pool-tx',
-    state: 'TX',
-    lat: 30.264,
-    lng: -97.771,
-    spring_type: 'warm',
-    experience_type: 'hybrid',
-    description:
-      'A beloved Austin landmark featuring a 3-acre natural swimming pool fed by underground springs. The water stays a constant 68-70°F year-round.',
-    temp_f: 68,
-    photo_url: null,
-    access_difficulty: 'drive_up',
-    parking: 'limited',
-    time_from_parking_min: 5,
-    cell_service: 'full',
-    fee_type: 'paid',
-    fee_amount_usd: 9,
-    crowd_level: 'packed',
-    best_season: 'summer',
-    best_time: 'early_morning',
-    clothing_optional: 'no',
-    sulfur_smell: null,
-    pool_count: 1,
-    depth: 'deep',
-    water_clarity: 'crystal',
-    cliff_jumping: false,
-    cliff_heights_ft: null,
-    rope_swing: false,
-    waterfall: false,
-    kid_friendly: 'some_areas',
-    warnings: ['cold_shock', 'no_lifeguard'],
-    source: 'mock',
-    source_id: null,
-    enrichment_status: 'complete',
-    confidence: 'high',
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  },
-  {
-    id: '7',
-    name: 'Blue Hole',
-    slug: 'blue-hole-nm',
-    state: 'NM',
-    lat: 34.9328,
-    lng: -104.6775,
-    spring_type: 'warm',
-    experience_type: 'primitive',
-    description:
-      'A crystal-clear artesian spring pool that\'s 80 feet deep and 60 feet in diameter. Popular with scuba divers for training due to its exceptional clarity.',
-    temp_f: 81,
-    photo_url: null,
-    access_difficulty: 'short_walk',
-    parking: 'ample',
-    time_from_parking_min: 5,
-    cell_service: 'full',
-    fee_type: 'paid',
-    fee_amount_usd: 8,
-    crowd_level: 'moderate',
-    best_season: 'summer',
-    best_time: null,
-    clothing_optional: 'no',
-    sulfur_smell: null,
-    pool_count: 1,
-    depth: 'deep',
-    water_clarity: 'crystal',
-    cliff_jumping: true,
-    cliff_heights_ft: [15],
-    rope_swing: false,
-    waterfall: false,
-    kid_friendly: 'some_areas',
-    warnings: ['cold_shock'],
-    source: 'mock',
-    source_id: null,
-    enrichment_status: 'complete',
-    confidence: 'high',
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  },
-
-  // COLD SPRINGS (Swimming Holes)
-  {
-    id: '8',
-    name: 'Hamilton Pool Preserve',
-    slug: 'hamilton-pool-preserve-tx',
-    state: 'TX',
-    lat: 30.3425,
-    lng: -98.1267,
-    spring_type: 'cold',
-    experience_type: 'hybrid',
-    description:
-      'A stunning natural pool beneath a 50-foot waterfall and carved-out grotto. Reservations required. The collapsed grotto creates a dramatic swimming environment.',
-    temp_f: 50,
-    photo_url: null,
-    access_difficulty: 'short_walk',
-    parking: 'limited',
-    time_from_parking_min: 15,
-    cell_service: 'partial',
-    fee_type: 'paid',
-    fee_amount_usd: 15,
-    crowd_level: 'busy',
-    best_season: 'summer',
-    best_time: 'weekday',
-    clothing_optional: 'no',
-    sulfur_smell: null,
-    pool_count: 1,
-    depth: 'varies',
-    water_clarity: 'clear',
-    cliff_jumping: false,
-    cliff_heights_ft: null,
-    rope_swing: false,
-    waterfall: true,
-    kid_friendly: 'yes',
-    warnings: ['slippery_rocks', 'cliff_edges', 'seasonal_closure'],
-    source: 'mock',
-    source_id: null,
-    enrichment_status: 'complete',
-    confidence: 'high',
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  },
-  {
-    id: '9',
-    name: 'Sliding Rock',
-    slug: 'sliding-rock-nc',
-    state: 'NC',
-    lat: 35.2856,
-    lng: -82.7769,
-    spring_type: 'cold',
-    experience_type: 'hybrid',
-    description:
-      'A 60-foot natural waterslide down a smooth rock face into an 8-foot deep pool. Fed by cold mountain water from Looking Glass Creek.',
-    temp_f: 50,
-    photo_url: null,
-    access_difficulty: 'short_walk',
-    parking: 'ample',
-    time_from_parking_min: 5,
-    cell_service: 'partial',
-    fee_type: 'paid',
-    fee_amount_usd: 5,
-    crowd_level: 'packed',
-    best_season: 'summer',
-    best_time: 'early_morning',
-    clothing_optional: 'no',
-    sulfur_smell: null,
-    pool_count: 1,
-    depth: 'deep',
-    water_clarity: 'crystal',
-    cliff_jumping: false,
-    cliff_heights_ft: null,
-    rope_swing: false,
-    waterfall: true,
-    kid_friendly: 'yes',
-    warnings: ['cold_shock', 'slippery_rocks'],
-    source: 'mock',
-    source_id: null,
-    enrichment_status: 'complete',
-    confidence: 'high',
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  },
-  {
-    id: '10',
-    name: 'Havasu Falls',
-    slug: 'havasu-falls-az',
-    state: 'AZ',
-    lat: 36.2553,
-    lng: -112.6979,
-    spring_type: 'cold',
-    experience_type: 'primitive',
-    description:
-      'Iconic turquoise waterfall plunging 100 feet into a stunning blue-green pool. Requires permits and a 10-mile hike into the Havasupai reservation.',
-    temp_f: 55,
-    photo_url: null,
-    access_difficulty: 'difficult_hike',
-    parking: 'trailhead',
-    time_from_parking_min: 300,
-    cell_service: 'none',
-    fee_type: 'paid',
-    fee_amount_usd: 200,
-    crowd_level: 'moderate',
-    best_season: 'spring',
-    best_time: null,
-    clothing_optional: 'no',
-    sulfur_smell: null,
-    pool_count: 1,
-    depth: 'deep',
-    water_clarity: 'crystal',
-    cliff_jumping: true,
-    cliff_heights_ft: [20, 35],
-    rope_swing: false,
-    waterfall: true,
-    kid_friendly: 'some_areas',
-    warnings: ['flash_flood_risk', 'remote_no_help', 'cliff_edges'],
-    source: 'mock',
-    source_id: null,
-    enrichment_status: 'complete',
-    confidence: 'high',
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  },
-  {
-    id: '11',
-    name: 'Jacob\'s Well',
-    slug: 'jacobs-well-tx',
-    state: 'TX',
-    lat: 30.0378,
-    lng: -98.1261,
-    spring_type: 'cold',
-    experience_type: 'primitive',
-    description:
-      'A perpetual artesian spring that emerges from an underwater cave. The 12-foot wide opening leads to an extensive cave system. Swimming reservations required.',
-    temp_f: 68,
-    photo_url: null,
-    access_difficulty: 'short_walk',
-    parking: 'limited',
-    time_from_parking_min: 10,
-    cell_service: 'partial',
-    fee_type: 'paid',
-    fee_amount_usd: 9,
-    crowd_level: 'busy',
-    best_season: 'summer',
-    best_time: 'early_morning',
-    clothing_optional: 'no',
-    sulfur_smell: null,
-    pool_count: 1,
-    depth: 'deep',
-    water_clarity: 'crystal',
-    cliff_jumping: true,
-    cliff_heights_ft: [12],
-    rope_swing: false,
-    waterfall: false,
-    kid_friendly: 'some_areas',
-    warnings: ['cold_shock'],
-    source: 'mock',
-    source_id: null,
-    enrichment_status: 'complete',
-    confidence: 'high',
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  },
-  {
-    id: '12',
-    name: 'Devil\'s Bathtub',
-    slug: 'devils-bathtub-va',
-    state: 'VA',
-    lat: 36.7333,
-    lng: -82.5833,
-    spring_type: 'cold',
-    experience_type: 'primitive',
-    description:
-      'A natural rock formation creating a small, crystal-clear pool in Jefferson National Forest. Reached via a challenging 6.4-mile round trip hike with multiple stream crossings.',
-    temp_f: 58,
-    photo_url: null,
-    access_difficulty: 'difficult_hike',
-    parking: 'trailhead',
-    time_from_parking_min: 120,
-    cell_service: 'none',
-    fee_type: 'free',
-    fee_amount_usd: null,
-    crowd_level: 'moderate',
-    best_season: 'summer',
-    best_time: 'weekday',
-    clothing_optional: 'no',
-    sulfur_smell: null,
-    pool_count: 1,
-    depth: 'shallow',
-    water_clarity: 'crystal',
-    cliff_jumping: false,
-    cliff_heights_ft: null,
-    rope_swing: false,
-    waterfall: true,
-    kid_friendly: 'no',
-    warnings: ['slippery_rocks', 'strong_current', 'remote_no_help'],
-    source: 'mock',
-    source_id: null,
-    enrichment_status: 'complete',
-    confidence: 'medium',
-    created_at: '2024-01-01T00:00:00Z',
-    updated_at: '2024-01-01T00:00:00Z',
-  },
-];
@@ -0,0 +1,143 @@
+/**
+ * The data-source contract every provider implements.
+ *
+ * Providers:
+ * - Supabase (src/lib/supabase/server.ts) - production, PostGIS-backed
+ * - In-memory (src/lib/data/memory.ts) - loads a fixture JSON file; used for
+ *   offline development and the Playwright suite
+ *
+ * Pick one with DATA_SOURCE (see src/lib/env.ts); app code imports the
+ * selected provider as `db` from '@/lib/data'.
+ */
+
+import type {
+  Spring,
+  SpringSummary,
+  SpringPage,
+  SpringSearchPage,
+  PageParams,
+  State,
+  NearbySpring,
+  NearbyFilters,
+  RouteSpring,
+  SpringMarker,
+  MapBounds,
+  SpringFilters,
+  SpringSort,
+  FacetedSearchPage,
+  SpringFacetCounts,
+} from '@/types';
+import type { AreaGeometry, LatLng } from '@/lib/utils/geo';
+
+// =============================================================================
+// Result Type for Error Handling
+// =============================================================================
+
+export type Result<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: string };
+
+// =============================================================================
+// Data Source Interface
+// =============================================================================
+
+export interface SpringStats {
+  total: number;
+  hot: number;
+  warm: number;
+  cold: number;
+}
+
+export type SpringSuggestion = Pick<SpringSummary, 'id' | 'name' | 'slug' | 'state' | 'spring_type'>;
+
+export interface SpringDataSource {
+  /** A keyset page of springs ordered by (name, id), plus the total match count */
+  getSprings(filters?: SpringFilters): Promise<Result<SpringPage>>;
+
+  /** Springs matching every filter in the requested order, plus the total */
+  getFacetedSprings(
+    filters: SpringFilters,
+    sort?: SpringSort,
+    origin?: { lat: number; lng: number },
+    limit?: number
+  ): Promise<Result<FacetedSearchPage>>;
+
+  /** Per-facet value counts; each facet ignores its own filter */
+  getFacetCounts(filters: SpringFilters): Promise<Result<SpringFacetCounts>>;
+
+  /** Relevance-ranked search over name, description and state */
+  searchSprings(
+    q: string,
+    filters?: Pick<SpringFilters, 'state' | 'spring_type' | 'experience_type'>,
+    limit?: number
+  ): Promise<Result<SpringSearchPage>>;
+
+  /** Name matches for typeahead, prefix matches first */
+  suggestSprings(q: string, limit?: number): Promise<Result<SpringSuggestion[]>>;
+
+  /** A single spring, or null when the slug doesn't exist */
+  getSpringBySlug(slug: string): Promise<Result<Spring | null>>;
+
+  /** A single spring by its stable ID, or null when the ID doesn't exist */
+  getSpringById(id: string): Promise<Result<Spring | null>>;
+
+  /** Summaries for the given IDs in the order given; unknown IDs are skipped */
+  getSpringsByIds(ids: string[]): Promise<Result<SpringSummary[]>>;
+
+  /** The current slug of a spring that used to have `oldSlug`, or null */
+  getCurrentSlug(oldSlug: string): Promise<Result<string | null>>;
+
+  getSpringSlugs(): Promise<Result<{ slug: string }[]>>;
+
+  /** States that have at least one spring, ordered by name */
+  getStates(): Promise<Result<State[]>>;
+
+  getStateByCode(code: string): Promise<Result<State | null>>;
+
+  getSpringsByState(stateCode: string, page?: PageParams): Promise<Result<SpringPage>>;
+
+  /** Springs for a /tag/[tag] page; unknown tags are an error */
+  getSpringsByTag(tag: string, page?: PageParams): Promise<Result<SpringPage>>;
+
+  /** Springs within radiusMiles of a point, nearest first */
+  getNearby(
+    lat: number,
+    lng: number,
+    radiusMiles?: number,
+    limit?: number,
+    filters?: NearbyFilters
+  ): Promise<Result<NearbySpring[]>>;
+
+  /**
+   * Springs within corridorMiles of a route, ordered by position along it.
+   * When more match than `limit`, the ones closest to the route are kept.
+   */
+  getSpringsAlongRoute(
+    route: LatLng[],
+    corridorMiles?: number,
+    limit?: number,
+    filters?: NearbyFilters
+  ): Promise<Result<RouteSpring[]>>;
+
+  /** Springs inside a drawn area (GeoJSON, edges straight in lng/lat), springs with photos first */
+  getSpringsInArea(
+    area: AreaGeometry,
+    limit?: number,
+    filters?: NearbyFilters
+  ): Promise<Result<SpringSummary[]>>;
+
+  /** Map markers inside a viewport, springs with photos first */
+  getSpringsInBounds(
+    bounds: MapBounds,
+    limit?: number,
+    filters?: Pick<SpringFilters, 'spring_type' | 'experience_type'>
+  ): Promise<Result<SpringMarker[]>>;
+
+  /** A Mapbox Vector Tile of spring points (empty array for an empty tile) */
+  getSpringTile(z: number, x: number, y: number): Promise<Result<Uint8Array>>;
+
+  /** Springs with photos and high confidence, topped up with any others */
+  getFeaturedSprings(limit?: number): Promise<Result<SpringSummary[]>>;
+
+  getStats(): Promise<Result<SpringStats>>;
+}
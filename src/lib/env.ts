@@ -10,8 +10,31 @@ function getEnvVar(name: string): string {
   return value;
 }
 
-// Validated at module load time
+export type DataSourceName = 'supabase' | 'memory';
+
+function getDataSource(): DataSourceName {
+  const value = process.env.DATA_SOURCE ?? 'supabase';
+  if (value !== 'supabase' && value !== 'memory') {
+    throw new Error(`Invalid DATA_SOURCE "${value}" - expected "supabase" or "memory"`);
+  }
+  return value;
+}
+
+const dataSource = getDataSource();
+
+// Validated at module load time. Supabase credentials are only required when
+// Supabase is the data source, so the in-memory provider runs fully offline.
 export const env = {
-  supabaseUrl: getEnvVar('NEXT_PUBLIC_SUPABASE_URL'),
-  supabaseAnonKey: getEnvVar('NEXT_PUBLIC_SUPABASE_ANON_KEY'),
+  dataSource,
+  fixturePath: process.env.DATA_FIXTURE_PATH ?? 'fixtures/springs.json',
+  supabaseUrl: dataSource === 'supabase' ? getEnvVar('NEXT_PUBLIC_SUPABASE_URL') : '',
+  supabaseAnonKey: dataSource === 'supabase' ? getEnvVar('NEXT_PUBLIC_SUPABASE_ANON_KEY') : '',
+  // Optional: shared rate-limit counters (in-memory per instance when unset)
+  redisUrl: process.env.REDIS_URL || null,
+  // Optional: OSRM server for trip drive distances (straight-line estimates when unset)
+  osrmUrl: process.env.OSRM_URL || null,
+  // Optional: signs first-party API session cookies (per-process random secret when unset)
+  firstPartySecret: process.env.FIRST_PARTY_SECRET || undefined,
+  // Optional: proxies in front of the app that append to X-Forwarded-For (see getClientIp in middleware.ts)
+  trustedProxyHops: Math.max(1, parseInt(process.env.TRUSTED_PROXY_HOPS ?? '', 10) || 1),
 } as const;
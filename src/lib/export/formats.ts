@@ -0,0 +1,168 @@
+/**
+ * Spring collections as GeoJSON, GPX 1.1 and KML 2.2, for loading into
+ * mapping apps (Gaia GPS, CalTopo, Google Earth) and GPS units (Garmin)
+ */
+
+import type { AccessDifficulty, SpringSummary, SpringType } from '@/types/spring';
+
+const BASE_URL = 'https://soakmap.com';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type ExportFormat = 'geojson' | 'gpx' | 'kml';
+
+export interface ExportCollection {
+  /** Shown as the collection name in the receiving app, e.g. "Hot Springs in Idaho" */
+  title: string;
+  springs: SpringSummary[];
+}
+
+// =============================================================================
+// Labels
+// =============================================================================
+
+const TYPE_LABELS: Record<SpringType, string> = {
+  hot: 'Hot spring',
+  warm: 'Warm spring',
+  cold: 'Swimming hole',
+};
+
+const ACCESS_LABELS: Record<AccessDifficulty, string> = {
+  drive_up: 'Drive up',
+  short_walk: 'Short walk',
+  moderate_hike: 'Moderate hike',
+  difficult_hike: 'Difficult hike',
+};
+
+// KML colors are aabbggrr; these match the site's map markers
+const KML_COLORS: Record<SpringType, string> = {
+  hot: 'ff3b5dc6',
+  warm: 'ff6b9e8b',
+  cold: 'ff8c7c4a',
+};
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  geojson: 'application/geo+json',
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function springUrl(spring: SpringSummary): string {
+  return `${BASE_URL}/springs/${spring.slug}`;
+}
+
+/**
+ * One-line summary for a waypoint, e.g. "Hot spring · 104°F · Short walk"
+ */
+function describe(spring: SpringSummary): string {
+  return [
+    TYPE_LABELS[spring.spring_type],
+    spring.temp_f !== null ? `${Math.round(spring.temp_f)}°F` : null,
+    spring.access_difficulty ? ACCESS_LABELS[spring.access_difficulty] : null,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// =============================================================================
+// Serializers
+// =============================================================================
+
+export function toGeoJson({ title, springs }: ExportCollection): string {
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    name: title,
+    features: springs.map((spring) => ({
+      type: 'Feature',
+      id: spring.id,
+      geometry: { type: 'Point', coordinates: [spring.lng, spring.lat] },
+      properties: {
+        name: spring.name,
+        description: describe(spring),
+        state: spring.state,
+        spring_type: spring.spring_type,
+        experience_type: spring.experience_type,
+        temp_f: spring.temp_f,
+        access_difficulty: spring.access_difficulty,
+        fee_type: spring.fee_type,
+        url: springUrl(spring),
+      },
+    })),
+  });
+}
+
+export function toGpx({ title, springs }: ExportCollection): string {
+  const waypoints = springs.map(
+    (spring) => `  <wpt lat="${spring.lat}" lon="${spring.lng}">
+    <name>${escapeXml(spring.name)}</name>
+    <desc>${escapeXml(describe(spring))}</desc>
+    <link href="${escapeXml(springUrl(spring))}"><text>View on SoakMap</text></link>
+    <type>${escapeXml(TYPE_LABELS[spring.spring_type])}</type>
+  </wpt>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="SoakMap" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>${escapeXml(title)}</name>
+    <link href="${BASE_URL}"><text>SoakMap</text></link>
+    <time>${new Date().toISOString()}</time>
+  </metadata>
+${waypoints.join('\n')}
+</gpx>
+`;
+}
+
+export function toKml({ title, springs }: ExportCollection): string {
+  const styles = Object.entries(KML_COLORS).map(
+    ([type, color]) => `    <Style id="${type}">
+      <IconStyle><color>${color}</color></IconStyle>
+    </Style>`
+  );
+
+  const placemarks = springs.map(
+    (spring) => `    <Placemark>
+      <name>${escapeXml(spring.name)}</name>
+      <description>${escapeXml(`${describe(spring)}\n${springUrl(spring)}`)}</description>
+      <styleUrl>#${spring.spring_type}</styleUrl>
+      <ExtendedData>
+        <Data name="spring_type"><value>${spring.spring_type}</value></Data>
+        <Data name="temp_f"><value>${spring.temp_f ?? ''}</value></Data>
+        <Data name="access_difficulty"><value>${spring.access_difficulty ?? ''}</value></Data>
+        <Data name="url"><value>${escapeXml(springUrl(spring))}</value></Data>
+      </ExtendedData>
+      <Point><coordinates>${spring.lng},${spring.lat}</coordinates></Point>
+    </Placemark>`
+  );
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(title)}</name>
+${styles.join('\n')}
+${placemarks.join('\n')}
+  </Document>
+</kml>
+`;
+}
+
+export const EXPORT_SERIALIZERS: Record<ExportFormat, (collection: ExportCollection) => string> = {
+  geojson: toGeoJson,
+  gpx: toGpx,
+  kml: toKml,
+};
@@ -0,0 +1,118 @@
+/**
+ * Shared handler for the /api/export.{geojson,gpx,kml} downloads
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/data';
+import { getTagContent } from '@/lib/data/tag-content';
+import { exportParamsSchema, type ExportParamsSchema } from '@/lib/schemas';
+import { TAG_FILTERS } from '@/lib/utils/spring-filters';
+import { getStateName } from '@/lib/utils/states';
+import type { Result } from '@/lib/data/source';
+import type { SpringFilters, SpringSummary, SpringType } from '@/types/spring';
+import { EXPORT_CONTENT_TYPES, EXPORT_SERIALIZERS, type ExportFormat } from './formats';
+
+export * from './formats';
+
+// Every spring fits in one export
+const MAX_EXPORT_SPRINGS = 5000;
+
+const TYPE_TITLES: Record<SpringType, string> = {
+  hot: 'Hot Springs',
+  warm: 'Warm Springs',
+  cold: 'Swimming Holes',
+};
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function collectionTitle(params: ExportParamsSchema): string {
+  if (params.ids) return 'SoakMap Springs';
+
+  const tagTitle = params.tag ? getTagContent(params.tag)?.h1 : undefined;
+  let title = tagTitle ?? (params.type ? TYPE_TITLES[params.type] : 'Natural Springs');
+  if (params.experience) title += ` (${params.experience})`;
+  if (params.state) title += ` in ${getStateName(params.state)}`;
+  return title;
+}
+
+/**
+ * e.g. "soakmap-id-hot-free.gpx"
+ */
+function fileName(params: ExportParamsSchema, format: ExportFormat): string {
+  const parts = params.ids
+    ? ['trip']
+    : [params.state?.toLowerCase(), params.type, params.experience, params.tag].filter(Boolean);
+  return `soakmap-${parts.length > 0 ? parts.join('-') : 'springs'}.${format}`;
+}
+
+async function fetchSprings(params: ExportParamsSchema): Promise<Result<SpringSummary[]>> {
+  if (params.ids) {
+    return db.getSpringsByIds(params.ids);
+  }
+
+  const filters: SpringFilters = {
+    state: params.state,
+    spring_type: params.type,
+    experience_type: params.experience,
+    ...(params.tag && TAG_FILTERS[params.tag]),
+    limit: MAX_EXPORT_SPRINGS,
+  };
+
+  const result = await db.getSprings(filters);
+  return result.ok ? { ok: true, data: result.data.springs } : result;
+}
+
+// =============================================================================
+// Handler
+// =============================================================================
+
+/**
+ * Query params:
+ * - state, type, experience, tag (optional): The filters of the /[state],
+ *   /type/[type] and /tag/[tag] pages
+ * - ids (optional): Comma-separated spring IDs (max 500), instead of filters
+ *
+ * With no params, every spring is exported.
+ */
+export async function exportSprings(request: NextRequest, format: ExportFormat): Promise<NextResponse> {
+  const parsed = exportParamsSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return NextResponse.json(
+      { error: `Invalid ${issue.path.join('.')} parameter: ${issue.message}` },
+      { status: 400 }
+    );
+  }
+
+  const params = parsed.data;
+
+  if (params.ids && (params.state || params.type || params.experience || params.tag)) {
+    return NextResponse.json({ error: 'ids cannot be combined with filters' }, { status: 400 });
+  }
+  if (params.tag && params.experience && TAG_FILTERS[params.tag].experience_type) {
+    return NextResponse.json(
+      { error: `tag ${params.tag} already sets experience; pass one or the other` },
+      { status: 400 }
+    );
+  }
+
+  const result = await fetchSprings(params);
+
+  if (!result.ok) {
+    console.error(`API /export.${format} error:`, result.error);
+    return NextResponse.json({ error: 'Failed to export springs' }, { status: 500 });
+  }
+
+  const body = EXPORT_SERIALIZERS[format]({ title: collectionTitle(params), springs: result.data });
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': `${EXPORT_CONTENT_TYPES[format]}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="${fileName(params, format)}"`,
+      'Cache-Control': 'public, max-age=3600, s-maxage=3600',
+    },
+  });
+}
@@ -0,0 +1,208 @@
+/**
+ * Basemap registry: the styles SpringMap and SingleSpringMap draw springs on.
+ *
+ * - osm: raster tiles from NEXT_PUBLIC_MAP_TILE_URL, a tile provider or our own
+ *   tile cache. Production builds fail without it (see next.config.ts);
+ *   development falls back to OpenStreetMap's own servers, whose usage policy
+ *   doesn't cover a production site.
+ * - vector: the Protomaps basemap read from a PMTiles archive at
+ *   NEXT_PUBLIC_MAP_PMTILES_URL (our storage, or a file under public/tiles in
+ *   development). Only offered when that is set.
+ * - topo: the raster tiles with hillshading from AWS Terrain Tiles
+ *
+ * "Save for offline" stores raster tiles only when NEXT_PUBLIC_MAP_TILES_OFFLINE
+ * says the configured tile URL allows it (our own tiles, or a provider whose
+ * terms permit storing them). OpenStreetMap's servers forbid bulk downloads, and
+ * the hillshade's terrain tiles are never saved, so without the opt-in maps
+ * degrade offline as the vector basemap does.
+ *
+ * NEXT_PUBLIC_MAP_STYLE picks the style maps open with. Shared by the map
+ * components and "Save for offline", so nothing here touches the server
+ * environment.
+ */
+
+import type { LayerSpecification, StyleSpecification } from 'maplibre-gl';
+import { layers, namedFlavor } from '@protomaps/basemaps';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type MapStyleId = 'osm' | 'vector' | 'topo';
+
+export interface MapStyleDefinition {
+  id: MapStyleId;
+  /** Basemap switcher label */
+  label: string;
+  build(): StyleSpecification;
+  /** {z}/{x}/{y} tile URLs a save can store; empty when the tiles can't be saved one by one */
+  offlineTiles: string[];
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+// Development only; next.config.ts stops production builds from using it
+const DEV_RASTER_TILE_URL = 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+const RASTER_TILE_URL = process.env.NEXT_PUBLIC_MAP_TILE_URL || DEV_RASTER_TILE_URL;
+// Only an explicitly configured tile URL can be opted in
+const RASTER_TILES_SAVEABLE =
+  Boolean(process.env.NEXT_PUBLIC_MAP_TILE_URL) && process.env.NEXT_PUBLIC_MAP_TILES_OFFLINE === 'true';
+const RASTER_ATTRIBUTION =
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>';
+
+const PMTILES_URL = process.env.NEXT_PUBLIC_MAP_PMTILES_URL || null;
+
+// Fonts and sprites for the Protomaps style; mirror them to self-host
+const PROTOMAPS_ASSETS_URL = process.env.NEXT_PUBLIC_MAP_ASSETS_URL || 'https://protomaps.github.io/basemaps-assets';
+
+// Terrarium-encoded elevation, public on AWS Open Data
+const TERRAIN_TILE_URL = 'https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png';
+const TERRAIN_ATTRIBUTION = '<a href="https://registry.opendata.aws/terrain-tiles/">Terrain Tiles</a>';
+
+// Basemap sources are prefixed so a style switch can tell them apart from the
+// app's own sources (e.g. spring clusters)
+const BASEMAP_SOURCE_PREFIX = 'basemap-';
+
+// =============================================================================
+// Styles
+// =============================================================================
+
+function rasterSource(): StyleSpecification['sources'][string] {
+  return {
+    type: 'raster',
+    tiles: [RASTER_TILE_URL],
+    tileSize: 256,
+    maxzoom: 19,
+    attribution: RASTER_ATTRIBUTION,
+  };
+}
+
+const rasterLayer: LayerSpecification = {
+  id: 'basemap-raster',
+  type: 'raster',
+  source: 'basemap-raster',
+};
+
+/**
+ * pmtiles:// URL for the archive. Relative paths (a local file in development)
+ * are resolved against the page, since the protocol fetches them as given.
+ */
+function pmtilesSourceUrl(): string {
+  const url = typeof location === 'undefined' ? PMTILES_URL! : new URL(PMTILES_URL!, location.href).href;
+  return `pmtiles://${url}`;
+}
+
+export const MAP_STYLES: Record<MapStyleId, MapStyleDefinition> = {
+  osm: {
+    id: 'osm',
+    label: 'Streets',
+    build: () => ({
+      version: 8,
+      sources: { 'basemap-raster': rasterSource() },
+      layers: [rasterLayer],
+    }),
+    offlineTiles: RASTER_TILES_SAVEABLE ? [RASTER_TILE_URL] : [],
+  },
+  vector: {
+    id: 'vector',
+    label: 'Vector',
+    build: () => ({
+      version: 8,
+      glyphs: `${PROTOMAPS_ASSETS_URL}/fonts/{fontstack}/{range}.pbf`,
+      sprite: `${PROTOMAPS_ASSETS_URL}/sprites/v4/light`,
+      sources: {
+        'basemap-vector': {
+          type: 'vector',
+          url: pmtilesSourceUrl(),
+          attribution:
+            '<a href="https://protomaps.com">Protomaps</a> &copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>',
+        },
+      },
+      layers: layers('basemap-vector', namedFlavor('light'), { lang: 'en' }),
+    }),
+    // Read with range requests into one archive, which the service worker can't store per tile
+    offlineTiles: [],
+  },
+  topo: {
+    id: 'topo',
+    label: 'Terrain',
+    build: () => ({
+      version: 8,
+      sources: {
+        'basemap-raster': rasterSource(),
+        'basemap-terrain': {
+          type: 'raster-dem',
+          tiles: [TERRAIN_TILE_URL],
+          encoding: 'terrarium',
+          tileSize: 256,
+          maxzoom: 15,
+          attribution: TERRAIN_ATTRIBUTION,
+        },
+      },
+      layers: [
+        rasterLayer,
+        {
+          id: 'basemap-hillshade',
+          type: 'hillshade',
+          source: 'basemap-terrain',
+          paint: {
+            'hillshade-exaggeration': 0.5,
+            'hillshade-shadow-color': '#1A2B22',
+          },
+        },
+      ],
+    }),
+    // Hillshading is left out of saves; the saved raster tiles still show
+    offlineTiles: RASTER_TILES_SAVEABLE ? [RASTER_TILE_URL] : [],
+  },
+};
+
+/** Styles this deployment offers, in switcher order */
+export const AVAILABLE_MAP_STYLES: MapStyleDefinition[] = [
+  MAP_STYLES.osm,
+  ...(PMTILES_URL ? [MAP_STYLES.vector] : []),
+  MAP_STYLES.topo,
+];
+
+export function isAvailableMapStyle(id: string): id is MapStyleId {
+  return AVAILABLE_MAP_STYLES.some((style) => style.id === id);
+}
+
+// An unknown or unavailable NEXT_PUBLIC_MAP_STYLE falls back to raster tiles
+const configuredStyle = process.env.NEXT_PUBLIC_MAP_STYLE ?? '';
+export const DEFAULT_MAP_STYLE: MapStyleId = isAvailableMapStyle(configuredStyle) ? configuredStyle : 'osm';
+
+/** Distinct tile URL templates a save stores, so any saved-capable basemap works offline */
+export const OFFLINE_TILE_TEMPLATES: string[] = [
+  ...new Set(AVAILABLE_MAP_STYLES.flatMap((style) => style.offlineTiles)),
+];
+
+// =============================================================================
+// Switching
+// =============================================================================
+
+/**
+ * transformStyle for map.setStyle(): keeps the app's sources and layers (spring
+ * clusters) on top of the new basemap
+ */
+export function withOverlays(
+  previous: StyleSpecification | undefined,
+  next: StyleSpecification
+): StyleSpecification {
+  if (!previous) return next;
+
+  const isOverlaySource = (id: unknown) => typeof id === 'string' && !id.startsWith(BASEMAP_SOURCE_PREFIX);
+
+  return {
+    ...next,
+    sources: {
+      ...next.sources,
+      ...Object.fromEntries(Object.entries(previous.sources).filter(([id]) => isOverlaySource(id))),
+    },
+    layers: [...next.layers, ...previous.layers.filter((layer) => 'source' in layer && isOverlaySource(layer.source))],
+  };
+}
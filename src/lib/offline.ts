@@ -0,0 +1,105 @@
+/**
+ * "Save for offline": what gets stored for a spring, state or trip page, and
+ * where. The service worker (public/sw.js) serves these from the Cache API
+ * when there's no signal.
+ *
+ * Shared by /api/offline (builds the bundle) and the save button (stores it),
+ * so nothing here touches the server environment.
+ */
+
+import { OFFLINE_TILE_TEMPLATES } from '@/lib/map-styles';
+import type { Spring, SpringSummary } from '@/types/spring';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Full spring data when a single spring is saved, summaries for lists */
+export type OfflineSpring = SpringSummary & Partial<Spring>;
+
+export interface OfflineBundle {
+  title: string;
+  springs: OfflineSpring[];
+  /** Same-origin page URLs to store besides the page being saved */
+  pages: string[];
+  photos: string[];
+  tiles: string[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Must match SAVED_CACHE in public/sw.js
+export const OFFLINE_CACHE = 'soakmap-saved-v1';
+
+// Around each spring, for every basemap that can be saved (see
+// OFFLINE_TILE_TEMPLATES): the tile containing it at overview zooms, and a 3x3
+// block at trail zooms (29 tiles, roughly 3 miles across at z14)
+const OVERVIEW_ZOOMS = [10, 11];
+const DETAIL_ZOOMS = [12, 13, 14];
+
+// Bounds a state or trip save to a few MB of tiles, and keeps us a polite
+// user of the tile servers
+export const MAX_OFFLINE_TILES = 600;
+
+// Spring pages stored alongside a state or trip page
+export const MAX_OFFLINE_PAGES = 25;
+
+// =============================================================================
+// Tiles
+// =============================================================================
+
+function tileXY(lat: number, lng: number, z: number): { x: number; y: number } {
+  const n = 2 ** z;
+  const latRad = (Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI) / 180;
+  return {
+    x: Math.min(n - 1, Math.floor(((lng + 180) / 360) * n)),
+    y: Math.min(n - 1, Math.floor(((1 - Math.asinh(Math.tan(latRad)) / Math.PI) / 2) * n)),
+  };
+}
+
+function tileUrls(z: number, x: number, y: number): string[] {
+  return OFFLINE_TILE_TEMPLATES.map((template) =>
+    template.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y))
+  );
+}
+
+/**
+ * Tile URLs around a point, overview zooms first
+ */
+export function tileUrlsAround(lat: number, lng: number): string[] {
+  const urls = OVERVIEW_ZOOMS.flatMap((z) => {
+    const { x, y } = tileXY(lat, lng, z);
+    return tileUrls(z, x, y);
+  });
+
+  for (const z of DETAIL_ZOOMS) {
+    const { x, y } = tileXY(lat, lng, z);
+    const n = 2 ** z;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const ty = y + dy;
+        if (ty < 0 || ty >= n) continue;
+        urls.push(...tileUrls(z, (x + dx + n) % n, ty));
+      }
+    }
+  }
+
+  return urls;
+}
+
+/**
+ * Tiles around every spring, deduplicated and capped at MAX_OFFLINE_TILES.
+ * Springs earlier in the list get their full set first.
+ */
+export function tileUrlsForSprings(springs: { lat: number; lng: number }[]): string[] {
+  const urls = new Set<string>();
+  for (const spring of springs) {
+    for (const url of tileUrlsAround(spring.lat, spring.lng)) {
+      if (urls.size >= MAX_OFFLINE_TILES) return [...urls];
+      urls.add(url);
+    }
+  }
+  return [...urls];
+}
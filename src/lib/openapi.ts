@@ -0,0 +1,450 @@
+/**
+ * OpenAPI 3 document for the public JSON API, generated from the zod schemas
+ * in src/lib/schemas. Served at /api/openapi.json and rendered at /developers.
+ *
+ * To document a new route, add an entry to API_OPERATIONS using the same
+ * schemas the route validates with.
+ */
+
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { z, ZodOptional, type AnyZodObject, type ZodTypeAny } from 'zod';
+import {
+  alongRouteParamsSchema,
+  alongRouteResponseSchema,
+  apiErrorSchema,
+  autocompleteParamsSchema,
+  autocompleteResponseSchema,
+  bboxQueryParamsSchema,
+  bboxResponseSchema,
+  exportGeoJsonResponseSchema,
+  exportParamsSchema,
+  nearbyParamsSchema,
+  nearbyResponseSchema,
+  searchAreaSchema,
+  springDetailResponseSchema,
+  springSlugParamsSchema,
+  springsParamsSchema,
+  springsResponseSchema,
+  withinParamsSchema,
+  withinResponseSchema,
+} from '@/lib/schemas';
+import { EXPORT_CONTENT_TYPES } from '@/lib/export/formats';
+
+const BASE_URL = 'https://soakmap.com';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'query' | 'path';
+  required: boolean;
+  description?: string;
+  // Lists are comma-separated (?fee=free,donation)
+  style?: 'form';
+  explode?: boolean;
+  schema: JsonSchema;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  headers?: Record<string, { description: string; schema: JsonSchema }>;
+  content: Record<string, { schema: JsonSchema }>;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description: string;
+  tags: string[];
+  parameters: OpenApiParameter[];
+  requestBody?: {
+    description: string;
+    required: true;
+    content: { 'application/json': { schema: JsonSchema } };
+  };
+  responses: Record<string, OpenApiResponse>;
+}
+
+export type HttpMethod = 'get' | 'post';
+
+export interface OpenApiSecurityScheme {
+  type: 'apiKey';
+  in: 'header' | 'query';
+  name: string;
+  description: string;
+}
+
+export interface OpenApiDocument {
+  openapi: '3.0.3';
+  info: { title: string; version: string; description: string };
+  servers: { url: string }[];
+  security: Record<string, string[]>[];
+  paths: Record<string, Partial<Record<HttpMethod, OpenApiOperation>>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, OpenApiSecurityScheme>;
+  };
+}
+
+interface ApiOperation {
+  path: string;
+  method?: HttpMethod; // Default 'get'
+  operationId: string;
+  summary: string;
+  description: string;
+  tag: string;
+  // Params named in `path` as {name}
+  pathParams?: AnyZodObject;
+  query: AnyZodObject;
+  body?: { name: string; description: string; schema: ZodTypeAny };
+  // mediaType defaults to application/json
+  response: { name: string; schema: ZodTypeAny; mediaType?: string };
+  errors: Record<number, string>;
+}
+
+// =============================================================================
+// Authentication & Quotas (enforced in src/middleware.ts)
+// =============================================================================
+
+const SECURITY_SCHEMES: Record<string, OpenApiSecurityScheme> = {
+  ApiKeyHeader: {
+    type: 'apiKey',
+    in: 'header',
+    name: 'X-API-Key',
+    description: 'Partner API key. Requests without a key share a low per-IP quota.',
+  },
+  ApiKeyQuery: {
+    type: 'apiKey',
+    in: 'query',
+    name: 'api_key',
+    description: 'The same key as a query parameter, for clients that cannot set headers.',
+  },
+};
+
+const RATE_LIMIT_HEADERS: OpenApiResponse['headers'] = {
+  'X-RateLimit-Limit': {
+    description: 'Requests allowed in the window closest to running out (per minute or per day)',
+    schema: { type: 'integer' },
+  },
+  'X-RateLimit-Remaining': {
+    description: 'Requests left in that window',
+    schema: { type: 'integer' },
+  },
+  'X-RateLimit-Reset': {
+    description: 'Unix time (seconds) when that window resets',
+    schema: { type: 'integer' },
+  },
+};
+
+// Errors any /api route can return from the quota middleware
+const QUOTA_ERRORS: Record<number, string> = {
+  401: 'Unknown or revoked API key',
+  429: 'Quota exceeded; retry after the Retry-After header (seconds)',
+};
+
+// =============================================================================
+// Operations
+// =============================================================================
+
+const EXPORT_ERRORS = {
+  400: 'An invalid filter value, ids combined with filters, or a tag and experience that conflict',
+  500: 'Database error',
+};
+
+const API_OPERATIONS: ApiOperation[] = [
+  {
+    path: '/api/nearby',
+    operationId: 'getNearbySprings',
+    summary: 'Find springs near a location',
+    description:
+      'Springs within a radius of a point, nearest first. Optional filters are applied before the limit.',
+    tag: 'Springs',
+    query: nearbyParamsSchema,
+    response: { name: 'NearbyResponse', schema: nearbyResponseSchema },
+    errors: {
+      400: 'Missing or invalid coordinates, or an unknown filter value',
+      500: 'Database error',
+    },
+  },
+  {
+    path: '/api/along-route',
+    operationId: 'getSpringsAlongRoute',
+    summary: 'Find springs along a route',
+    description:
+      'Springs within a corridor around a route, in order along it, with the straight-line detour to each. ' +
+      'Pass the route as an encoded polyline or as waypoints.',
+    tag: 'Springs',
+    query: alongRouteParamsSchema,
+    response: { name: 'AlongRouteResponse', schema: alongRouteResponseSchema },
+    errors: {
+      400: 'Missing or malformed route, too many route points, or an unknown filter value',
+      500: 'Database error',
+    },
+  },
+  {
+    path: '/api/springs/within',
+    operationId: 'getSpringsWithin',
+    summary: 'Find springs inside an area',
+    description:
+      'Springs inside a polygon or circle, those with photos first. Pass the area as a /map shape or as GeoJSON; ' +
+      'boundaries too long for a URL can be POSTed as a GeoJSON body with the filters in the query string.',
+    tag: 'Springs',
+    query: withinParamsSchema,
+    response: { name: 'WithinResponse', schema: withinResponseSchema },
+    errors: {
+      400: 'Missing or malformed area, too many points, or an unknown filter value',
+      500: 'Database error',
+    },
+  },
+  {
+    path: '/api/springs/within',
+    method: 'post',
+    operationId: 'postSpringsWithin',
+    summary: 'Find springs inside a GeoJSON area',
+    description:
+      'The same search as GET /api/springs/within with the area as the request body, for boundaries too long ' +
+      'for a URL (up to 500,000 characters). Filters stay in the query string.',
+    tag: 'Springs',
+    query: withinParamsSchema.omit({ shape: true, geojson: true }),
+    body: {
+      name: 'SearchArea',
+      description:
+        'A Polygon or MultiPolygon (or a Feature of one) with closed rings of [lng, lat] positions, or a circle ' +
+        'as a Point Feature with a radius_miles property',
+      schema: searchAreaSchema,
+    },
+    response: { name: 'WithinResponse', schema: withinResponseSchema },
+    errors: {
+      400: 'Malformed or oversized body, too many points, or an unknown filter value',
+      500: 'Database error',
+    },
+  },
+  {
+    path: '/api/springs',
+    operationId: 'listSprings',
+    summary: 'List springs',
+    description:
+      'Springs matching every filter, a page at a time in name order; follow next_cursor / prev_cursor (or the ' +
+      'next / prev links) for other pages. With q, returns the top results by relevance instead, each with a ' +
+      'rank and snippet; q combines only with state, type and experience, and is not paged. Springs with an ' +
+      'unknown value never match a range, list or true filter; false keeps them.',
+    tag: 'Springs',
+    query: springsParamsSchema,
+    response: { name: 'SpringsResponse', schema: springsResponseSchema },
+    errors: {
+      400: 'An invalid filter value or cursor, or q combined with a cursor or attribute filters',
+      500: 'Database error',
+    },
+  },
+  {
+    path: '/api/springs/{slug}',
+    operationId: 'getSpring',
+    summary: 'Get a spring',
+    description:
+      'The full record for one spring, with nearby springs and its state. Errors use the shape ' +
+      '{ ok: false, error }.',
+    tag: 'Springs',
+    pathParams: springSlugParamsSchema,
+    query: z.object({}),
+    response: { name: 'SpringDetailResponse', schema: springDetailResponseSchema },
+    errors: {
+      404: 'No spring has this slug',
+      500: 'Database error',
+    },
+  },
+  {
+    path: '/api/springs/bbox',
+    operationId: 'getSpringsInBbox',
+    summary: 'Map markers in a viewport',
+    description:
+      'Lightweight markers for springs inside a bounding box, springs with photos first. The number of markers ' +
+      'is capped by zoom level (300 at zoom 4 and below, 1,000 to zoom 7, then 3,000); truncated says the cap ' +
+      'was hit.',
+    tag: 'Springs',
+    query: bboxQueryParamsSchema,
+    response: { name: 'BboxResponse', schema: bboxResponseSchema },
+    errors: {
+      400: 'Missing or malformed bbox, or an unknown filter value',
+      500: 'Database error',
+    },
+  },
+  {
+    path: '/api/autocomplete',
+    operationId: 'autocomplete',
+    summary: 'Typeahead suggestions',
+    description:
+      'States, cities and springs whose names match a partial query, for search boxes. If the spring lookup ' +
+      'fails, place suggestions are still returned.',
+    tag: 'Search',
+    query: autocompleteParamsSchema,
+    response: { name: 'AutocompleteResponse', schema: autocompleteResponseSchema },
+    errors: {
+      400: 'q shorter than 2 or longer than 100 characters',
+    },
+  },
+  {
+    path: '/api/export.geojson',
+    operationId: 'exportGeoJson',
+    summary: 'Download springs as GeoJSON',
+    description:
+      'Springs matching the filters of a state, type or tag page, or a list of IDs, as a GeoJSON ' +
+      'FeatureCollection of points. With no params, every spring. Sent as an attachment.',
+    tag: 'Export',
+    query: exportParamsSchema,
+    response: {
+      name: 'ExportGeoJson',
+      schema: exportGeoJsonResponseSchema,
+      mediaType: EXPORT_CONTENT_TYPES.geojson,
+    },
+    errors: EXPORT_ERRORS,
+  },
+  {
+    path: '/api/export.gpx',
+    operationId: 'exportGpx',
+    summary: 'Download springs as GPX',
+    description:
+      'The same springs as /api/export.geojson as GPX 1.1 waypoints, for GPS units and apps such as Gaia ' +
+      'GPS and CalTopo. Sent as an attachment.',
+    tag: 'Export',
+    query: exportParamsSchema,
+    response: {
+      name: 'ExportGpx',
+      schema: z.string().describe('GPX 1.1 document with one wpt per spring'),
+      mediaType: EXPORT_CONTENT_TYPES.gpx,
+    },
+    errors: EXPORT_ERRORS,
+  },
+  {
+    path: '/api/export.kml',
+    operationId: 'exportKml',
+    summary: 'Download springs as KML',
+    description:
+      'The same springs as /api/export.geojson as KML 2.2 placemarks, colored by spring type, for Google ' +
+      'Earth and My Maps. Sent as an attachment.',
+    tag: 'Export',
+    query: exportParamsSchema,
+    response: {
+      name: 'ExportKml',
+      schema: z.string().describe('KML 2.2 document with one Placemark per spring'),
+      mediaType: EXPORT_CONTENT_TYPES.kml,
+    },
+    errors: EXPORT_ERRORS,
+  },
+];
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+/**
+ * Convert a zod schema to an inline OpenAPI 3.0 schema object. Objects stay open
+ * (no additionalProperties: false) so adding a response field isn't breaking.
+ */
+function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const jsonSchema = zodToJsonSchema(schema, {
+    target: 'openApi3',
+    $refStrategy: 'none',
+    // 'strict' maps zod's default (strip) objects to allowedAdditionalProperties
+    removeAdditionalStrategy: 'strict',
+    allowedAdditionalProperties: undefined,
+  }) as JsonSchema;
+  delete jsonSchema.$schema;
+  return jsonSchema;
+}
+
+/**
+ * One parameter per field. Optionality and the description belong to the
+ * parameter, so neither is repeated in its schema.
+ */
+function toParameters(params: AnyZodObject, location: OpenApiParameter['in']): OpenApiParameter[] {
+  return Object.entries(params.shape as Record<string, ZodTypeAny>).map(([name, field]) => {
+    const schema = toJsonSchema(field instanceof ZodOptional ? field.unwrap() : field);
+    delete schema.description;
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !field.isOptional(),
+      ...(field.description && { description: field.description }),
+      ...(schema.type === 'array' && { style: 'form' as const, explode: false }),
+      schema,
+    };
+  });
+}
+
+function jsonContent(schema: JsonSchema) {
+  return { 'application/json': { schema } };
+}
+
+export function buildOpenApiDocument(): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {};
+  const schemas: Record<string, JsonSchema> = { ApiError: toJsonSchema(apiErrorSchema) };
+
+  for (const op of API_OPERATIONS) {
+    schemas[op.response.name] = toJsonSchema(op.response.schema);
+    if (op.body) schemas[op.body.name] = toJsonSchema(op.body.schema);
+
+    const errorResponses = Object.fromEntries(
+      Object.entries({ ...op.errors, ...QUOTA_ERRORS })
+        .sort(([a], [b]) => Number(a) - Number(b))
+        .map(([status, description]) => [
+          status,
+          {
+            description,
+            headers: RATE_LIMIT_HEADERS,
+            content: jsonContent({ $ref: '#/components/schemas/ApiError' }),
+          },
+        ])
+    );
+
+    paths[op.path] = {
+      ...paths[op.path],
+      [op.method ?? 'get']: {
+        operationId: op.operationId,
+        summary: op.summary,
+        description: op.description,
+        tags: [op.tag],
+        parameters: [
+          ...(op.pathParams ? toParameters(op.pathParams, 'path') : []),
+          ...toParameters(op.query, 'query'),
+        ],
+        ...(op.body && {
+          requestBody: {
+            description: op.body.description,
+            required: true as const,
+            content: jsonContent({ $ref: `#/components/schemas/${op.body.name}` }),
+          },
+        }),
+        responses: {
+          200: {
+            description: 'Success',
+            headers: RATE_LIMIT_HEADERS,
+            content: {
+              [op.response.mediaType ?? 'application/json']: {
+                schema: { $ref: `#/components/schemas/${op.response.name}` },
+              },
+            },
+          },
+          ...errorResponses,
+        },
+      },
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'SoakMap API',
+      version: '1.0.0',
+      description: 'Public JSON API for hot springs and swimming holes across the United States.',
+    },
+    servers: [{ url: BASE_URL }],
+    // The empty requirement makes the key optional (anonymous quota)
+    security: [{}, { ApiKeyHeader: [] }, { ApiKeyQuery: [] }],
+    paths,
+    components: { schemas, securitySchemes: SECURITY_SCHEMES },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Rate-limit policies for src/middleware.ts.
+ *
+ * A policy is one or more sliding windows; a request is allowed only while
+ * every window has room. API keys bring their own policy (see apiKeyPolicy).
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RateLimitWindow {
+  /** Requests allowed per window */
+  limit: number;
+  windowMs: number;
+}
+
+export type RateLimitPolicy = RateLimitWindow[];
+
+// =============================================================================
+// Policies
+// =============================================================================
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const RATE_LIMIT_CONFIG = {
+  // Page routes, by traffic type
+  pages: {
+    goodBot: [{ limit: 120, windowMs: MINUTE_MS }], // search engines (2/sec)
+    unverifiableBot: [{ limit: 60, windowMs: MINUTE_MS }], // crawlers without rDNS, per IP
+    aggressiveBot: [{ limit: 10, windowMs: MINUTE_MS }], // SEO tool bots
+    browser: [{ limit: 60, windowMs: MINUTE_MS }], // generous for humans
+    unknown: [{ limit: 30, windowMs: MINUTE_MS }], // unknown bots/agents
+  },
+
+  // /api/* without a key, per IP
+  api: {
+    anonymous: [
+      { limit: 20, windowMs: MINUTE_MS },
+      { limit: 500, windowMs: DAY_MS },
+    ],
+    // The site's own map, search and typeahead calls, from browsers holding the
+    // first-party session cookie page renders set (see ./first-party). Per IP.
+    firstParty: [
+      { limit: 300, windowMs: MINUTE_MS },
+      { limit: 20000, windowMs: DAY_MS },
+    ],
+  },
+} satisfies {
+  pages: Record<string, RateLimitPolicy>;
+  api: Record<string, RateLimitPolicy>;
+};
+
+/**
+ * The policy for a partner API key, from its api_keys row
+ */
+export function apiKeyPolicy(key: { per_minute_limit: number; per_day_limit: number }): RateLimitPolicy {
+  return [
+    { limit: key.per_minute_limit, windowMs: MINUTE_MS },
+    { limit: key.per_day_limit, windowMs: DAY_MS },
+  ];
+}
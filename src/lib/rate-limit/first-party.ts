@@ -0,0 +1,63 @@
+/**
+ * First-party sessions: what earns the site's own map, search and typeahead
+ * calls the roomier firstParty API quota.
+ *
+ * Page renders set an HttpOnly cookie holding an expiry and an HMAC of it and
+ * the client IP. Only this server can mint one, it can't be read by scripts,
+ * and it's worthless from another IP or once expired, so a scraper has to keep
+ * loading pages (under the page rate limits) to hold on to one.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface FirstPartySessions {
+  /** Cookie value for a page response to the client at `ip` */
+  issue(ip: string, now?: number): string;
+  /** Whether a cookie value was issued to `ip` and hasn't expired */
+  verify(token: string | undefined, ip: string, now?: number): boolean;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const FIRST_PARTY_COOKIE = 'soakmap_fp';
+
+// Every page render refreshes it, so this only has to outlast one visit's idle time
+export const FIRST_PARTY_TTL_MS = 60 * 60 * 1000;
+
+// =============================================================================
+// Sessions
+// =============================================================================
+
+/**
+ * Without a secret, one is generated per process; set FIRST_PARTY_SECRET
+ * wherever more than one instance serves traffic, so they accept each other's
+ * cookies.
+ */
+export function createFirstPartySessions(secret: string = randomBytes(32).toString('hex')): FirstPartySessions {
+  function sign(ip: string, expiresAt: number): Buffer {
+    return createHmac('sha256', secret).update(`${ip}|${expiresAt}`).digest();
+  }
+
+  return {
+    issue(ip, now = Date.now()) {
+      const expiresAt = now + FIRST_PARTY_TTL_MS;
+      return `${expiresAt}.${sign(ip, expiresAt).toString('base64url')}`;
+    },
+
+    verify(token, ip, now = Date.now()) {
+      const [expiry, signature] = token?.split('.') ?? [];
+      const expiresAt = Number(expiry);
+      if (!signature || !Number.isSafeInteger(expiresAt) || expiresAt <= now) return false;
+
+      const expected = sign(ip, expiresAt);
+      const given = Buffer.from(signature, 'base64url');
+      return given.length === expected.length && timingSafeEqual(given, expected);
+    },
+  };
+}
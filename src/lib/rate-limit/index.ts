@@ -0,0 +1,27 @@
+/**
+ * Rate limiting for src/middleware.ts: policies from ./config, sliding-window
+ * checks from ./limiter, counters in Redis when REDIS_URL is set (shared
+ * across instances and deploys) or in process memory otherwise, and the
+ * first-party session cookies from ./first-party.
+ */
+
+import { env } from '@/lib/env';
+import { createMemoryRateLimitStore, type RateLimitStore } from './store';
+import { createRedisRateLimitStore } from './redis';
+import { createFirstPartySessions } from './first-party';
+
+export const rateLimitStore: RateLimitStore = env.redisUrl
+  ? createRedisRateLimitStore(env.redisUrl)
+  : createMemoryRateLimitStore();
+
+export const firstPartySessions = createFirstPartySessions(env.firstPartySecret);
+
+export { RATE_LIMIT_CONFIG, apiKeyPolicy } from './config';
+export type { RateLimitPolicy, RateLimitWindow } from './config';
+export { checkRateLimit, rateLimitHeaders } from './limiter';
+export type { RateLimitResult } from './limiter';
+export { createMemoryRateLimitStore } from './store';
+export type { RateLimitStore } from './store';
+export { createRedisRateLimitStore } from './redis';
+export { FIRST_PARTY_COOKIE, FIRST_PARTY_TTL_MS, createFirstPartySessions } from './first-party';
+export type { FirstPartySessions } from './first-party';
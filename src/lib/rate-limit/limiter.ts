@@ -0,0 +1,134 @@
+/**
+ * Sliding-window rate limiting (the "sliding window counter" approximation).
+ *
+ * Each window keeps a count per fixed bucket. A request's usage is the current
+ * bucket's count plus the previous bucket's count weighted by how much of it
+ * still overlaps the trailing window, which avoids the burst a fixed window
+ * allows at its boundary.
+ */
+
+import type { RateLimitPolicy, RateLimitWindow } from './config';
+import type { RateLimitStore, WindowBuckets } from './store';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RateLimitResult {
+  limited: boolean;
+  /** Limit of the window closest to running out */
+  limit: number;
+  /** Requests left in that window */
+  remaining: number;
+  /** Unix ms when that window has room again (limited) or rolls over (allowed) */
+  resetAt: number;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+interface WindowUsage {
+  window: RateLimitWindow;
+  usage: number;
+  msUntilRoom: number;
+  msUntilRollover: number;
+}
+
+function bucketKey(key: string, window: RateLimitWindow, index: number): string {
+  return `ratelimit:${key}:${window.windowMs}:${index}`;
+}
+
+/**
+ * How long until one more request fits: the previous bucket's weight decays
+ * linearly, and the current bucket only clears at the boundary
+ */
+function msUntilRoom(previous: number, current: number, limit: number, elapsed: number, windowMs: number): number {
+  if (current + 1 <= limit && previous > 0) {
+    const excess = previous * (1 - elapsed / windowMs) + current + 1 - limit;
+    return Math.max(0, Math.ceil((excess / previous) * windowMs));
+  }
+  return windowMs - elapsed;
+}
+
+// =============================================================================
+// Limiter
+// =============================================================================
+
+/**
+ * Count a request against every window of the policy. Nothing is counted when
+ * any window is full; the store checks and counts in one atomic step. Store
+ * failures fail open: an outage of the counter store shouldn't take the site
+ * down with it.
+ */
+export async function checkRateLimit(
+  store: RateLimitStore,
+  key: string,
+  policy: RateLimitPolicy,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const elapsed = policy.map((window) => now % window.windowMs);
+  const buckets: WindowBuckets[] = policy.map((window, i) => {
+    const index = Math.floor(now / window.windowMs);
+    return {
+      previousKey: bucketKey(key, window, index - 1),
+      currentKey: bucketKey(key, window, index),
+      previousWeight: 1 - elapsed[i] / window.windowMs,
+      limit: window.limit,
+      ttlMs: window.windowMs * 2,
+    };
+  });
+
+  let consumed;
+  try {
+    consumed = await store.consume(buckets);
+  } catch (error) {
+    console.error('Rate limit store error:', error);
+    return { limited: false, limit: policy[0].limit, remaining: policy[0].limit, resetAt: now };
+  }
+
+  // Usage as the store saw it, before this request
+  const usages: WindowUsage[] = policy.map((window, i) => {
+    const [previous, current] = consumed.counts[i];
+    return {
+      window,
+      usage: previous * buckets[i].previousWeight + current,
+      msUntilRoom: msUntilRoom(previous, current, window.limit, elapsed[i], window.windowMs),
+      msUntilRollover: window.windowMs - elapsed[i],
+    };
+  });
+
+  const limited = !consumed.counted;
+
+  // Report the window with the least room left, counting this request if allowed
+  const spent = limited ? 0 : 1;
+  const binding = usages.reduce((a, b) =>
+    b.window.limit - b.usage < a.window.limit - a.usage ? b : a
+  );
+
+  return {
+    limited,
+    limit: binding.window.limit,
+    remaining: Math.max(0, Math.floor(binding.window.limit - binding.usage - spent)),
+    resetAt:
+      now +
+      (limited
+        ? Math.max(...usages.filter((u) => u.usage + 1 > u.window.limit).map((u) => u.msUntilRoom))
+        : binding.msUntilRollover),
+  };
+}
+
+/**
+ * X-RateLimit-* headers (plus Retry-After when limited) for a result
+ */
+export function rateLimitHeaders(result: RateLimitResult, now = Date.now()): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000)), // Unix seconds
+  };
+  if (result.limited) {
+    headers['Retry-After'] = String(Math.max(1, Math.ceil((result.resetAt - now) / 1000)));
+  }
+  return headers;
+}
@@ -0,0 +1,74 @@
+/**
+ * Redis-backed rate-limit store, shared by every instance. Any server speaking
+ * the Redis protocol works, including a local `redis-server` for development.
+ */
+
+import Redis from 'ioredis';
+import type { RateLimitStore } from './store';
+
+// A slow Redis must not stall every request; the limiter fails open instead
+const COMMAND_TIMEOUT_MS = 500;
+
+/**
+ * RateLimitStore.consume as one script, so no other client's increment can land
+ * between the read and the write.
+ *
+ * KEYS: previousKey, currentKey per window
+ * ARGV: previousWeight, limit, ttlMs per window
+ * Returns the counts read, then 1 if counted or 0 if not
+ */
+const CONSUME_SCRIPT = `
+local counts = {}
+local counted = 1
+for i = 1, #KEYS, 2 do
+  local arg = (i - 1) / 2 * 3
+  local previous = tonumber(redis.call('GET', KEYS[i]) or '0')
+  local current = tonumber(redis.call('GET', KEYS[i + 1]) or '0')
+  counts[i] = previous
+  counts[i + 1] = current
+  if previous * tonumber(ARGV[arg + 1]) + current + 1 > tonumber(ARGV[arg + 2]) then
+    counted = 0
+  end
+end
+if counted == 1 then
+  for i = 2, #KEYS, 2 do
+    redis.call('INCR', KEYS[i])
+    -- Refreshed on every hit (PEXPIRE NX needs Redis 7); still "at least ttlMs"
+    redis.call('PEXPIRE', KEYS[i], ARGV[(i / 2) * 3])
+  end
+end
+counts[#KEYS + 1] = counted
+return counts
+`;
+
+interface RateLimitRedis extends Redis {
+  // Defined below with defineCommand (EVALSHA, falling back to EVAL)
+  rateLimitConsume(...keysThenArgs: (string | number)[]): Promise<number[]>;
+}
+
+export function createRedisRateLimitStore(url: string): RateLimitStore {
+  const redis = new Redis(url, {
+    commandTimeout: COMMAND_TIMEOUT_MS,
+    maxRetriesPerRequest: 1,
+    lazyConnect: true,
+  }) as RateLimitRedis;
+
+  redis.defineCommand('rateLimitConsume', { lua: CONSUME_SCRIPT });
+
+  redis.on('error', (error) => {
+    console.error('Rate limit Redis error:', error.message);
+  });
+
+  return {
+    async consume(windows) {
+      const keys = windows.flatMap((w) => [w.previousKey, w.currentKey]);
+      const args = windows.flatMap((w) => [w.previousWeight, w.limit, w.ttlMs]);
+      const reply = await redis.rateLimitConsume(keys.length, ...keys, ...args);
+
+      return {
+        counts: windows.map((_, i): [number, number] => [reply[i * 2], reply[i * 2 + 1]]),
+        counted: reply[keys.length] === 1,
+      };
+    },
+  };
+}
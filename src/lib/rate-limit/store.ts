@@ -0,0 +1,92 @@
+/**
+ * Counter storage for the rate limiter.
+ *
+ * Stores hold per-bucket counts and apply the room check limiter.ts describes
+ * in the same step as the increment, so concurrent requests can't all read
+ * the same count and all get through.
+ */
+
+// =============================================================================
+// Store Interface
+// =============================================================================
+
+/** One window's two buckets, and what the request needs to fit in it */
+export interface WindowBuckets {
+  previousKey: string;
+  currentKey: string;
+  /** Share of the previous bucket still inside the trailing window (0-1) */
+  previousWeight: number;
+  limit: number;
+  /** A current bucket must live at least this long after its first hit */
+  ttlMs: number;
+}
+
+export interface ConsumeResult {
+  /** [previous, current] per window, as read before any increment; 0 for missing or expired buckets */
+  counts: [number, number][];
+  /** Whether the request fit and every current bucket was incremented */
+  counted: boolean;
+}
+
+export interface RateLimitStore {
+  /**
+   * As one atomic step: read every window's counts and, only if each has room
+   * (previous * previousWeight + current + 1 <= limit), add one to every
+   * current bucket
+   */
+  consume(windows: WindowBuckets[]): Promise<ConsumeResult>;
+}
+
+// =============================================================================
+// Memory Store
+// =============================================================================
+
+/**
+ * Per-process counters. Resets on deploy and isn't shared between instances,
+ * so use Redis (REDIS_URL) anywhere more than one instance serves traffic.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { count: number; expiresAt: number }>();
+
+  // Lazy cleanup: remove stale entries (no timers, so nothing keeps the process busy)
+  // Only clean up a few entries per call to avoid performance impact
+  function cleanup(now: number) {
+    let cleanupCount = 0;
+    for (const [key, bucket] of buckets.entries()) {
+      if (bucket.expiresAt <= now) {
+        buckets.delete(key);
+        cleanupCount++;
+        if (cleanupCount >= 10) break;
+      }
+    }
+  }
+
+  function count(key: string, now: number): number {
+    const bucket = buckets.get(key);
+    return bucket && bucket.expiresAt > now ? bucket.count : 0;
+  }
+
+  return {
+    // No await between the read and the increment, so this is atomic within the process
+    async consume(windows) {
+      const now = Date.now();
+      cleanup(now);
+
+      const counts = windows.map((w): [number, number] => [count(w.previousKey, now), count(w.currentKey, now)]);
+      const counted = windows.every((w, i) => counts[i][0] * w.previousWeight + counts[i][1] + 1 <= w.limit);
+
+      if (counted) {
+        for (const { currentKey, ttlMs } of windows) {
+          const bucket = buckets.get(currentKey);
+          if (bucket && bucket.expiresAt > now) {
+            bucket.count++;
+          } else {
+            buckets.set(currentKey, { count: 1, expiresAt: now + ttlMs });
+          }
+        }
+      }
+
+      return { counts, counted };
+    },
+  };
+}
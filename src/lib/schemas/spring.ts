@@ -1,4 +1,6 @@
 import { z } from 'zod';
+import { SPRING_FILTER_PARAMS, TAG_FILTERS, type SpringFilterParam } from '@/lib/utils/spring-filters';
+import { MAX_CIRCLE_RADIUS_MILES } from '@/lib/utils/shape';
 
 // =============================================================================
 // Enum Schemas
@@ -106,6 +108,30 @@ export const springSummarySchema = z.object({
   spring_type: springTypeSchema,
   experience_type: experienceTypeSchema,
   photo_url: z.string().url().nullable(),
+  temp_f: z.number().nullable(),
+  access_difficulty: accessDifficultySchema.nullable(),
+  parking: parkingTypeSchema.nullable(),
+  fee_type: feeTypeSchema.nullable(),
+});
+
+export const nearbySpringSchema = springSummarySchema.extend({
+  distance_miles: z.number().describe('Straight-line distance from the search point'),
+});
+
+export const routeSpringSchema = springSummarySchema.extend({
+  route_miles: z.number().describe("Miles from the route's start to the spring's nearest point on it"),
+  detour_miles: z.number().describe('Out and back from that point to the spring, straight-line'),
+});
+
+// Lightweight map marker (from springs_in_bbox)
+export const springMarkerSchema = springSummarySchema.pick({
+  id: true,
+  name: true,
+  slug: true,
+  lat: true,
+  lng: true,
+  spring_type: true,
+  experience_type: true,
 });
 
 export const stateSchema = z.object({
@@ -121,20 +147,406 @@ export const stateSchema = z.object({
 // Filter Schemas (for API validation)
 // =============================================================================
 
-export const springFiltersSchema = z.object({
-  state: z.string().length(2).toUpperCase().optional(),
-  spring_type: springTypeSchema.optional(),
-  experience_type: experienceTypeSchema.optional(),
-  q: z.string().max(200).optional(), // Limit search query length
-  limit: z.coerce.number().min(1).max(100).default(20),
-  offset: z.coerce.number().min(0).max(10000).default(0), // Max offset to prevent abuse
+/**
+ * A list of enum values, given as an array or a comma-separated string
+ */
+function enumListSchema<T extends [string, ...string[]]>(schema: z.ZodEnum<T>) {
+  return z.preprocess(
+    (value) => (typeof value === 'string' ? value.split(',').map((v) => v.trim()).filter(Boolean) : value),
+    z.array(schema).max(schema.options.length)
+  );
+}
+
+/**
+ * A boolean given as true/false or as the query-string forms 'true'/'false'/'1'/'0'
+ */
+const booleanParamSchema = z.preprocess((value) => {
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  return value;
+}, z.boolean());
+
+const temperatureSchema = z.coerce.number().min(0).max(250);
+
+export const springFiltersSchema = z
+  .object({
+    state: z.string().length(2).toUpperCase().optional(),
+    spring_type: springTypeSchema.optional(),
+    experience_type: experienceTypeSchema.optional(),
+    q: z.string().max(200).optional(), // Limit search query length
+    limit: z.coerce.number().min(1).max(100).default(20),
+    cursor: z.string().max(512).optional(), // Opaque keyset cursor from a previous page
+
+    temp_min: temperatureSchema.optional(),
+    temp_max: temperatureSchema.optional(),
+
+    fee_type: enumListSchema(feeTypeSchema).optional(),
+    access_difficulty: enumListSchema(accessDifficultySchema).optional(),
+    parking: enumListSchema(parkingTypeSchema).optional(),
+    cell_service: enumListSchema(cellServiceTypeSchema).optional(),
+    crowd_level: enumListSchema(crowdLevelSchema).optional(),
+    best_season: enumListSchema(bestSeasonSchema).optional(),
+    clothing_optional: enumListSchema(clothingOptionalTypeSchema).optional(),
+
+    kid_friendly: booleanParamSchema.optional(),
+    waterfall: booleanParamSchema.optional(),
+    cliff_jumping: booleanParamSchema.optional(),
+    rope_swing: booleanParamSchema.optional(),
+
+    exclude_warnings: enumListSchema(warningTypeSchema).optional(),
+  })
+  .refine((f) => f.temp_min === undefined || f.temp_max === undefined || f.temp_min <= f.temp_max, {
+    message: 'temp_min must not exceed temp_max',
+    path: ['temp_min'],
+  });
+
+const SPRING_FILTER_PARAM_DESCRIPTIONS: Record<SpringFilterParam, string> = {
+  state: '2-letter state code',
+  type: 'Only springs of this type',
+  experience: 'Only springs with this experience',
+  q: 'Full-text and fuzzy search over name, description and state; results are ranked and not paged',
+  temp_min: 'Minimum temperature in °F, inclusive',
+  temp_max: 'Maximum temperature in °F, inclusive',
+  fee: 'Comma-separated fee types to allow',
+  access: 'Comma-separated access difficulties to allow',
+  parking: 'Comma-separated parking types to allow',
+  cell: 'Comma-separated cell service levels to allow',
+  crowd: 'Comma-separated crowd levels to allow',
+  season: 'Comma-separated best seasons to allow',
+  clothing: 'Comma-separated clothing policies to allow',
+  kid_friendly: 'Only springs that are (true) or are not known to be (false) kid friendly',
+  waterfall: 'Only springs with (true) or without (false) a waterfall',
+  cliff_jumping: 'Only springs with (true) or without (false) cliff jumping',
+  rope_swing: 'Only springs with (true) or without (false) a rope swing',
+  exclude_warnings: 'Comma-separated warning types to exclude',
+};
+
+// Query params for GET /api/springs: the springFiltersSchema fields under their
+// URL names. The route reads them with readSpringFilterParams.
+const springFilterFields = springFiltersSchema.innerType().shape;
+
+export const springsParamsSchema = z.object({
+  ...Object.fromEntries(
+    SPRING_FILTER_PARAMS.map(({ param, key }) => [
+      param,
+      springFilterFields[key].describe(SPRING_FILTER_PARAM_DESCRIPTIONS[param]),
+    ])
+  ),
+  limit: springFilterFields.limit.describe('Page size'),
+  cursor: springFilterFields.cursor.describe("Opaque cursor from a previous response's next_cursor or prev_cursor"),
+});
+
+export const springsResponseSchema = z.object({
+  springs: z
+    .array(
+      springSummarySchema.extend({
+        rank: z.number().optional().describe('Search relevance (with q only)'),
+        snippet: z
+          .string()
+          .nullable()
+          .optional()
+          .describe('Description excerpt with matches wrapped in <mark></mark> (with q only)'),
+      })
+    )
+    .describe('One page of springs ordered by name, or the top search results with q'),
+  count: z.number().int(),
+  total: z.number().int().describe('Springs matching across all pages'),
+  limit: z.number().int(),
+  next_cursor: z.string().nullable(),
+  prev_cursor: z.string().nullable(),
+  next: z.string().nullable().describe('Relative URL of the next page'),
+  prev: z.string().nullable().describe('Relative URL of the previous page'),
+});
+
+// Path params for GET /api/springs/{slug}
+export const springSlugParamsSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9-]{1,199}$/).describe("The spring's URL slug"),
+});
+
+// Successful responses mirror Result<T>; errors are { ok: false, error }
+export const springDetailResponseSchema = z.object({
+  ok: z.literal(true),
+  data: z.object({
+    spring: springSchema,
+    nearby: z.array(nearbySpringSchema).describe('Up to 8 other springs within 100 miles, nearest first'),
+    state: stateSchema.nullable().describe("The spring's state with its counts, when available"),
+  }),
 });
 
+/**
+ * A positive integer query param; missing or invalid values fall back to the
+ * default and large values are capped rather than rejected
+ */
+function cappedIntParamSchema(max: number, defaultValue: number) {
+  return z.preprocess((value) => {
+    if (value === undefined || value === null || value === '') return defaultValue;
+    const parsed = parseInt(String(value), 10);
+    return isNaN(parsed) || parsed < 1 ? defaultValue : Math.min(parsed, max);
+  }, z.number().int().min(1).max(max).default(defaultValue));
+}
+
+/**
+ * A required coordinate query param; an empty value is missing, not zero
+ */
+function coordinateParamSchema(limit: number) {
+  return z.preprocess(
+    (value) => (value === '' ? undefined : value),
+    z.coerce.number().min(-limit).max(limit)
+  );
+}
+
+// Query params for GET /api/nearby (param names as they appear in the URL)
 export const nearbyParamsSchema = z.object({
-  lat: z.coerce.number().min(-90).max(90),
-  lng: z.coerce.number().min(-180).max(180),
-  radius: z.coerce.number().min(1).max(500).optional().default(50),
-  limit: z.coerce.number().min(1).max(50).optional().default(10),
+  lat: coordinateParamSchema(90).describe('Latitude of the search point'),
+  lng: coordinateParamSchema(180).describe('Longitude of the search point'),
+  type: springTypeSchema.optional().describe('Only springs of this type'),
+  experience: experienceTypeSchema.optional().describe('Only springs with this experience'),
+  fee: feeTypeSchema.optional().describe('Only springs with this fee type'),
+  access: accessDifficultySchema.optional().describe('Only springs with this access difficulty'),
+  clothing: clothingOptionalTypeSchema.optional().describe('Only springs with this clothing policy'),
+  limit: cappedIntParamSchema(50, 20).describe('Maximum number of springs returned'),
+  radius: cappedIntParamSchema(100, 100).describe('Search radius in miles'),
+});
+
+export const nearbyResponseSchema = z.object({
+  springs: z.array(nearbySpringSchema).describe('Matching springs, nearest first'),
+  count: z.number().int(),
+  location: z.object({ lat: z.number(), lng: z.number() }).describe('The search point'),
+});
+
+// Query params for GET /api/along-route; exactly one of polyline or waypoints
+export const alongRouteParamsSchema = z.object({
+  polyline: z
+    .string()
+    .min(1)
+    .max(20000)
+    .optional()
+    .describe('The route as a Google encoded polyline (precision 5), e.g. from a directions API'),
+  waypoints: z
+    .string()
+    .min(1)
+    .max(20000)
+    .optional()
+    .describe('The route as "lat,lng|lat,lng|..." points joined by straight lines, instead of polyline'),
+  corridor: cappedIntParamSchema(50, 10).describe('Maximum distance from the route in miles'),
+  type: springTypeSchema.optional().describe('Only springs of this type'),
+  experience: experienceTypeSchema.optional().describe('Only springs with this experience'),
+  fee: feeTypeSchema.optional().describe('Only springs with this fee type'),
+  access: accessDifficultySchema.optional().describe('Only springs with this access difficulty'),
+  clothing: clothingOptionalTypeSchema.optional().describe('Only springs with this clothing policy'),
+  limit: cappedIntParamSchema(200, 100).describe(
+    'Maximum number of springs returned; the closest to the route are kept'
+  ),
+});
+
+export const alongRouteResponseSchema = z.object({
+  springs: z.array(routeSpringSchema).describe('Matching springs in order along the route'),
+  count: z.number().int(),
+  route: z
+    .object({
+      points: z.number().int(),
+      length_miles: z.number(),
+    })
+    .describe('The decoded route'),
+  corridor_miles: z.number(),
+});
+
+/**
+ * Spring IDs given as a comma-separated string
+ */
+function idListParamSchema(max: number) {
+  return z.preprocess(
+    (value) => (typeof value === 'string' ? value.split(',').map((v) => v.trim()).filter(Boolean) : value),
+    z.array(z.string().uuid()).min(1).max(max)
+  );
+}
+
+// Query params for the /api/export.* downloads: the /[state], /type and
+// /tag page filters, or an explicit list of IDs
+export const exportParamsSchema = z.object({
+  state: z.string().length(2).toUpperCase().optional().describe('2-letter state code'),
+  type: springTypeSchema.optional().describe('Only springs of this type'),
+  experience: experienceTypeSchema.optional().describe('Only springs with this experience'),
+  tag: z
+    .enum(Object.keys(TAG_FILTERS) as [string, ...string[]])
+    .optional()
+    .describe('Only springs on this /tag page'),
+  ids: idListParamSchema(500)
+    .optional()
+    .describe('Comma-separated spring IDs (up to 500), e.g. a trip; not combined with filters'),
+});
+
+// GET /api/export.geojson
+export const exportGeoJsonResponseSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  name: z.string().describe('Collection title, e.g. "Hot Springs in Idaho"'),
+  features: z.array(
+    z.object({
+      type: z.literal('Feature'),
+      id: z.string().uuid(),
+      geometry: z.object({
+        type: z.literal('Point'),
+        coordinates: z.tuple([z.number(), z.number()]).describe('[lng, lat]'),
+      }),
+      properties: z.object({
+        name: z.string(),
+        description: z.string().describe('One-line summary, e.g. "Hot spring · 104°F · Short walk"'),
+        state: z.string(),
+        spring_type: springTypeSchema,
+        experience_type: experienceTypeSchema,
+        temp_f: z.number().nullable(),
+        access_difficulty: accessDifficultySchema.nullable(),
+        fee_type: feeTypeSchema.nullable(),
+        url: z.string().url().describe('The spring page on SoakMap'),
+      }),
+    })
+  ),
+});
+
+// Query params for GET /api/offline; exactly one of spring, state or ids
+export const offlineParamsSchema = z.object({
+  spring: z.string().regex(/^[a-z0-9-]{1,200}$/).optional(),
+  state: z.string().length(2).toUpperCase().optional(),
+  ids: idListParamSchema(25).optional(),
+});
+
+// =============================================================================
+// Draw-to-search areas (GeoJSON)
+// =============================================================================
+
+// [lng, lat], optionally followed by an altitude that is ignored
+const positionSchema = z
+  .tuple([z.number().min(-180).max(180), z.number().min(-90).max(90)])
+  .rest(z.number());
+
+const linearRingSchema = z
+  .array(positionSchema)
+  .min(4)
+  .refine((ring) => ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1], {
+    message: 'Polygon rings must be closed (first and last positions equal)',
+  });
+
+const polygonGeometrySchema = z.object({
+  type: z.literal('Polygon'),
+  coordinates: z.array(linearRingSchema).min(1),
+});
+
+const multiPolygonGeometrySchema = z.object({
+  type: z.literal('MultiPolygon'),
+  coordinates: z.array(z.array(linearRingSchema).min(1)).min(1),
+});
+
+const areaGeometrySchema = z.discriminatedUnion('type', [polygonGeometrySchema, multiPolygonGeometrySchema]);
+
+// GeoJSON has no circle; by convention a Point Feature with a radius property
+const circleFeatureSchema = z.object({
+  type: z.literal('Feature'),
+  geometry: z.object({ type: z.literal('Point'), coordinates: positionSchema }),
+  properties: z.object({ radius_miles: z.number().positive().max(MAX_CIRCLE_RADIUS_MILES) }),
+});
+
+// What /api/springs/within accepts as its area: a Polygon or MultiPolygon
+// geometry, a Feature wrapping one, or a circle Feature
+export const searchAreaSchema = z.union([
+  areaGeometrySchema,
+  z.object({ type: z.literal('Feature'), geometry: areaGeometrySchema }),
+  circleFeatureSchema,
+]);
+
+// Query params for GET /api/springs/within; exactly one of shape or geojson
+// (POST sends the GeoJSON as the body instead)
+export const withinParamsSchema = z.object({
+  shape: z
+    .string()
+    .min(1)
+    .max(20000)
+    .optional()
+    .describe('The area in the /map URL encoding: "c:lat,lng,radiusMiles" or "p:" + an encoded polyline ring'),
+  geojson: z
+    .string()
+    .min(1)
+    .max(20000)
+    .optional()
+    .describe(
+      'The area as GeoJSON: a Polygon or MultiPolygon (or a Feature of one), or a circle as a Point Feature ' +
+        'with a radius_miles property'
+    ),
+  type: springTypeSchema.optional().describe('Only springs of this type'),
+  experience: experienceTypeSchema.optional().describe('Only springs with this experience'),
+  fee: feeTypeSchema.optional().describe('Only springs with this fee type'),
+  access: accessDifficultySchema.optional().describe('Only springs with this access difficulty'),
+  clothing: clothingOptionalTypeSchema.optional().describe('Only springs with this clothing policy'),
+  limit: cappedIntParamSchema(500, 200).describe('Maximum number of springs returned'),
+});
+
+export const withinResponseSchema = z.object({
+  springs: z.array(springSummarySchema).describe('Springs inside the area, those with photos first'),
+  count: z.number().int(),
+  truncated: z.boolean().describe('Whether more springs matched than the limit'),
+  area_sq_miles: z.number().describe('Size of the searched area'),
+});
+
+// Body of every 4xx/5xx JSON response from the public API
+export const apiErrorSchema = z.object({
+  error: z.string(),
+});
+
+export const bboxParamsSchema = z
+  .object({
+    west: z.coerce.number().min(-180).max(180),
+    south: z.coerce.number().min(-90).max(90),
+    east: z.coerce.number().min(-180).max(180),
+    north: z.coerce.number().min(-90).max(90),
+    zoom: z.coerce.number().min(0).max(22).optional().default(6),
+    spring_type: springTypeSchema.optional(),
+    experience_type: experienceTypeSchema.optional(),
+  })
+  .refine((b) => b.west < b.east && b.south < b.north, {
+    message: 'Bounds must satisfy west < east and south < north',
+  });
+
+// Query params for GET /api/springs/bbox as they appear in the URL; the route
+// splits bbox into the bboxParamsSchema fields
+export const bboxQueryParamsSchema = z.object({
+  bbox: z
+    .string()
+    .regex(/^[^,]+,[^,]+,[^,]+,[^,]+$/)
+    .describe('The viewport as "west,south,east,north" in degrees'),
+  zoom: bboxParamsSchema.innerType().shape.zoom.describe('Map zoom level; lower zooms return fewer markers'),
+  type: springTypeSchema.optional().describe('Only springs of this type'),
+  experience: experienceTypeSchema.optional().describe('Only springs with this experience'),
+});
+
+export const bboxResponseSchema = z.object({
+  springs: z.array(springMarkerSchema).describe('Markers in the viewport, springs with photos first'),
+  count: z.number().int(),
+  truncated: z.boolean().describe("Whether the zoom level's marker cap was hit"),
+  bounds: z.object({ west: z.number(), south: z.number(), east: z.number(), north: z.number() }),
+  zoom: z.number(),
+});
+
+// Query params for GET /api/autocomplete
+export const autocompleteParamsSchema = z.object({
+  q: z.string().trim().min(2).max(100).describe('Partial name of a spring, city or state'),
+});
+
+export const autocompleteResponseSchema = z.object({
+  q: z.string(),
+  suggestions: z
+    .array(
+      z.object({
+        kind: z.enum(['state', 'city', 'spring']),
+        label: z.string(),
+        detail: z
+          .string()
+          .describe(
+            'Secondary text: "State" for states, "Springs within 100 miles" for cities, and the type and ' +
+              'state code for springs (e.g. "Hot spring · ID")'
+          ),
+        url: z.string().describe('Destination path on soakmap.com'),
+      })
+    )
+    .describe('States, then cities, then springs'),
 });
 
 // =============================================================================
@@ -145,4 +557,19 @@ export type SpringSchema = z.infer<typeof springSchema>;
 export type SpringSummarySchema = z.infer<typeof springSummarySchema>;
 export type StateSchema = z.infer<typeof stateSchema>;
 export type SpringFiltersSchema = z.infer<typeof springFiltersSchema>;
+export type SpringsResponseSchema = z.infer<typeof springsResponseSchema>;
+export type SpringDetailResponseSchema = z.infer<typeof springDetailResponseSchema>;
 export type NearbyParamsSchema = z.infer<typeof nearbyParamsSchema>;
+export type NearbyResponseSchema = z.infer<typeof nearbyResponseSchema>;
+export type AlongRouteParamsSchema = z.infer<typeof alongRouteParamsSchema>;
+export type AlongRouteResponseSchema = z.infer<typeof alongRouteResponseSchema>;
+export type ExportParamsSchema = z.infer<typeof exportParamsSchema>;
+export type ExportGeoJsonResponseSchema = z.infer<typeof exportGeoJsonResponseSchema>;
+export type OfflineParamsSchema = z.infer<typeof offlineParamsSchema>;
+export type BboxParamsSchema = z.infer<typeof bboxParamsSchema>;
+export type BboxResponseSchema = z.infer<typeof bboxResponseSchema>;
+export type AutocompleteParamsSchema = z.infer<typeof autocompleteParamsSchema>;
+export type AutocompleteResponseSchema = z.infer<typeof autocompleteResponseSchema>;
+export type SearchAreaSchema = z.infer<typeof searchAreaSchema>;
+export type WithinParamsSchema = z.infer<typeof withinParamsSchema>;
+export type WithinResponseSchema = z.infer<typeof withinResponseSchema>;
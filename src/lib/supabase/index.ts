@@ -1,2 +1,2 @@
-export { db, supabase } from './server';
+export { supabaseDataSource, supabase } from './server';
 export { createClient } from './client';
@@ -1,16 +1,37 @@
 import { createClient } from '@supabase/supabase-js';
 import { cache } from 'react';
 import { env } from '@/lib/env';
-import type { Database } from '@/types/database';
-import type { Spring, SpringSummary, State, NearbySpring, SpringFilters } from '@/types';
-
-// =============================================================================
-// Result Type for Error Handling
-// =============================================================================
-
-export type Result<T> =
-  | { ok: true; data: T }
-  | { ok: false; error: string };
+import { decodeCursor, encodeCursor, type SpringCursor } from '@/lib/utils/cursor';
+import { encodePolyline } from '@/lib/utils/polyline';
+import type { AreaGeometry, LatLng } from '@/lib/utils/geo';
+import {
+  FEATURE_FILTERS,
+  KID_FRIENDLY_VALUES,
+  MULTI_VALUE_FILTERS,
+  TAG_FILTERS,
+} from '@/lib/utils/spring-filters';
+import type { Result, SpringDataSource, SpringStats, SpringSuggestion } from '@/lib/data/source';
+import type { Database, Json } from '@/types/database';
+import type {
+  Spring,
+  SpringSummary,
+  SpringPage,
+  SpringSearchResult,
+  SpringSearchPage,
+  PageParams,
+  State,
+  NearbySpring,
+  NearbyFilters,
+  RouteSpring,
+  SpringMarker,
+  MapBounds,
+  SpringFilters,
+  SpringSort,
+  FacetedSpring,
+  FacetedSearchPage,
+  SpringFacetKey,
+  SpringFacetCounts,
+} from '@/types';
 
 // =============================================================================
 // Utilities
@@ -47,55 +68,320 @@ function createSupabaseClient() {
 export { createSupabaseClient as supabase };
 
 // =============================================================================
-// Database Queries (with React cache for request deduplication)
+// Keyset Pagination
 // =============================================================================
 
 // Pagination limits
 const MAX_LIMIT = 5000;
-const MAX_OFFSET = 10000;
 const DEFAULT_LIMIT = 100;
 
-export const db = {
+const SPRING_SUMMARY_COLUMNS =
+  'id, name, slug, state, lat, lng, spring_type, experience_type, photo_url, temp_f, access_difficulty, parking, fee_type';
+
+function springSummaryQuery(head: boolean) {
+  return createSupabaseClient()
+    .from('springs')
+    .select(SPRING_SUMMARY_COLUMNS, { count: head ? 'exact' : undefined, head });
+}
+
+type SpringSummaryQuery = ReturnType<typeof springSummaryQuery>;
+
+/**
+ * Quote a value for use inside a PostgREST or() filter
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+/**
+ * PostgREST filter selecting rows after (or before) the cursor in (name, id) order
+ */
+function keysetFilter(cursor: SpringCursor): string {
+  const op = cursor.dir === 'next' ? 'gt' : 'lt';
+  const name = quoteFilterValue(cursor.name);
+  return `name.${op}.${name},and(name.eq.${name},id.${op}.${quoteFilterValue(cursor.id)})`;
+}
+
+/**
+ * Fetch one keyset page of springs plus the total match count.
+ * applyFilters is run against both queries so the total ignores the cursor.
+ */
+async function fetchSpringPage(
+  label: string,
+  applyFilters: (query: SpringSummaryQuery) => SpringSummaryQuery,
+  page: PageParams | undefined,
+  defaultLimit: number
+): Promise<Result<SpringPage>> {
+  const cursor = page?.cursor ? decodeCursor(page.cursor) : null;
+  if (page?.cursor && !cursor) {
+    return { ok: false, error: 'Invalid cursor' };
+  }
+
+  const limit = clamp(page?.limit || defaultLimit, 1, MAX_LIMIT);
+  const backward = cursor?.dir === 'prev';
+
+  let rowsQuery = applyFilters(springSummaryQuery(false));
+  if (cursor) {
+    rowsQuery = rowsQuery.or(keysetFilter(cursor));
+  }
+
+  // Fetch one extra row to learn whether another page exists
+  const [rowsResult, countResult] = await Promise.all([
+    rowsQuery
+      .order('name', { ascending: !backward })
+      .order('id', { ascending: !backward })
+      .limit(limit + 1),
+    applyFilters(springSummaryQuery(true)),
+  ]);
+
+  const error = rowsResult.error || countResult.error;
+  if (error) {
+    console.error(`Error fetching ${label}:`, error);
+    return { ok: false, error: `Database error: ${error.message}` };
+  }
+
+  const rows = (rowsResult.data as SpringSummary[]) || [];
+  const hasMore = rows.length > limit;
+  const springs = rows.slice(0, limit);
+  if (backward) springs.reverse();
+
+  // Paging backward always leaves a next page; paging forward from a cursor
+  // always leaves a previous one
+  const hasNext = backward ? cursor !== null : hasMore;
+  const hasPrev = backward ? hasMore : cursor !== null;
+  const first = springs[0];
+  const last = springs[springs.length - 1];
+
+  return {
+    ok: true,
+    data: {
+      springs,
+      total: countResult.count ?? 0,
+      next_cursor: hasNext && last ? encodeCursor(last, 'next') : null,
+      prev_cursor: hasPrev && first ? encodeCursor(first, 'prev') : null,
+    },
+  };
+}
+
+// =============================================================================
+// Spring Filters
+// =============================================================================
+
+/**
+ * Apply SpringFilters (everything except paging) to a springs query.
+ * Keep in sync with the mock fallback in src/lib/data/springs.ts.
+ */
+function applySpringFilters(query: SpringSummaryQuery, filters: SpringFilters): SpringSummaryQuery {
+  if (filters.state) {
+    query = query.eq('state', filters.state.toUpperCase());
+  }
+  if (filters.spring_type) {
+    query = query.eq('spring_type', filters.spring_type);
+  }
+  if (filters.experience_type) {
+    query = query.eq('experience_type', filters.experience_type);
+  }
+  if (filters.q) {
+    // Escape SQL wildcards to prevent injection
+    const sanitized = escapeLikePattern(filters.q);
+    query = query.ilike('name', `%${sanitized}%`);
+  }
+
+  if (filters.temp_min !== undefined) {
+    query = query.gte('temp_f', filters.temp_min);
+  }
+  if (filters.temp_max !== undefined) {
+    query = query.lte('temp_f', filters.temp_max);
+  }
+
+  for (const column of MULTI_VALUE_FILTERS) {
+    const values = filters[column];
+    if (values?.length) {
+      query = query.in(column, values);
+    }
+  }
+
+  // "Must not have" keeps unknowns (NULL), so IS NOT TRUE rather than = false
+  for (const column of FEATURE_FILTERS) {
+    const wanted = filters[column];
+    if (wanted === true) {
+      query = query.is(column, true);
+    } else if (wanted === false) {
+      query = query.not(column, 'is', true);
+    }
+  }
+
+  const kidFriendly = `(${KID_FRIENDLY_VALUES.join(',')})`;
+  if (filters.kid_friendly === true) {
+    query = query.filter('kid_friendly', 'in', kidFriendly);
+  } else if (filters.kid_friendly === false) {
+    query = query.or(`kid_friendly.is.null,kid_friendly.not.in.${kidFriendly}`);
+  }
+
+  // NOT (warnings && '{...}') is NULL for springs without warnings, so keep those explicitly
+  if (filters.exclude_warnings?.length) {
+    query = query.or(`warnings.is.null,warnings.not.ov.{${filters.exclude_warnings.join(',')}}`);
+  }
+
+  return query;
+}
+
+/**
+ * SpringFilters as the JSONB argument taken by filter_springs and
+ * spring_facet_counts; paging fields are dropped
+ */
+function filtersToJson(filters: SpringFilters): Json {
+  const json: { [key: string]: Json } = {};
+  for (const [key, value] of Object.entries(filters)) {
+    if (value === undefined || key === 'cursor' || key === 'limit') continue;
+    json[key] = value as Json;
+  }
+  return json;
+}
+
+// =============================================================================
+// Supabase Data Source (with React cache for request deduplication)
+// =============================================================================
+
+export const supabaseDataSource: SpringDataSource = {
+  /**
+   * Get a page of springs with optional filters, plus the total match count
+   */
+  getSprings: cache(async (filters?: SpringFilters): Promise<Result<SpringPage>> => {
+    return fetchSpringPage(
+      'springs',
+      (query) => applySpringFilters(query, filters ?? {}),
+      filters,
+      DEFAULT_LIMIT
+    );
+  }),
+
   /**
-   * Get all springs with optional filters
+   * Springs matching every filter, sorted for the faceted /search page.
+   * Distance sorting needs an origin; without one results fall back to name order.
    */
-  getSprings: cache(async (filters?: SpringFilters): Promise<Result<SpringSummary[]>> => {
+  getFacetedSprings: cache(async (
+    filters: SpringFilters,
+    sort: SpringSort = 'name',
+    origin?: { lat: number; lng: number },
+    limit = 100
+  ): Promise<Result<FacetedSearchPage>> => {
     const supabase = createSupabaseClient();
 
-    let query = supabase
-      .from('springs')
-      .select('id, name, slug, state, lat, lng, spring_type, experience_type, photo_url, temp_f, access_difficulty, parking, fee_type')
-      .order('name');
+    const { data, error } = await supabase.rpc('filter_springs', {
+      filters: filtersToJson(filters),
+      sort_by: sort,
+      origin_lat: origin?.lat ?? null,
+      origin_lng: origin?.lng ?? null,
+      max_results: clamp(limit, 1, 500),
+    });
 
-    if (filters?.state) {
-      query = query.eq('state', filters.state.toUpperCase());
+    if (error) {
+      console.error('Error fetching faceted springs:', error);
+      return { ok: false, error: `Database error: ${error.message}` };
     }
-    if (filters?.spring_type) {
-      query = query.eq('spring_type', filters.spring_type);
+
+    // Every row carries the window count of all matches; strip it from results
+    const rows = data || [];
+    const springs = rows.map((row) => {
+      const spring: Partial<typeof row> = { ...row };
+      delete spring.total_count;
+      return spring as FacetedSpring;
+    });
+
+    return { ok: true, data: { springs, total: rows[0]?.total_count ?? 0 } };
+  }),
+
+  /**
+   * Count springs per facet value. Each facet ignores its own filter, so the
+   * counts show what selecting (or adding) that value would return.
+   */
+  getFacetCounts: cache(async (filters: SpringFilters): Promise<Result<SpringFacetCounts>> => {
+    const supabase = createSupabaseClient();
+
+    const { data, error } = await supabase.rpc('spring_facet_counts', {
+      filters: filtersToJson(filters),
+    });
+
+    if (error) {
+      console.error('Error fetching facet counts:', error);
+      return { ok: false, error: `Database error: ${error.message}` };
     }
-    if (filters?.experience_type) {
-      query = query.eq('experience_type', filters.experience_type);
+
+    const counts: SpringFacetCounts = {};
+    for (const row of data || []) {
+      const facet = row.facet as SpringFacetKey;
+      counts[facet] = { ...counts[facet], [row.value]: row.count };
     }
-    if (filters?.q) {
-      // Escape SQL wildcards to prevent injection
-      const sanitized = escapeLikePattern(filters.q);
-      query = query.ilike('name', `%${sanitized}%`);
+
+    return { ok: true, data: counts };
+  }),
+
+  /**
+   * Relevance-ranked search over name, description and state, tolerant of typos
+   */
+  searchSprings: cache(async (
+    q: string,
+    filters?: Pick<SpringFilters, 'state' | 'spring_type' | 'experience_type'>,
+    limit = 20
+  ): Promise<Result<SpringSearchPage>> => {
+    const supabase = createSupabaseClient();
+
+    const { data, error } = await supabase.rpc('search_springs', {
+      search_query: q.trim().slice(0, 200),
+      max_results: clamp(limit, 1, 100),
+      filter_state: filters?.state?.toUpperCase() ?? null,
+      filter_spring_type: filters?.spring_type ?? null,
+      filter_experience_type: filters?.experience_type ?? null,
+    });
+
+    if (error) {
+      console.error('Error searching springs:', error);
+      return { ok: false, error: `Database error: ${error.message}` };
     }
 
-    // Apply pagination with safety limits
-    const limit = clamp(filters?.limit || DEFAULT_LIMIT, 1, MAX_LIMIT);
-    const offset = clamp(filters?.offset || 0, 0, MAX_OFFSET);
+    // Every row carries the window count of all matches; strip it from results
+    const rows = data || [];
+    const springs = rows.map((row) => {
+      const spring: Partial<typeof row> = { ...row };
+      delete spring.total_count;
+      return spring as SpringSearchResult;
+    });
 
-    query = query.range(offset, offset + limit - 1);
+    return { ok: true, data: { springs, total: rows[0]?.total_count ?? 0 } };
+  }),
 
-    const { data, error } = await query;
+  /**
+   * Springs whose name contains the query, for typeahead suggestions.
+   * Prefix matches come first, each group alphabetical; the trigram index on
+   * name serves both ILIKEs.
+   */
+  suggestSprings: cache(async (
+    q: string,
+    limit = 5
+  ): Promise<Result<SpringSuggestion[]>> => {
+    const supabase = createSupabaseClient();
 
+    const safeLimit = clamp(limit, 1, 20);
+    const pattern = escapeLikePattern(q.trim().slice(0, 100));
+
+    // Two queries rather than one ordered by name, so a common term's many
+    // mid-name matches can't crowd every prefix match out of the limit
+    const suggestionQuery = () =>
+      supabase.from('springs').select('id, name, slug, state, spring_type').order('name').limit(safeLimit);
+
+    const [prefix, contains] = await Promise.all([
+      suggestionQuery().ilike('name', `${pattern}%`),
+      suggestionQuery().ilike('name', `%${pattern}%`).not('name', 'ilike', `${pattern}%`),
+    ]);
+
+    const error = prefix.error ?? contains.error;
     if (error) {
-      console.error('Error fetching springs:', error);
+      console.error('Error fetching spring suggestions:', error);
       return { ok: false, error: `Database error: ${error.message}` };
     }
 
-    return { ok: true, data: (data as SpringSummary[]) || [] };
+    return { ok: true, data: [...(prefix.data || []), ...(contains.data || [])].slice(0, safeLimit) };
   }),
 
   /**
@@ -122,6 +408,71 @@ export const db = {
     return { ok: true, data: data as Spring };
   }),
 
+  /**
+   * Get a single spring by ID (for permalinks that outlive slug changes)
+   */
+  getSpringById: cache(async (id: string): Promise<Result<Spring | null>> => {
+    const supabase = createSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('springs')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) {
+      // PGRST116 = no rows found, which is not an error for us
+      if (error.code === 'PGRST116') {
+        return { ok: true, data: null };
+      }
+      console.error('Error fetching spring by id:', error);
+      return { ok: false, error: `Database error: ${error.message}` };
+    }
+
+    return { ok: true, data: data as Spring };
+  }),
+
+  /**
+   * Get spring summaries by ID, in the order requested
+   */
+  getSpringsByIds: cache(async (ids: string[]): Promise<Result<SpringSummary[]>> => {
+    if (ids.length === 0) {
+      return { ok: true, data: [] };
+    }
+
+    const { data, error } = await springSummaryQuery(false).in('id', ids);
+
+    if (error) {
+      console.error('Error fetching springs by id:', error);
+      return { ok: false, error: `Database error: ${error.message}` };
+    }
+
+    const byId = new Map((data as SpringSummary[]).map((s) => [s.id, s]));
+    return {
+      ok: true,
+      data: ids.flatMap((id) => {
+        const spring = byId.get(id);
+        return spring ? [spring] : [];
+      }),
+    };
+  }),
+
+  /**
+   * Resolve a retired slug to the spring's current one (see spring_slug_history)
+   */
+  getCurrentSlug: cache(async (oldSlug: string): Promise<Result<string | null>> => {
+    const supabase = createSupabaseClient();
+
+    const { data, error } = await supabase.rpc('resolve_spring_slug', { old_slug: oldSlug });
+
+    if (error) {
+      console.error('Error resolving spring slug:', error);
+      return { ok: false, error: `Database error: ${error.message}` };
+    }
+
+    return { ok: true, data: data ?? null };
+  }),
+
   /**
    * Get all spring slugs (for static generation)
    */
@@ -184,65 +535,132 @@ export const db = {
   }),
 
   /**
-   * Get springs in a specific state
+   * Get springs in a specific state (all of them unless a page size is given)
    */
-  getSpringsByState: cache(async (stateCode: string): Promise<Result<SpringSummary[]>> => {
+  getSpringsByState: cache(async (stateCode: string, page?: PageParams): Promise<Result<SpringPage>> => {
+    return fetchSpringPage(
+      'springs by state',
+      (query) => query.eq('state', stateCode.toUpperCase()),
+      page,
+      MAX_LIMIT
+    );
+  }),
+
+  /**
+   * Get springs by tag filter (all of them unless a page size is given)
+   */
+  getSpringsByTag: cache(async (tag: string, page?: PageParams): Promise<Result<SpringPage>> => {
+    // Validate tag against whitelist first (don't leak invalid input in error)
+    const tagFilters = Object.hasOwn(TAG_FILTERS, tag) ? TAG_FILTERS[tag] : null;
+    if (!tagFilters) {
+      return { ok: false, error: 'Invalid tag' };
+    }
+
+    return fetchSpringPage(
+      'springs by tag',
+      (query) => applySpringFilters(query, tagFilters),
+      page,
+      MAX_LIMIT
+    );
+  }),
+
+  /**
+   * Find springs near a location using PostGIS, optionally filtered in SQL
+   */
+  getNearby: cache(async (
+    lat: number,
+    lng: number,
+    radiusMiles = 50,
+    limit = 10,
+    filters?: NearbyFilters
+  ): Promise<Result<NearbySpring[]>> => {
     const supabase = createSupabaseClient();
 
-    const { data, error } = await supabase
-      .from('springs')
-      .select('id, name, slug, state, lat, lng, spring_type, experience_type, photo_url, temp_f, access_difficulty, parking, fee_type')
-      .eq('state', stateCode.toUpperCase())
-      .order('name');
+    // Validate and clamp inputs
+    const safeLat = clamp(lat, -90, 90);
+    const safeLng = clamp(lng, -180, 180);
+    const safeRadius = clamp(radiusMiles, 1, 500);
+    const safeLimit = clamp(limit, 1, 50);
+
+    const { data, error } = await supabase.rpc('nearby_springs', {
+      search_lat: safeLat,
+      search_lng: safeLng,
+      radius_miles: safeRadius,
+      max_results: safeLimit,
+      filter_spring_type: filters?.spring_type ?? null,
+      filter_experience_type: filters?.experience_type ?? null,
+      filter_fee_type: filters?.fee_type ?? null,
+      filter_access_difficulty: filters?.access_difficulty ?? null,
+      filter_clothing_optional: filters?.clothing_optional ?? null,
+    });
 
     if (error) {
-      console.error('Error fetching springs by state:', error);
+      console.error('Error fetching nearby springs:', error);
       return { ok: false, error: `Database error: ${error.message}` };
     }
 
-    return { ok: true, data: (data as SpringSummary[]) || [] };
+    return { ok: true, data: (data as NearbySpring[]) || [] };
   }),
 
   /**
-   * Get springs by tag filter
+   * Get springs in a corridor around a route using PostGIS
    */
-  getSpringsByTag: cache(async (tag: string): Promise<Result<SpringSummary[]>> => {
-    // Validate tag against whitelist first (don't leak invalid input in error)
-    const VALID_TAGS = ['free', 'clothing-optional', 'primitive', 'resort', 'drive-up'];
-    if (!VALID_TAGS.includes(tag)) {
-      return { ok: false, error: 'Invalid tag' };
+  getSpringsAlongRoute: cache(async (
+    route: LatLng[],
+    corridorMiles = 10,
+    limit = 100,
+    filters?: NearbyFilters
+  ): Promise<Result<RouteSpring[]>> => {
+    if (route.length === 0) {
+      return { ok: true, data: [] };
     }
 
     const supabase = createSupabaseClient();
 
-    let query = supabase
-      .from('springs')
-      .select('id, name, slug, state, lat, lng, spring_type, experience_type, photo_url, temp_f, access_difficulty, parking, fee_type, clothing_optional')
-      .order('name');
+    // A single point is a zero-length line, so the corridor becomes a radius
+    const points = route.length === 1 ? [route[0], route[0]] : route;
+
+    const { data, error } = await supabase.rpc('springs_along_route', {
+      route_polyline: encodePolyline(points),
+      corridor_miles: clamp(corridorMiles, 1, 50),
+      max_results: clamp(limit, 1, 200),
+      filter_spring_type: filters?.spring_type ?? null,
+      filter_experience_type: filters?.experience_type ?? null,
+      filter_fee_type: filters?.fee_type ?? null,
+      filter_access_difficulty: filters?.access_difficulty ?? null,
+      filter_clothing_optional: filters?.clothing_optional ?? null,
+    });
 
-    // Apply tag-specific filters
-    switch (tag) {
-      case 'free':
-        query = query.eq('fee_type', 'free');
-        break;
-      case 'clothing-optional':
-        query = query.in('clothing_optional', ['yes', 'unofficial']);
-        break;
-      case 'primitive':
-        query = query.eq('experience_type', 'primitive');
-        break;
-      case 'resort':
-        query = query.eq('experience_type', 'resort');
-        break;
-      case 'drive-up':
-        query = query.eq('access_difficulty', 'drive_up');
-        break;
+    if (error) {
+      console.error('Error fetching springs along route:', error);
+      return { ok: false, error: `Database error: ${error.message}` };
     }
 
-    const { data, error } = await query;
+    return { ok: true, data: (data as RouteSpring[]) || [] };
+  }),
+
+  /**
+   * Get springs inside a drawn polygon using PostGIS
+   */
+  getSpringsInArea: cache(async (
+    area: AreaGeometry,
+    limit = 200,
+    filters?: NearbyFilters
+  ): Promise<Result<SpringSummary[]>> => {
+    const supabase = createSupabaseClient();
+
+    const { data, error } = await supabase.rpc('springs_in_polygon', {
+      shape_geojson: JSON.stringify(area),
+      max_results: clamp(limit, 1, MAX_LIMIT),
+      filter_spring_type: filters?.spring_type ?? null,
+      filter_experience_type: filters?.experience_type ?? null,
+      filter_fee_type: filters?.fee_type ?? null,
+      filter_access_difficulty: filters?.access_difficulty ?? null,
+      filter_clothing_optional: filters?.clothing_optional ?? null,
+    });
 
     if (error) {
-      console.error('Error fetching springs by tag:', error);
+      console.error('Error fetching springs in area:', error);
       return { ok: false, error: `Database error: ${error.message}` };
     }
 
@@ -250,30 +668,49 @@ export const db = {
   }),
 
   /**
-   * Find springs near a location using PostGIS
+   * Get lightweight map markers inside a viewport using PostGIS
    */
-  getNearby: cache(async (lat: number, lng: number, radiusMiles = 50, limit = 10): Promise<Result<NearbySpring[]>> => {
+  getSpringsInBounds: cache(async (
+    bounds: MapBounds,
+    limit = 500,
+    filters?: Pick<SpringFilters, 'spring_type' | 'experience_type'>
+  ): Promise<Result<SpringMarker[]>> => {
     const supabase = createSupabaseClient();
 
-    // Validate and clamp inputs
-    const safeLat = clamp(lat, -90, 90);
-    const safeLng = clamp(lng, -180, 180);
-    const safeRadius = clamp(radiusMiles, 1, 500);
-    const safeLimit = clamp(limit, 1, 50);
-
-    const { data, error } = await supabase.rpc('nearby_springs', {
-      search_lat: safeLat,
-      search_lng: safeLng,
-      radius_miles: safeRadius,
-      max_results: safeLimit,
+    const { data, error } = await supabase.rpc('springs_in_bbox', {
+      min_lng: clamp(bounds.west, -180, 180),
+      min_lat: clamp(bounds.south, -90, 90),
+      max_lng: clamp(bounds.east, -180, 180),
+      max_lat: clamp(bounds.north, -90, 90),
+      max_results: clamp(limit, 1, MAX_LIMIT),
+      filter_spring_type: filters?.spring_type ?? null,
+      filter_experience_type: filters?.experience_type ?? null,
     });
 
     if (error) {
-      console.error('Error fetching nearby springs:', error);
+      console.error('Error fetching springs in bounds:', error);
       return { ok: false, error: `Database error: ${error.message}` };
     }
 
-    return { ok: true, data: (data as NearbySpring[]) || [] };
+    return { ok: true, data: (data as SpringMarker[]) || [] };
+  }),
+
+  /**
+   * Get a Mapbox Vector Tile of spring points (empty array for an empty tile)
+   */
+  getSpringTile: cache(async (z: number, x: number, y: number): Promise<Result<Uint8Array>> => {
+    const supabase = createSupabaseClient();
+
+    const { data, error } = await supabase.rpc('spring_tiles', { z, x, y });
+
+    if (error) {
+      console.error('Error fetching spring tile:', error);
+      return { ok: false, error: `Database error: ${error.message}` };
+    }
+
+    // PostgREST returns bytea as a hex string prefixed with \x
+    const hex = typeof data === 'string' ? data.replace(/^\\x/, '') : '';
+    return { ok: true, data: Uint8Array.from(Buffer.from(hex, 'hex')) };
   }),
 
   /**
@@ -321,7 +758,7 @@ export const db = {
   /**
    * Get stats for homepage - uses states table aggregation for efficiency
    */
-  getStats: cache(async (): Promise<Result<{ total: number; hot: number; warm: number; cold: number }>> => {
+  getStats: cache(async (): Promise<Result<SpringStats>> => {
     const supabase = createSupabaseClient();
 
     const { data, error } = await supabase
@@ -0,0 +1,89 @@
+/**
+ * Multi-spring road trips: a suggested visiting order with per-leg distances.
+ *
+ * Distances come from OSRM when OSRM_URL is set, else straight-line estimates.
+ */
+
+import { env } from '@/lib/env';
+import type { Result } from '@/lib/data/source';
+import type { SpringSummary } from '@/types/spring';
+import { createHaversineRoutingProvider, createOsrmRoutingProvider, type RoutingProvider } from './routing';
+import { MAX_TRIP_STOPS, optimizeOrder } from './optimizer';
+
+export type { RoutingProvider, TravelMatrix } from './routing';
+export { createHaversineRoutingProvider, createOsrmRoutingProvider } from './routing';
+export { MAX_TRIP_STOPS, optimizeOrder, pathCost } from './optimizer';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TripLeg {
+  from: SpringSummary;
+  to: SpringSummary;
+  miles: number;
+  minutes: number;
+}
+
+export interface TripPlan {
+  /** Springs in suggested visiting order */
+  stops: SpringSummary[];
+  legs: TripLeg[];
+  totalMiles: number;
+  totalMinutes: number;
+  /** Where distances came from; 'haversine' means estimates */
+  routing: RoutingProvider['name'];
+}
+
+// =============================================================================
+// Planning
+// =============================================================================
+
+const fallbackProvider = createHaversineRoutingProvider();
+
+export const routingProvider: RoutingProvider = env.osrmUrl
+  ? createOsrmRoutingProvider(env.osrmUrl)
+  : fallbackProvider;
+
+/**
+ * Order springs to minimize total distance. When the routing provider fails
+ * the plan falls back to straight-line estimates rather than failing.
+ */
+export async function planTrip(
+  springs: SpringSummary[],
+  provider: RoutingProvider = routingProvider
+): Promise<Result<TripPlan>> {
+  if (springs.length > MAX_TRIP_STOPS) {
+    return { ok: false, error: `A trip can have at most ${MAX_TRIP_STOPS} stops` };
+  }
+
+  let routing = provider.name;
+  let result = await provider.matrix(springs);
+  if (!result.ok && provider !== fallbackProvider) {
+    console.error('Trip routing failed, using estimates:', result.error);
+    routing = fallbackProvider.name;
+    result = await fallbackProvider.matrix(springs);
+  }
+  if (!result.ok) {
+    return result;
+  }
+
+  const { miles, minutes } = result.data;
+  const order = optimizeOrder(miles);
+
+  const legs: TripLeg[] = order.slice(1).map((to, i) => {
+    const from = order[i];
+    return { from: springs[from], to: springs[to], miles: miles[from][to], minutes: minutes[from][to] };
+  });
+
+  return {
+    ok: true,
+    data: {
+      stops: order.map((i) => springs[i]),
+      legs,
+      totalMiles: legs.reduce((sum, leg) => sum + leg.miles, 0),
+      totalMinutes: legs.reduce((sum, leg) => sum + leg.minutes, 0),
+      routing,
+    },
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * Visiting order for a trip: the open path through every stop (any start, any
+ * end) with the least total cost.
+ *
+ * Small trips are solved exactly (Held-Karp dynamic programming, O(2^n * n^2)).
+ * Larger ones use nearest-neighbour tours from every start, improved by 2-opt.
+ */
+
+// Most trips are a handful of stops; this keeps optimizing cheap
+export const MAX_TRIP_STOPS = 25;
+
+// Held-Karp needs 2^n * n table entries; 12 stops is ~50k
+export const MAX_EXACT_STOPS = 12;
+
+/**
+ * Total cost of visiting stops in `order`
+ */
+export function pathCost(cost: number[][], order: number[]): number {
+  let total = 0;
+  for (let i = 1; i < order.length; i++) {
+    total += cost[order[i - 1]][order[i]];
+  }
+  return total;
+}
+
+/**
+ * The cheapest path, by Held-Karp (for n >= 1)
+ */
+export function exactOrder(cost: number[][]): number[] {
+  const n = cost.length;
+  const full = (1 << n) - 1;
+  const best = new Float64Array((1 << n) * n).fill(Infinity);
+  const prev = new Int8Array((1 << n) * n).fill(-1);
+
+  for (let j = 0; j < n; j++) {
+    best[(1 << j) * n + j] = 0;
+  }
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let j = 0; j < n; j++) {
+      const current = best[mask * n + j];
+      if (!(mask & (1 << j)) || current === Infinity) continue;
+
+      for (let k = 0; k < n; k++) {
+        if (mask & (1 << k)) continue;
+        const next = (mask | (1 << k)) * n + k;
+        const candidate = current + cost[j][k];
+        if (candidate < best[next]) {
+          best[next] = candidate;
+          prev[next] = j;
+        }
+      }
+    }
+  }
+
+  let last = 0;
+  for (let j = 1; j < n; j++) {
+    if (best[full * n + j] < best[full * n + last]) last = j;
+  }
+
+  const order: number[] = [];
+  let mask = full;
+  let stop = last;
+  while (stop !== -1) {
+    order.push(stop);
+    const before = prev[mask * n + stop];
+    mask &= ~(1 << stop);
+    stop = before;
+  }
+  return order.reverse();
+}
+
+function nearestNeighbourOrder(cost: number[][], start: number): number[] {
+  const visited = new Set([start]);
+  const order = [start];
+
+  while (order.length < cost.length) {
+    const from = order[order.length - 1];
+    let nearest = -1;
+    for (let k = 0; k < cost.length; k++) {
+      if (!visited.has(k) && (nearest === -1 || cost[from][k] < cost[from][nearest])) {
+        nearest = k;
+      }
+    }
+    visited.add(nearest);
+    order.push(nearest);
+  }
+  return order;
+}
+
+/**
+ * Reverse segments while that shortens the path
+ */
+function twoOpt(cost: number[][], order: number[]): number[] {
+  let bestOrder = order;
+  let bestCost = pathCost(cost, order);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < bestOrder.length - 1; i++) {
+      for (let j = i + 1; j < bestOrder.length; j++) {
+        const candidate = [
+          ...bestOrder.slice(0, i),
+          ...bestOrder.slice(i, j + 1).reverse(),
+          ...bestOrder.slice(j + 1),
+        ];
+        const candidateCost = pathCost(cost, candidate);
+        if (candidateCost < bestCost - 1e-9) {
+          bestOrder = candidate;
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+  }
+  return bestOrder;
+}
+
+/**
+ * The best 2-opt-improved nearest-neighbour path over every start
+ */
+export function heuristicOrder(cost: number[][]): number[] {
+  let best: number[] = [];
+  let bestCost = Infinity;
+  for (let start = 0; start < cost.length; start++) {
+    const order = twoOpt(cost, nearestNeighbourOrder(cost, start));
+    const orderCost = pathCost(cost, order);
+    if (orderCost < bestCost) {
+      best = order;
+      bestCost = orderCost;
+    }
+  }
+  return best;
+}
+
+/**
+ * Indices of the stops in visiting order, given cost[i][j] from stop i to j
+ */
+export function optimizeOrder(cost: number[][]): number[] {
+  const n = cost.length;
+  if (n <= 2) return Array.from({ length: n }, (_, i) => i);
+  return n <= MAX_EXACT_STOPS ? exactOrder(cost) : heuristicOrder(cost);
+}
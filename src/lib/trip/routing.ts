@@ -0,0 +1,107 @@
+/**
+ * Travel distances between trip stops.
+ *
+ * Providers:
+ * - Haversine - straight-line distance scaled to an estimated road distance;
+ *   no network, always available
+ * - OSRM - real driving distances and times from an OSRM server's table
+ *   service (e.g. a local instance built from an OpenStreetMap extract)
+ */
+
+import { haversineMiles, type LatLng } from '@/lib/utils/geo';
+import type { Result } from '@/lib/data/source';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TravelMatrix {
+  /** miles[i][j]: distance from point i to point j */
+  miles: number[][];
+  /** minutes[i][j]: drive time from point i to point j */
+  minutes: number[][];
+}
+
+export interface RoutingProvider {
+  name: 'haversine' | 'osrm';
+  matrix(points: LatLng[]): Promise<Result<TravelMatrix>>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// Roads between springs are rarely straight; typical road/crow-flies ratio
+const ROAD_DISTANCE_FACTOR = 1.3;
+
+// A mix of highway and slow forest roads
+const AVERAGE_SPEED_MPH = 45;
+
+const METERS_PER_MILE = 1609.34;
+
+// =============================================================================
+// Providers
+// =============================================================================
+
+/**
+ * Estimated road distances and times from straight-line distance
+ */
+export function createHaversineRoutingProvider(): RoutingProvider {
+  return {
+    name: 'haversine',
+    async matrix(points) {
+      const miles = points.map((a) => points.map((b) => haversineMiles(a, b) * ROAD_DISTANCE_FACTOR));
+      const minutes = miles.map((row) => row.map((m) => (m / AVERAGE_SPEED_MPH) * 60));
+      return { ok: true, data: { miles, minutes } };
+    },
+  };
+}
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  distances?: (number | null)[][];
+  durations?: (number | null)[][];
+}
+
+/**
+ * Driving distances from an OSRM server's /table service. Pairs OSRM can't
+ * route between (e.g. a stop off the road network) make the whole matrix fail.
+ */
+export function createOsrmRoutingProvider(baseUrl: string, timeoutMs = 5000): RoutingProvider {
+  const base = baseUrl.replace(/\/$/, '');
+
+  return {
+    name: 'osrm',
+    async matrix(points) {
+      const coordinates = points.map((p) => `${p.lng},${p.lat}`).join(';');
+      const url = `${base}/table/v1/driving/${coordinates}?annotations=distance,duration`;
+
+      let body: OsrmTableResponse;
+      try {
+        const response = await fetch(url, { signal: AbortSignal.timeout(timeoutMs) });
+        body = (await response.json()) as OsrmTableResponse;
+      } catch (error) {
+        console.error('Error fetching OSRM table:', error);
+        return { ok: false, error: `Routing error: ${(error as Error).message}` };
+      }
+
+      if (body.code !== 'Ok' || !body.distances || !body.durations) {
+        return { ok: false, error: `Routing error: ${body.message ?? body.code}` };
+      }
+
+      const { distances, durations } = body;
+      if ([...distances, ...durations].some((row) => row.some((value) => value === null))) {
+        return { ok: false, error: 'Routing error: some stops are unreachable by road' };
+      }
+
+      return {
+        ok: true,
+        data: {
+          miles: distances.map((row) => row.map((meters) => (meters as number) / METERS_PER_MILE)),
+          minutes: durations.map((row) => row.map((seconds) => (seconds as number) / 60)),
+        },
+      };
+    },
+  };
+}
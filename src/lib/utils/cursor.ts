@@ -0,0 +1,80 @@
+/**
+ * Keyset pagination cursors for spring listings.
+ *
+ * Listings are ordered by (name, id). A cursor records the boundary row of the
+ * current page and which direction to page in, encoded as opaque base64url so
+ * it can travel in URLs.
+ */
+
+export type CursorDirection = 'next' | 'prev';
+
+export interface SpringCursor {
+  name: string;
+  id: string;
+  dir: CursorDirection;
+}
+
+// Rows are keyed by UUID, in the database and the fixture data alike
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MAX_NAME_LENGTH = 300;
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): string {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Encode the boundary row of a page as a cursor
+ */
+export function encodeCursor(row: { name: string; id: string }, dir: CursorDirection): string {
+  return toBase64Url(JSON.stringify({ n: row.name, i: row.id, d: dir }));
+}
+
+/**
+ * Decode a cursor from a URL, returning null if it is malformed
+ */
+export function decodeCursor(value: string): SpringCursor | null {
+  try {
+    const parsed = JSON.parse(fromBase64Url(value));
+    const { n: name, i: id, d: dir } = parsed ?? {};
+
+    if (typeof name !== 'string' || name.length === 0 || name.length > MAX_NAME_LENGTH) return null;
+    if (typeof id !== 'string' || !ID_PATTERN.test(id)) return null;
+    if (dir !== 'next' && dir !== 'prev') return null;
+
+    return { name, id, dir };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compare two rows in listing order (name, then id)
+ */
+export function compareKeyset(
+  a: { name: string; id: string },
+  b: { name: string; id: string }
+): number {
+  if (a.name !== b.name) return a.name < b.name ? -1 : 1;
+  if (a.id !== b.id) return a.id < b.id ? -1 : 1;
+  return 0;
+}
+
+/**
+ * Page size from a `limit` URL param: the default when missing or malformed,
+ * capped at `max`
+ */
+export function pageSizeParam(value: string | undefined, defaultSize: number, max: number): number {
+  const parsed = parseInt(value ?? '', 10);
+  return isNaN(parsed) || parsed < 1 ? defaultSize : Math.min(parsed, max);
+}
@@ -0,0 +1,167 @@
+/**
+ * Geographic helpers for code paths that can't use PostGIS
+ */
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points in miles (haversine formula)
+ */
+export function haversineMiles(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Length of a route (a polyline of points) in miles
+ */
+export function routeLengthMiles(route: LatLng[]): number {
+  let total = 0;
+  for (let i = 1; i < route.length; i++) {
+    total += haversineMiles(route[i - 1], route[i]);
+  }
+  return total;
+}
+
+/**
+ * Where a point sits relative to a route: miles from the route's start to the
+ * nearest point on it, and the distance to that nearest point. Each segment is
+ * projected onto a flat plane, which is close enough for corridor widths.
+ */
+export function locateOnRoute(
+  route: LatLng[],
+  point: LatLng
+): { alongMiles: number; distanceMiles: number } {
+  if (route.length === 1) {
+    return { alongMiles: 0, distanceMiles: haversineMiles(route[0], point) };
+  }
+
+  let best = { alongMiles: 0, distanceMiles: Infinity };
+  let travelled = 0;
+
+  for (let i = 1; i < route.length; i++) {
+    const a = route[i - 1];
+    const b = route[i];
+    const lngScale = Math.cos(toRadians((a.lat + b.lat) / 2));
+    const dx = (b.lng - a.lng) * lngScale;
+    const dy = b.lat - a.lat;
+    const lengthSq = dx * dx + dy * dy;
+    const t =
+      lengthSq === 0
+        ? 0
+        : Math.max(0, Math.min(1, (((point.lng - a.lng) * lngScale) * dx + (point.lat - a.lat) * dy) / lengthSq));
+
+    const nearest = { lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng) };
+    const distanceMiles = haversineMiles(nearest, point);
+    const segmentMiles = haversineMiles(a, b);
+
+    if (distanceMiles < best.distanceMiles) {
+      best = { alongMiles: travelled + t * segmentMiles, distanceMiles };
+    }
+    travelled += segmentMiles;
+  }
+
+  return best;
+}
+
+// =============================================================================
+// Areas
+// =============================================================================
+
+/** A search area in GeoJSON ([lng, lat] positions) */
+export type AreaGeometry = GeoJSON.Polygon | GeoJSON.MultiPolygon;
+
+/**
+ * A circle as a closed polygon ring of `segments` points, so a radius search
+ * can use the polygon query
+ */
+export function circlePolygon(center: LatLng, radiusMiles: number, segments = 64): GeoJSON.Polygon {
+  const angular = radiusMiles / EARTH_RADIUS_MILES;
+  const lat1 = toRadians(center.lat);
+  const lng1 = toRadians(center.lng);
+
+  const ring: GeoJSON.Position[] = [];
+  for (let i = 0; i < segments; i++) {
+    const bearing = (2 * Math.PI * i) / segments;
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing)
+    );
+    const lng2 =
+      lng1 +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+        Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+      );
+    ring.push([(lng2 * 180) / Math.PI, (lat2 * 180) / Math.PI]);
+  }
+  ring.push(ring[0]);
+
+  return { type: 'Polygon', coordinates: [ring] };
+}
+
+function polygonsOf(area: AreaGeometry): GeoJSON.Position[][][] {
+  return area.type === 'Polygon' ? [area.coordinates] : area.coordinates;
+}
+
+/**
+ * Even-odd ray casting in lng/lat space, matching the straight edges drawn on
+ * a web map (and the PostGIS query, which treats edges the same way)
+ */
+function ringContains(ring: GeoJSON.Position[], point: LatLng): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > point.lat !== yj > point.lat && point.lng < ((xj - xi) * (point.lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Whether a point falls inside an area: within some polygon's outer ring and
+ * none of its holes
+ */
+export function areaContains(area: AreaGeometry, point: LatLng): boolean {
+  return polygonsOf(area).some(
+    ([outer, ...holes]) => ringContains(outer, point) && !holes.some((hole) => ringContains(hole, point))
+  );
+}
+
+/**
+ * Absolute area of a ring on the sphere in square miles
+ */
+function ringAreaSqMiles(ring: GeoJSON.Position[]): number {
+  let total = 0;
+  for (let i = 1; i < ring.length; i++) {
+    const [lng1, lat1] = ring[i - 1];
+    const [lng2, lat2] = ring[i];
+    total += toRadians(lng2 - lng1) * (2 + Math.sin(toRadians(lat1)) + Math.sin(toRadians(lat2)));
+  }
+  return Math.abs((total * EARTH_RADIUS_MILES * EARTH_RADIUS_MILES) / 2);
+}
+
+/**
+ * Area covered in square miles, holes excluded
+ */
+export function areaSqMiles(area: AreaGeometry): number {
+  return polygonsOf(area).reduce(
+    (sum, [outer, ...holes]) =>
+      sum + ringAreaSqMiles(outer) - holes.reduce((holeSum, hole) => holeSum + ringAreaSqMiles(hole), 0),
+    0
+  );
+}
@@ -0,0 +1,88 @@
+/**
+ * Google encoded polylines (precision 5), the route format mapping APIs hand
+ * out and PostGIS reads with ST_LineFromEncodedPolyline
+ */
+
+import type { LatLng } from './geo';
+
+const PRECISION = 1e5;
+
+/**
+ * Decode a polyline into points; null when the string is malformed
+ */
+export function decodePolyline(encoded: string): LatLng[] | null {
+  const points: LatLng[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  function nextValue(): number | null {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length) return null;
+      byte = encoded.charCodeAt(index++) - 63;
+      if (byte < 0 || byte > 63) return null;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20 && shift < 35);
+    if (byte >= 0x20) return null;
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  }
+
+  while (index < encoded.length) {
+    const dLat = nextValue();
+    const dLng = nextValue();
+    if (dLat === null || dLng === null) return null;
+    lat += dLat;
+    lng += dLng;
+    points.push({ lat: lat / PRECISION, lng: lng / PRECISION });
+  }
+
+  return points;
+}
+
+function encodeValue(value: number): string {
+  let v = value < 0 ? ~(value << 1) : value << 1;
+  let output = '';
+  while (v >= 0x20) {
+    output += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+    v >>= 5;
+  }
+  return output + String.fromCharCode(v + 63);
+}
+
+/**
+ * Encode points as a polyline (coordinates are rounded to 5 decimal places)
+ */
+export function encodePolyline(points: LatLng[]): string {
+  let prevLat = 0;
+  let prevLng = 0;
+  let output = '';
+
+  for (const point of points) {
+    const lat = Math.round(point.lat * PRECISION);
+    const lng = Math.round(point.lng * PRECISION);
+    output += encodeValue(lat - prevLat) + encodeValue(lng - prevLng);
+    prevLat = lat;
+    prevLng = lng;
+  }
+
+  return output;
+}
+
+/**
+ * Parse "lat,lng|lat,lng|..." waypoints; null when any pair is malformed
+ */
+export function parseWaypoints(value: string): LatLng[] | null {
+  const points: LatLng[] = [];
+  for (const pair of value.split('|')) {
+    const [lat, lng, ...rest] = pair.split(',').map((part) => part.trim());
+    if (!lat || !lng || rest.length > 0) return null;
+    const point = { lat: Number(lat), lng: Number(lng) };
+    if (!Number.isFinite(point.lat) || !Number.isFinite(point.lng)) return null;
+    points.push(point);
+  }
+  return points;
+}
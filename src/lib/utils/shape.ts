@@ -0,0 +1,83 @@
+/**
+ * Shapes drawn on the map for draw-to-search, and their compact URL encoding
+ * (the `shape` param on /map and /api/springs/within):
+ *
+ * - Circle:  c:lat,lng,radiusMiles     e.g. c:44.1234,-114.5678,12.5
+ * - Polygon: p:<encoded polyline>      the ring's points, not repeating the first
+ */
+
+import { circlePolygon, type LatLng } from './geo';
+import { decodePolyline, encodePolyline } from './polyline';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type DrawnShape =
+  | { type: 'circle'; center: LatLng; radiusMiles: number }
+  | { type: 'polygon'; points: LatLng[] };
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+// A traced national forest boundary runs to a few thousand points
+export const MAX_SHAPE_POINTS = 5000;
+
+// Roughly the width of the widest western states
+export const MAX_CIRCLE_RADIUS_MILES = 250;
+
+const CIRCLE_PREFIX = 'c:';
+const POLYGON_PREFIX = 'p:';
+
+// =============================================================================
+// Encoding
+// =============================================================================
+
+function inRange(point: LatLng): boolean {
+  return Math.abs(point.lat) <= 90 && Math.abs(point.lng) <= 180;
+}
+
+export function encodeShape(shape: DrawnShape): string {
+  if (shape.type === 'circle') {
+    const { center, radiusMiles } = shape;
+    return `${CIRCLE_PREFIX}${center.lat.toFixed(5)},${center.lng.toFixed(5)},${radiusMiles.toFixed(2)}`;
+  }
+  return `${POLYGON_PREFIX}${encodePolyline(shape.points)}`;
+}
+
+/**
+ * Parse a `shape` param; null when it is malformed, out of range, or too big
+ */
+export function decodeShape(value: string): DrawnShape | null {
+  if (value.startsWith(CIRCLE_PREFIX)) {
+    const parts = value.slice(CIRCLE_PREFIX.length).split(',');
+    if (parts.length !== 3 || parts.some((part) => part.trim() === '')) return null;
+    const [lat, lng, radiusMiles] = parts.map(Number);
+    const center = { lat, lng };
+    if (![lat, lng, radiusMiles].every(Number.isFinite) || !inRange(center)) return null;
+    if (radiusMiles <= 0 || radiusMiles > MAX_CIRCLE_RADIUS_MILES) return null;
+    return { type: 'circle', center, radiusMiles };
+  }
+
+  if (value.startsWith(POLYGON_PREFIX)) {
+    const points = decodePolyline(value.slice(POLYGON_PREFIX.length));
+    if (!points || points.length < 3 || points.length > MAX_SHAPE_POINTS || !points.every(inRange)) {
+      return null;
+    }
+    return { type: 'polygon', points };
+  }
+
+  return null;
+}
+
+/**
+ * The shape as a GeoJSON polygon with a closed ring
+ */
+export function shapeToGeometry(shape: DrawnShape): GeoJSON.Polygon {
+  if (shape.type === 'circle') {
+    return circlePolygon(shape.center, shape.radiusMiles);
+  }
+  const ring = shape.points.map((p): GeoJSON.Position => [p.lng, p.lat]);
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+}
@@ -1,7 +1,71 @@
-import type { SpringSummary, NearbySpring, SpringType, ExperienceType } from '@/types/spring';
+import type { SpringSummary, NearbySpring, SpringType, ExperienceType, SpringFilters } from '@/types/spring';
 
 type FilterableSpring = SpringSummary | NearbySpring;
 
+// SpringFilters keys for enum columns that accept a list of allowed values
+export const MULTI_VALUE_FILTERS = [
+  'fee_type',
+  'access_difficulty',
+  'parking',
+  'cell_service',
+  'crowd_level',
+  'best_season',
+  'clothing_optional',
+] as const;
+
+// SpringFilters keys for nullable boolean feature columns
+export const FEATURE_FILTERS = ['waterfall', 'cliff_jumping', 'rope_swing'] as const;
+
+// URL query params for SpringFilters, shared by /api/springs and /search.
+// Names follow the page URLs (?type=&experience=); list params are comma-separated
+export const SPRING_FILTER_PARAMS = [
+  { param: 'state', key: 'state' },
+  { param: 'type', key: 'spring_type' },
+  { param: 'experience', key: 'experience_type' },
+  { param: 'q', key: 'q' },
+  { param: 'temp_min', key: 'temp_min' },
+  { param: 'temp_max', key: 'temp_max' },
+  { param: 'fee', key: 'fee_type' },
+  { param: 'access', key: 'access_difficulty' },
+  { param: 'parking', key: 'parking' },
+  { param: 'cell', key: 'cell_service' },
+  { param: 'crowd', key: 'crowd_level' },
+  { param: 'season', key: 'best_season' },
+  { param: 'clothing', key: 'clothing_optional' },
+  { param: 'kid_friendly', key: 'kid_friendly' },
+  { param: 'waterfall', key: 'waterfall' },
+  { param: 'cliff_jumping', key: 'cliff_jumping' },
+  { param: 'rope_swing', key: 'rope_swing' },
+  { param: 'exclude_warnings', key: 'exclude_warnings' },
+] as const;
+
+export type SpringFilterParam = (typeof SPRING_FILTER_PARAMS)[number]['param'];
+
+/**
+ * Collect raw filter values keyed by SpringFilters field, ready for springFiltersSchema.
+ * Repeated params (?fee=free&fee=paid) are joined like a comma-separated list.
+ */
+export function readSpringFilterParams(searchParams: URLSearchParams): Record<string, string | undefined> {
+  const raw: Record<string, string | undefined> = {};
+  for (const { param, key } of SPRING_FILTER_PARAMS) {
+    const values = searchParams.getAll(param);
+    raw[key] = values.length ? values.join(',') : undefined;
+  }
+  return raw;
+}
+
+// /tag/[tag] pages and the filters each one applies
+export const TAG_FILTERS: Record<string, SpringFilters> = {
+  free: { fee_type: ['free'] },
+  'clothing-optional': { clothing_optional: ['yes', 'unofficial'] },
+  primitive: { experience_type: 'primitive' },
+  resort: { experience_type: 'resort' },
+  'drive-up': { access_difficulty: ['drive_up'] },
+};
+
+// kid_friendly is free text; these values count as kid friendly for filtering
+export const KID_FRIENDLY_VALUES = ['yes', 'some_areas'] as const;
+
 /**
  * Filter springs by type and experience
  * Works with both SpringSummary and NearbySpring types
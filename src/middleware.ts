@@ -1,17 +1,23 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-
-// Simple in-memory rate limiter
-// Note: Resets on deploy and is per-instance (not distributed across Edge regions)
-// For MVP this is acceptable - upgrade to Vercel KV if abuse becomes a real problem
-const rateLimitMap = new Map<string, { count: number; windowStart: number }>();
-
-// Rate limit config
-const WINDOW_MS = 60 * 1000; // 1 minute window
-const MAX_REQUESTS_USERS = 60; // 60 req/min for browsers (generous for humans)
-const MAX_REQUESTS_BOTS = 30; // 30 req/min for unknown bots
-const MAX_REQUESTS_AGGRESSIVE = 10; // 10 req/min for SEO tool bots
-const MAX_REQUESTS_GOOD_BOTS = 120; // 120 req/min for search engines (2/sec)
+import { lookupApiKey } from '@/lib/api-keys';
+import { createBotVerifier } from '@/lib/bot-verification';
+import { env } from '@/lib/env';
+import {
+  FIRST_PARTY_COOKIE,
+  FIRST_PARTY_TTL_MS,
+  RATE_LIMIT_CONFIG,
+  apiKeyPolicy,
+  checkRateLimit,
+  firstPartySessions,
+  rateLimitHeaders,
+  rateLimitStore,
+  type RateLimitPolicy,
+} from '@/lib/rate-limit';
+
+// Rate limiting with policies from src/lib/rate-limit/config.ts. Counters live
+// in Redis when REDIS_URL is set (shared across instances and deploys), else
+// in this process's memory.
 
 // SEO tool bots - rate limit strictly
 const AGGRESSIVE_BOT_PATTERNS = [
@@ -27,13 +33,22 @@ const AGGRESSIVE_BOT_PATTERNS = [
   /serpstat/i,
 ];
 
-// Search engine bots - allow generously but not unlimited
-const GOOD_BOT_PATTERNS = [
-  /googlebot/i,
-  /bingbot/i,
-  /yandexbot/i,
+// Search engine bots - allow generously but not unlimited, once verified by
+// forward-confirmed reverse DNS under the engine's published domains
+const GOOD_BOTS = [
+  { pattern: /googlebot/i, domains: ['googlebot.com', 'google.com', 'googleusercontent.com'] },
+  { pattern: /bingbot/i, domains: ['search.msn.com'] },
+  { pattern: /yandexbot/i, domains: ['yandex.ru', 'yandex.net', 'yandex.com'] },
+  { pattern: /slurp/i, domains: ['crawl.yahoo.net'] }, // Yahoo
+];
+
+const botVerifier = createBotVerifier();
+
+// Crawlers that publish IP lists rather than rDNS domains, so their user agent
+// can't be verified here. They get their own tier, keyed by IP like any
+// unverified agent so a spoofer can't drain a shared bucket.
+const UNVERIFIABLE_BOT_PATTERNS = [
   /duckduckbot/i,
-  /slurp/i, // Yahoo
   /facebookexternalhit/i,
   /twitterbot/i,
   /linkedinbot/i,
@@ -49,121 +64,167 @@ const BROWSER_PATTERNS = [
   /opera/i,
 ];
 
-function getRateLimitKey(request: NextRequest, userAgent: string): string {
-  // Use bot name if detectable, otherwise IP
-  for (const pattern of [...AGGRESSIVE_BOT_PATTERNS, ...GOOD_BOT_PATTERNS]) {
+function getRateLimitKey(request: NextRequest, userAgent: string, isVerifiedBot: boolean): string {
+  // Use bot name if detectable (and not spoofable into a shared bucket), otherwise IP
+  const patterns = isVerifiedBot
+    ? [...AGGRESSIVE_BOT_PATTERNS, ...GOOD_BOTS.map((bot) => bot.pattern)]
+    : AGGRESSIVE_BOT_PATTERNS;
+  for (const pattern of patterns) {
     const match = userAgent.match(pattern);
     if (match) {
       return `bot:${match[0].toLowerCase()}`;
     }
   }
   // Fall back to IP for unknown user agents
-  const ip =
-    request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
-    request.headers.get('x-real-ip') ||
-    'unknown';
-  return `ip:${ip}`;
+  return `ip:${getClientIp(request)}`;
 }
 
-function isRateLimited(key: string, maxRequests: number): boolean {
-  const now = Date.now();
-
-  // Lazy cleanup: remove stale entries (Edge Runtime doesn't support setInterval)
-  // Only clean up a few entries per request to avoid performance impact
-  let cleanupCount = 0;
-  for (const [k, record] of rateLimitMap.entries()) {
-    if (now - record.windowStart > WINDOW_MS * 2) {
-      rateLimitMap.delete(k);
-      cleanupCount++;
-      if (cleanupCount >= 10) break; // Limit cleanup per request
-    }
+/**
+ * The client's IP as our own proxy saw it.
+ *
+ * Each proxy appends the address it got the request from to X-Forwarded-For,
+ * so the leftmost entries are whatever the client sent and only the last
+ * TRUSTED_PROXY_HOPS (default 1: the hosting platform's edge, or an nginx in
+ * front) were written by infrastructure we run. The entry that many places
+ * from the right is the client. x-real-ip is only read from proxies that set
+ * it instead of X-Forwarded-For. The app must not be reachable except through
+ * the proxy, or both headers are the client's to choose.
+ */
+function getClientIp(request: NextRequest): string {
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length > 0) {
+    return forwarded[Math.max(0, forwarded.length - env.trustedProxyHops)];
   }
+  return request.headers.get('x-real-ip')?.trim() || 'unknown';
+}
 
-  const record = rateLimitMap.get(key);
+// =============================================================================
+// API Quotas
+// =============================================================================
+
+/**
+ * /api/* - API key from the X-API-Key header or api_key query param, else the
+ * per-IP quota: first-party for browsers holding a session cookie from a page
+ * render, anonymous for everyone else
+ */
+async function handleApiRequest(request: NextRequest): Promise<NextResponse> {
+  // CORS preflights carry no key and do no work
+  if (request.method === 'OPTIONS') {
+    return NextResponse.next();
+  }
+
+  const rawKey =
+    request.headers.get('x-api-key') || request.nextUrl.searchParams.get('api_key');
+
+  const ip = getClientIp(request);
+  const ipKey = `api:ip:${ip}`;
+  let quotaKey = ipKey;
+  let policy: RateLimitPolicy = firstPartySessions.verify(request.cookies.get(FIRST_PARTY_COOKIE)?.value, ip)
+    ? RATE_LIMIT_CONFIG.api.firstParty
+    : RATE_LIMIT_CONFIG.api.anonymous;
+
+  if (rawKey) {
+    const result = await lookupApiKey(rawKey);
+
+    if (result.ok && !result.data) {
+      // Bad keys spend the anonymous quota, which caps key guessing per IP
+      const quota = await checkRateLimit(rateLimitStore, ipKey, RATE_LIMIT_CONFIG.api.anonymous);
+      return NextResponse.json(
+        { error: quota.limited ? 'Rate limit exceeded' : 'Invalid API key' },
+        { status: quota.limited ? 429 : 401, headers: rateLimitHeaders(quota) }
+      );
+    }
 
-  if (!record || now - record.windowStart > WINDOW_MS) {
-    // New window
-    rateLimitMap.set(key, { count: 1, windowStart: now });
-    return false;
+    // A failed lookup falls back to the IP quota rather than rejecting the partner
+    if (result.ok && result.data) {
+      quotaKey = `api:key:${result.data.id}`;
+      policy = apiKeyPolicy(result.data);
+    }
   }
 
-  if (record.count >= maxRequests) {
-    return true;
+  const quota = await checkRateLimit(rateLimitStore, quotaKey, policy);
+  const headers = rateLimitHeaders(quota);
+
+  if (quota.limited) {
+    return NextResponse.json({ error: 'Rate limit exceeded' }, { status: 429, headers });
   }
 
-  record.count++;
-  return false;
+  const response = NextResponse.next();
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
 }
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest) {
+  if (request.nextUrl.pathname.startsWith('/api/')) {
+    return handleApiRequest(request);
+  }
+
   const userAgent = request.headers.get('user-agent') || '';
-  const key = getRateLimitKey(request, userAgent);
 
   // Determine traffic type
   const isAggressiveBot = AGGRESSIVE_BOT_PATTERNS.some((p) => p.test(userAgent));
-  const isGoodBot = GOOD_BOT_PATTERNS.some((p) => p.test(userAgent));
+  const isUnverifiableBot = UNVERIFIABLE_BOT_PATTERNS.some((p) => p.test(userAgent));
+  const claimedBot = GOOD_BOTS.find((bot) => bot.pattern.test(userAgent));
+  const isGoodBot =
+    claimedBot !== undefined && (await botVerifier.verify(getClientIp(request), claimedBot.domains));
   const isBrowser = BROWSER_PATTERNS.some((p) => p.test(userAgent));
 
-  // Good bots (search engines) - generous but not unlimited
-  if (isGoodBot) {
-    if (isRateLimited(key, MAX_REQUESTS_GOOD_BOTS)) {
-      return new NextResponse('Too Many Requests', {
-        status: 429,
-        headers: {
-          'Retry-After': '60',
-          'Content-Type': 'text/plain',
-        },
-      });
-    }
-    return NextResponse.next();
-  }
+  const key = getRateLimitKey(request, userAgent, isGoodBot);
 
-  // Aggressive SEO bots - strict rate limit
-  if (isAggressiveBot) {
-    if (isRateLimited(key, MAX_REQUESTS_AGGRESSIVE)) {
-      return new NextResponse('Too Many Requests', {
-        status: 429,
-        headers: {
-          'Retry-After': '60',
-          'Content-Type': 'text/plain',
-        },
-      });
-    }
-    return NextResponse.next();
-  }
+  // Spoofed search bots (their user agents also look like browsers) drop to
+  // the unknown-agent tier
+  const { pages } = RATE_LIMIT_CONFIG;
+  const policy = isGoodBot
+    ? pages.goodBot
+    : isAggressiveBot
+      ? pages.aggressiveBot
+      : isUnverifiableBot
+        ? pages.unverifiableBot
+        : isBrowser && !claimedBot
+          ? pages.browser
+          : pages.unknown;
 
-  // Browsers (likely humans) - generous limit
-  if (isBrowser) {
-    if (isRateLimited(key, MAX_REQUESTS_USERS)) {
-      return new NextResponse('Too Many Requests', {
-        status: 429,
-        headers: {
-          'Retry-After': '60',
-          'Content-Type': 'text/plain',
-        },
-      });
-    }
-    return NextResponse.next();
-  }
+  const result = await checkRateLimit(rateLimitStore, `page:${key}`, policy);
 
-  // Unknown bots/agents - moderate limit
-  if (isRateLimited(key, MAX_REQUESTS_BOTS)) {
+  if (result.limited) {
     return new NextResponse('Too Many Requests', {
       status: 429,
       headers: {
-        'Retry-After': '60',
+        ...rateLimitHeaders(result),
         'Content-Type': 'text/plain',
       },
     });
   }
 
-  return NextResponse.next();
+  const response = NextResponse.next();
+
+  // Browsers' map, search and typeahead calls get the first-party API quota
+  if (policy === pages.browser) {
+    response.cookies.set(FIRST_PARTY_COOKIE, firstPartySessions.issue(getClientIp(request)), {
+      httpOnly: true,
+      sameSite: 'strict',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/api',
+      maxAge: FIRST_PARTY_TTL_MS / 1000,
+    });
+  }
+
+  return response;
 }
 
-// Only run middleware on page routes, not static assets
+// Run middleware on page and API routes, not static assets
 export const config = {
+  // Node.js rather than Edge, so the Redis store can open a TCP connection
+  runtime: 'nodejs',
   matcher: [
     // Match all routes except static files and api
-    '/((?!_next/static|_next/image|favicon.ico|robots.txt|sitemap|api).*)',
+    '/((?!_next/static|_next/image|favicon.ico|robots.txt|sitemap|manifest.webmanifest|sw.js|tiles/|api).*)',
+    // API routes get per-key / per-IP quotas instead
+    '/api/:path*',
   ],
 };
@@ -58,6 +58,7 @@ export type Database = {
           confidence: Database['public']['Enums']['confidence_level'] | null;
           created_at: string;
           updated_at: string;
+          search_vector: unknown; // tsvector maintained by the springs_search_vector trigger
         };
         Insert: {
           id?: string;
@@ -171,6 +172,54 @@ export type Database = {
         };
         Relationships: [];
       };
+      api_keys: {
+        Row: {
+          id: string;
+          key_hash: string;
+          name: string;
+          per_minute_limit: number;
+          per_day_limit: number;
+          created_at: string;
+          revoked_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          key_hash: string;
+          name: string;
+          per_minute_limit?: number;
+          per_day_limit?: number;
+          created_at?: string;
+          revoked_at?: string | null;
+        };
+        Update: {
+          id?: string;
+          key_hash?: string;
+          name?: string;
+          per_minute_limit?: number;
+          per_day_limit?: number;
+          created_at?: string;
+          revoked_at?: string | null;
+        };
+        Relationships: [];
+      };
+      spring_slug_history: {
+        Row: {
+          slug: string;
+          spring_id: string;
+          changed_at: string;
+        };
+        Insert: {
+          slug: string;
+          spring_id: string;
+          changed_at?: string;
+        };
+        Update: {
+          slug?: string;
+          spring_id?: string;
+          changed_at?: string;
+        };
+        Relationships: [];
+      };
       tavily_cache: {
         Row: {
           id: string;
@@ -209,6 +258,11 @@ export type Database = {
           search_lng: number;
           radius_miles?: number;
           max_results?: number;
+          filter_spring_type?: Database['public']['Enums']['spring_type'] | null;
+          filter_experience_type?: Database['public']['Enums']['experience_type'] | null;
+          filter_fee_type?: Database['public']['Enums']['fee_type'] | null;
+          filter_access_difficulty?: Database['public']['Enums']['access_difficulty'] | null;
+          filter_clothing_optional?: Database['public']['Enums']['clothing_optional_type'] | null;
         };
         Returns: {
           id: string;
@@ -227,6 +281,170 @@ export type Database = {
           fee_type: Database['public']['Enums']['fee_type'] | null;
         }[];
       };
+      springs_along_route: {
+        Args: {
+          route_polyline: string;
+          corridor_miles?: number;
+          max_results?: number;
+          filter_spring_type?: Database['public']['Enums']['spring_type'] | null;
+          filter_experience_type?: Database['public']['Enums']['experience_type'] | null;
+          filter_fee_type?: Database['public']['Enums']['fee_type'] | null;
+          filter_access_difficulty?: Database['public']['Enums']['access_difficulty'] | null;
+          filter_clothing_optional?: Database['public']['Enums']['clothing_optional_type'] | null;
+        };
+        Returns: {
+          id: string;
+          name: string;
+          slug: string;
+          state: string;
+          spring_type: Database['public']['Enums']['spring_type'];
+          experience_type: Database['public']['Enums']['experience_type'];
+          lat: number;
+          lng: number;
+          photo_url: string | null;
+          temp_f: number | null;
+          access_difficulty: Database['public']['Enums']['access_difficulty'] | null;
+          parking: Database['public']['Enums']['parking_type'] | null;
+          fee_type: Database['public']['Enums']['fee_type'] | null;
+          route_miles: number;
+          detour_miles: number;
+        }[];
+      };
+      springs_in_bbox: {
+        Args: {
+          min_lng: number;
+          min_lat: number;
+          max_lng: number;
+          max_lat: number;
+          max_results?: number;
+          filter_spring_type?: Database['public']['Enums']['spring_type'] | null;
+          filter_experience_type?: Database['public']['Enums']['experience_type'] | null;
+        };
+        Returns: {
+          id: string;
+          name: string;
+          slug: string;
+          lat: number;
+          lng: number;
+          spring_type: Database['public']['Enums']['spring_type'];
+          experience_type: Database['public']['Enums']['experience_type'];
+        }[];
+      };
+      springs_in_polygon: {
+        Args: {
+          shape_geojson: string;
+          max_results?: number;
+          filter_spring_type?: Database['public']['Enums']['spring_type'] | null;
+          filter_experience_type?: Database['public']['Enums']['experience_type'] | null;
+          filter_fee_type?: Database['public']['Enums']['fee_type'] | null;
+          filter_access_difficulty?: Database['public']['Enums']['access_difficulty'] | null;
+          filter_clothing_optional?: Database['public']['Enums']['clothing_optional_type'] | null;
+        };
+        Returns: {
+          id: string;
+          name: string;
+          slug: string;
+          state: string;
+          spring_type: Database['public']['Enums']['spring_type'];
+          experience_type: Database['public']['Enums']['experience_type'];
+          lat: number;
+          lng: number;
+          photo_url: string | null;
+          temp_f: number | null;
+          access_difficulty: Database['public']['Enums']['access_difficulty'] | null;
+          parking: Database['public']['Enums']['parking_type'] | null;
+          fee_type: Database['public']['Enums']['fee_type'] | null;
+        }[];
+      };
+      search_springs: {
+        Args: {
+          search_query: string;
+          max_results?: number;
+          filter_state?: string | null;
+          filter_spring_type?: Database['public']['Enums']['spring_type'] | null;
+          filter_experience_type?: Database['public']['Enums']['experience_type'] | null;
+        };
+        Returns: {
+          id: string;
+          name: string;
+          slug: string;
+          state: string;
+          lat: number;
+          lng: number;
+          spring_type: Database['public']['Enums']['spring_type'];
+          experience_type: Database['public']['Enums']['experience_type'];
+          photo_url: string | null;
+          temp_f: number | null;
+          access_difficulty: Database['public']['Enums']['access_difficulty'] | null;
+          parking: Database['public']['Enums']['parking_type'] | null;
+          fee_type: Database['public']['Enums']['fee_type'] | null;
+          rank: number;
+          snippet: string | null;
+          total_count: number;
+        }[];
+      };
+      filter_springs: {
+        Args: {
+          filters?: Json;
+          sort_by?: string;
+          origin_lat?: number | null;
+          origin_lng?: number | null;
+          max_results?: number;
+        };
+        Returns: {
+          id: string;
+          name: string;
+          slug: string;
+          state: string;
+          lat: number;
+          lng: number;
+          spring_type: Database['public']['Enums']['spring_type'];
+          experience_type: Database['public']['Enums']['experience_type'];
+          photo_url: string | null;
+          temp_f: number | null;
+          access_difficulty: Database['public']['Enums']['access_difficulty'] | null;
+          parking: Database['public']['Enums']['parking_type'] | null;
+          fee_type: Database['public']['Enums']['fee_type'] | null;
+          distance_miles: number | null;
+          created_at: string;
+          total_count: number;
+        }[];
+      };
+      spring_facet_counts: {
+        Args: {
+          filters?: Json;
+        };
+        Returns: {
+          facet: string;
+          value: string;
+          count: number;
+        }[];
+      };
+      spring_tiles: {
+        Args: {
+          z: number;
+          x: number;
+          y: number;
+        };
+        Returns: string; // bytea, hex-encoded by PostgREST (\x...)
+      };
+      api_key_quota: {
+        Args: {
+          lookup_key_hash: string;
+        };
+        Returns: {
+          id: string;
+          name: string;
+          per_minute_limit: number;
+          per_day_limit: number;
+        }[];
+      };
+      resolve_spring_slug: {
+        Args: {
+          old_slug: string;
+        };
+        Returns: string | null;
+      };
     };
     Enums: {
       spring_type: 'hot' | 'warm' | 'cold';
@@ -110,6 +110,107 @@ export interface SpringSummary {
   fee_type: FeeType | null;
 }
 
+// Lightweight marker shape for maps (from springs_in_bbox)
+export interface SpringMarker {
+  id: string;
+  name: string;
+  slug: string;
+  lat: number;
+  lng: number;
+  spring_type: SpringType;
+  experience_type: ExperienceType;
+}
+
+// Map viewport bounds in degrees
+export interface MapBounds {
+  west: number;
+  south: number;
+  east: number;
+  north: number;
+}
+
+// Optional filters for nearby searches (applied in SQL before the limit)
+export interface NearbyFilters {
+  spring_type?: SpringType;
+  experience_type?: ExperienceType;
+  fee_type?: FeeType;
+  access_difficulty?: AccessDifficulty;
+  clothing_optional?: ClothingOptionalType;
+}
+
+// Keyset-paginated springs list (ordered by name, id)
+export interface SpringPage {
+  springs: SpringSummary[];
+  total: number; // Matching rows across all pages
+  next_cursor: string | null;
+  prev_cursor: string | null;
+}
+
+// Keyset pagination parameters
+export interface PageParams {
+  cursor?: string; // Opaque cursor from SpringPage.next_cursor / prev_cursor
+  limit?: number;
+}
+
+// Relevance-ranked search result (from search_springs PostGIS function)
+export interface SpringSearchResult extends SpringSummary {
+  rank: number;
+  snippet: string | null; // Description excerpt with matches wrapped in <mark></mark>
+}
+
+// Ranked search results page
+export interface SpringSearchPage {
+  springs: SpringSearchResult[];
+  total: number;
+}
+
+// Sort orders for the faceted /search page
+export type SpringSort = 'name' | 'distance' | 'temperature' | 'recent';
+
+// Faceted search result (from filter_springs PostGIS function)
+export interface FacetedSpring extends SpringSummary {
+  distance_miles: number | null; // Only set when an origin is given
+  created_at: string;
+}
+
+// Faceted search results page
+export interface FacetedSearchPage {
+  springs: FacetedSpring[];
+  total: number;
+}
+
+// Facets reported by spring_facet_counts; temperature values are 'min-max' buckets
+export type SpringFacetKey =
+  | 'state'
+  | 'spring_type'
+  | 'experience_type'
+  | 'temperature'
+  | 'fee_type'
+  | 'access_difficulty'
+  | 'parking'
+  | 'cell_service'
+  | 'crowd_level'
+  | 'best_season'
+  | 'clothing_optional'
+  | 'kid_friendly'
+  | 'waterfall'
+  | 'cliff_jumping'
+  | 'rope_swing'
+  | 'exclude_warnings';
+
+// Facet -> value -> count of springs matching every other active filter
+export type SpringFacetCounts = Partial<Record<SpringFacetKey, Record<string, number>>>;
+
+// Typeahead suggestion (from /api/autocomplete)
+export type SuggestionKind = 'spring' | 'city' | 'state';
+
+export interface Suggestion {
+  kind: SuggestionKind;
+  label: string;
+  detail: string; // Secondary text, e.g. "Hot spring · ID", "State" or "Springs within 100 miles"
+  url: string; // Destination path
+}
+
 // State type
 export interface State {
   code: string;
@@ -139,12 +240,38 @@ export interface NearbySpring {
   fee_type: FeeType | null;
 }
 
+// Spring in a route corridor (from springs_along_route PostGIS function)
+export interface RouteSpring extends SpringSummary {
+  route_miles: number; // Distance from the route's start to the spring's nearest point on it
+  detour_miles: number; // Out and back from that point, straight-line
+}
+
 // Filter parameters
-export interface SpringFilters {
+export interface SpringFilters extends PageParams {
   state?: string;
   spring_type?: SpringType;
   experience_type?: ExperienceType;
   q?: string; // search query
-  limit?: number;
-  offset?: number;
+
+  // Temperature range in °F (inclusive); springs with no temp_f never match
+  temp_min?: number;
+  temp_max?: number;
+
+  // Multi-valued enum filters: match any of the listed values
+  fee_type?: FeeType[];
+  access_difficulty?: AccessDifficulty[];
+  parking?: ParkingType[];
+  cell_service?: CellServiceType[];
+  crowd_level?: CrowdLevel[];
+  best_season?: BestSeason[];
+  clothing_optional?: ClothingOptionalType[];
+
+  // Feature filters: true = must have, false = must not be known to have
+  kid_friendly?: boolean;
+  waterfall?: boolean;
+  cliff_jumping?: boolean;
+  rope_swing?: boolean;
+
+  // Drop springs flagged with any of these warnings
+  exclude_warnings?: WarningType[];
 }
@@ -0,0 +1,52 @@
+-- Extend nearby_springs with optional attribute filters
+-- Filters are applied in SQL before the LIMIT, so a filtered request near a
+-- cluster of non-matching springs still returns the closest matches.
+-- NOTE: Filter params use a filter_ prefix to avoid collision with output columns
+
+-- Drop existing function first (signature is changing)
+DROP FUNCTION IF EXISTS nearby_springs(double precision, double precision, integer, integer);
+
+CREATE OR REPLACE FUNCTION nearby_springs(
+  search_lat DOUBLE PRECISION,
+  search_lng DOUBLE PRECISION,
+  radius_miles INTEGER DEFAULT 50,
+  max_results INTEGER DEFAULT 10,
+  filter_spring_type spring_type DEFAULT NULL,
+  filter_experience_type experience_type DEFAULT NULL,
+  filter_fee_type fee_type DEFAULT NULL,
+  filter_access_difficulty access_difficulty DEFAULT NULL,
+  filter_clothing_optional clothing_optional_type DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  state CHAR(2),
+  spring_type spring_type,
+  experience_type experience_type,
+  distance_miles DOUBLE PRECISION,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  photo_url TEXT,
+  temp_f INTEGER,
+  access_difficulty access_difficulty,
+  parking parking_type,
+  fee_type fee_type
+)
+LANGUAGE SQL STABLE
+AS $$
+  SELECT
+    s.id, s.name, s.slug, s.state, s.spring_type, s.experience_type,
+    ST_Distance(s.location, ST_SetSRID(ST_MakePoint(search_lng, search_lat), 4326)::geography) / 1609.34 AS distance_miles,
+    s.lat, s.lng, s.photo_url,
+    s.temp_f, s.access_difficulty, s.parking, s.fee_type
+  FROM springs s
+  WHERE ST_DWithin(s.location, ST_SetSRID(ST_MakePoint(search_lng, search_lat), 4326)::geography, radius_miles * 1609.34)
+    AND (filter_spring_type IS NULL OR s.spring_type = filter_spring_type)
+    AND (filter_experience_type IS NULL OR s.experience_type = filter_experience_type)
+    AND (filter_fee_type IS NULL OR s.fee_type = filter_fee_type)
+    AND (filter_access_difficulty IS NULL OR s.access_difficulty = filter_access_difficulty)
+    AND (filter_clothing_optional IS NULL OR s.clothing_optional = filter_clothing_optional)
+  ORDER BY distance_miles
+  LIMIT max_results;
+$$;
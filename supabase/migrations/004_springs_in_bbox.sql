@@ -0,0 +1,33 @@
+-- Springs inside a map viewport, returned in the lightweight marker shape SpringMap uses
+-- Springs with photos come first so low-zoom (capped) results favour the best-documented spots
+-- NOTE: Viewports crossing the antimeridian are not supported (callers split or clamp them)
+
+CREATE OR REPLACE FUNCTION springs_in_bbox(
+  min_lng DOUBLE PRECISION,
+  min_lat DOUBLE PRECISION,
+  max_lng DOUBLE PRECISION,
+  max_lat DOUBLE PRECISION,
+  max_results INTEGER DEFAULT 500,
+  filter_spring_type spring_type DEFAULT NULL,
+  filter_experience_type experience_type DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  spring_type spring_type,
+  experience_type experience_type
+)
+LANGUAGE SQL STABLE
+AS $$
+  SELECT
+    s.id, s.name, s.slug, s.lat, s.lng, s.spring_type, s.experience_type
+  FROM springs s
+  WHERE s.location && ST_MakeEnvelope(min_lng, min_lat, max_lng, max_lat, 4326)::geography
+    AND (filter_spring_type IS NULL OR s.spring_type = filter_spring_type)
+    AND (filter_experience_type IS NULL OR s.experience_type = filter_experience_type)
+  ORDER BY (s.photo_url IS NOT NULL) DESC, s.name
+  LIMIT max_results;
+$$;
@@ -0,0 +1,29 @@
+-- Mapbox Vector Tiles of spring points for the nationwide map
+-- Served by /api/tiles/{z}/{x}/{y}.pbf; one layer named 'springs'
+-- NOTE: Enum columns are cast to text - ST_AsMVT only encodes basic attribute types
+
+CREATE OR REPLACE FUNCTION spring_tiles(z INTEGER, x INTEGER, y INTEGER)
+RETURNS BYTEA
+LANGUAGE SQL STABLE PARALLEL SAFE
+AS $$
+  WITH bounds AS (
+    -- Small margin so markers near tile edges aren't clipped
+    SELECT
+      ST_TileEnvelope(z, x, y) AS tile,
+      ST_Transform(ST_TileEnvelope(z, x, y, margin => 64.0 / 4096), 4326)::geography AS search_area
+  ),
+  features AS (
+    SELECT
+      ST_AsMVTGeom(ST_Transform(s.location::geometry, 3857), bounds.tile, 4096, 64, true) AS geom,
+      s.slug,
+      s.name,
+      s.spring_type::text AS spring_type,
+      s.experience_type::text AS experience_type,
+      s.temp_f,
+      s.fee_type::text AS fee_type
+    FROM springs s, bounds
+    WHERE s.location && bounds.search_area
+  )
+  SELECT ST_AsMVT(features.*, 'springs', 4096, 'geom')
+  FROM features;
+$$;
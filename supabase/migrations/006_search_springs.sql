@@ -0,0 +1,83 @@
+-- Relevance-ranked spring search
+-- Combines a weighted full-text vector (name A, description B, state C) with
+-- trigram word similarity on the name, so typos like "strwberry" still match.
+-- Run this AFTER 001_code_review_fixes.sql (needs pg_trgm and idx_springs_name_trgm)
+
+-- =============================================================================
+-- 1. Stored search vector
+-- =============================================================================
+
+ALTER TABLE springs
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(state, '')), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_springs_search_vector ON springs USING gin(search_vector);
+
+-- =============================================================================
+-- 2. Search function
+-- =============================================================================
+
+-- State names live in the states table, so they are added to the vector at query time
+CREATE OR REPLACE FUNCTION search_springs(
+  search_query TEXT,
+  max_results INTEGER DEFAULT 20,
+  filter_state CHAR(2) DEFAULT NULL,
+  filter_spring_type spring_type DEFAULT NULL,
+  filter_experience_type experience_type DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  state CHAR(2),
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  spring_type spring_type,
+  experience_type experience_type,
+  photo_url TEXT,
+  temp_f INTEGER,
+  access_difficulty access_difficulty,
+  parking parking_type,
+  fee_type fee_type,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE SQL STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsq
+  ),
+  matches AS (
+    SELECT
+      s.*,
+      ts_rank(s.search_vector || setweight(to_tsvector('simple', st.name), 'C'), q.tsq) AS text_rank,
+      word_similarity(search_query, s.name) AS name_similarity,
+      q.tsq
+    FROM springs s
+    JOIN states st ON st.code = s.state
+    CROSS JOIN query q
+    WHERE (
+        (s.search_vector || setweight(to_tsvector('simple', st.name), 'C')) @@ q.tsq
+        OR search_query <% s.name
+      )
+      AND (filter_state IS NULL OR s.state = filter_state)
+      AND (filter_spring_type IS NULL OR s.spring_type = filter_spring_type)
+      AND (filter_experience_type IS NULL OR s.experience_type = filter_experience_type)
+  )
+  SELECT
+    m.id, m.name, m.slug, m.state, m.lat, m.lng, m.spring_type, m.experience_type,
+    m.photo_url, m.temp_f, m.access_difficulty, m.parking, m.fee_type,
+    (m.text_rank + m.name_similarity)::REAL AS rank,
+    ts_headline(
+      'english', m.description, m.tsq,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=1'
+    ) AS snippet,
+    COUNT(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY rank DESC, m.name
+  LIMIT max_results;
+$$;
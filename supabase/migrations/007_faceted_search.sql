@@ -0,0 +1,204 @@
+-- Faceted spring search for /search
+-- Filters arrive as one JSONB object shaped like SpringFilters (src/types/spring.ts),
+-- so adding a filter doesn't change any function signature.
+-- Run this AFTER 006_search_springs.sql (uses search_vector)
+
+-- =============================================================================
+-- 1. Per-spring filter misses
+-- =============================================================================
+
+-- Lists the filters each spring fails. Results need an empty list; a facet's
+-- counts accept springs whose only miss is that facet, so selecting a value
+-- never zeroes out its siblings.
+-- Semantics match applySpringFilters in src/lib/supabase/server.ts: unknown
+-- (NULL) values never satisfy a range, list or "true" filter; "false" keeps them.
+-- The one difference is q, which uses search_springs' full-text/fuzzy match
+-- rather than a name substring.
+CREATE OR REPLACE FUNCTION spring_filter_misses(filters JSONB)
+RETURNS TABLE (spring_id UUID, misses TEXT[])
+LANGUAGE SQL STABLE
+AS $$
+  WITH f AS (
+    SELECT
+      upper(filters->>'state') AS state,
+      (filters->>'spring_type')::spring_type AS spring_type,
+      (filters->>'experience_type')::experience_type AS experience_type,
+      nullif(trim(filters->>'q'), '') AS q,
+      websearch_to_tsquery('english', coalesce(filters->>'q', '')) AS tsq,
+      (filters->>'temp_min')::NUMERIC AS temp_min,
+      (filters->>'temp_max')::NUMERIC AS temp_max,
+      ARRAY(SELECT jsonb_array_elements_text(filters->'fee_type'))::fee_type[] AS fee_type,
+      ARRAY(SELECT jsonb_array_elements_text(filters->'access_difficulty'))::access_difficulty[] AS access_difficulty,
+      ARRAY(SELECT jsonb_array_elements_text(filters->'parking'))::parking_type[] AS parking,
+      ARRAY(SELECT jsonb_array_elements_text(filters->'cell_service'))::cell_service_type[] AS cell_service,
+      ARRAY(SELECT jsonb_array_elements_text(filters->'crowd_level'))::crowd_level[] AS crowd_level,
+      ARRAY(SELECT jsonb_array_elements_text(filters->'best_season'))::best_season[] AS best_season,
+      ARRAY(SELECT jsonb_array_elements_text(filters->'clothing_optional'))::clothing_optional_type[] AS clothing_optional,
+      (filters->>'kid_friendly')::BOOLEAN AS kid_friendly,
+      (filters->>'waterfall')::BOOLEAN AS waterfall,
+      (filters->>'cliff_jumping')::BOOLEAN AS cliff_jumping,
+      (filters->>'rope_swing')::BOOLEAN AS rope_swing,
+      ARRAY(SELECT jsonb_array_elements_text(filters->'exclude_warnings'))::warning_type[] AS exclude_warnings
+  )
+  SELECT
+    s.id,
+    array_remove(ARRAY[
+      CASE WHEN f.state IS NOT NULL AND s.state <> f.state THEN 'state' END,
+      CASE WHEN f.spring_type IS NOT NULL AND s.spring_type <> f.spring_type THEN 'spring_type' END,
+      CASE WHEN f.experience_type IS NOT NULL AND s.experience_type <> f.experience_type THEN 'experience_type' END,
+      CASE WHEN f.q IS NOT NULL AND NOT (s.search_vector @@ f.tsq OR f.q <% s.name) THEN 'q' END,
+      CASE
+        WHEN (f.temp_min IS NOT NULL AND coalesce(s.temp_f < f.temp_min, true))
+          OR (f.temp_max IS NOT NULL AND coalesce(s.temp_f > f.temp_max, true))
+        THEN 'temperature'
+      END,
+      CASE WHEN cardinality(f.fee_type) > 0 AND NOT coalesce(s.fee_type = ANY(f.fee_type), false) THEN 'fee_type' END,
+      CASE WHEN cardinality(f.access_difficulty) > 0 AND NOT coalesce(s.access_difficulty = ANY(f.access_difficulty), false) THEN 'access_difficulty' END,
+      CASE WHEN cardinality(f.parking) > 0 AND NOT coalesce(s.parking = ANY(f.parking), false) THEN 'parking' END,
+      CASE WHEN cardinality(f.cell_service) > 0 AND NOT coalesce(s.cell_service = ANY(f.cell_service), false) THEN 'cell_service' END,
+      CASE WHEN cardinality(f.crowd_level) > 0 AND NOT coalesce(s.crowd_level = ANY(f.crowd_level), false) THEN 'crowd_level' END,
+      CASE WHEN cardinality(f.best_season) > 0 AND NOT coalesce(s.best_season = ANY(f.best_season), false) THEN 'best_season' END,
+      CASE WHEN cardinality(f.clothing_optional) > 0 AND NOT coalesce(s.clothing_optional = ANY(f.clothing_optional), false) THEN 'clothing_optional' END,
+      CASE WHEN f.kid_friendly IS NOT NULL AND coalesce(s.kid_friendly IN ('yes', 'some_areas'), false) <> f.kid_friendly THEN 'kid_friendly' END,
+      CASE WHEN f.waterfall IS NOT NULL AND (s.waterfall IS TRUE) <> f.waterfall THEN 'waterfall' END,
+      CASE WHEN f.cliff_jumping IS NOT NULL AND (s.cliff_jumping IS TRUE) <> f.cliff_jumping THEN 'cliff_jumping' END,
+      CASE WHEN f.rope_swing IS NOT NULL AND (s.rope_swing IS TRUE) <> f.rope_swing THEN 'rope_swing' END,
+      CASE WHEN cardinality(f.exclude_warnings) > 0 AND coalesce(s.warnings && f.exclude_warnings, false) THEN 'exclude_warnings' END
+    ], NULL) AS misses
+  FROM springs s
+  CROSS JOIN f;
+$$;
+
+-- =============================================================================
+-- 2. Sorted results
+-- =============================================================================
+
+-- sort_by: 'name' | 'distance' | 'temperature' | 'recent'
+-- Distance needs an origin; without one it falls back to name order
+CREATE OR REPLACE FUNCTION filter_springs(
+  filters JSONB DEFAULT '{}',
+  sort_by TEXT DEFAULT 'name',
+  origin_lat DOUBLE PRECISION DEFAULT NULL,
+  origin_lng DOUBLE PRECISION DEFAULT NULL,
+  max_results INTEGER DEFAULT 100
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  state CHAR(2),
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  spring_type spring_type,
+  experience_type experience_type,
+  photo_url TEXT,
+  temp_f INTEGER,
+  access_difficulty access_difficulty,
+  parking parking_type,
+  fee_type fee_type,
+  distance_miles DOUBLE PRECISION,
+  created_at TIMESTAMPTZ,
+  total_count BIGINT
+)
+LANGUAGE SQL STABLE
+AS $$
+  WITH origin AS (
+    SELECT CASE
+      WHEN origin_lat IS NOT NULL AND origin_lng IS NOT NULL
+      THEN ST_SetSRID(ST_MakePoint(origin_lng, origin_lat), 4326)::geography
+    END AS point
+  )
+  SELECT
+    s.id, s.name, s.slug, s.state, s.lat, s.lng, s.spring_type, s.experience_type,
+    s.photo_url, s.temp_f, s.access_difficulty, s.parking, s.fee_type,
+    ST_Distance(s.location, o.point) / 1609.34 AS distance_miles,
+    s.created_at,
+    COUNT(*) OVER () AS total_count
+  FROM spring_filter_misses(filters) m
+  JOIN springs s ON s.id = m.spring_id
+  CROSS JOIN origin o
+  WHERE cardinality(m.misses) = 0
+  ORDER BY
+    CASE WHEN sort_by = 'distance' THEN ST_Distance(s.location, o.point) END ASC NULLS LAST,
+    CASE WHEN sort_by = 'temperature' THEN s.temp_f END DESC NULLS LAST,
+    CASE WHEN sort_by = 'recent' THEN s.created_at END DESC NULLS LAST,
+    s.name, s.id
+  LIMIT max_results;
+$$;
+
+-- =============================================================================
+-- 3. Facet counts
+-- =============================================================================
+
+-- One row per (facet, value). Boolean facets only report 'true'; the
+-- exclude_warnings facet counts springs carrying each warning; temperature is
+-- bucketed as 'min-max' strings that map straight onto temp_min/temp_max.
+CREATE OR REPLACE FUNCTION spring_facet_counts(filters JSONB DEFAULT '{}')
+RETURNS TABLE (facet TEXT, value TEXT, count BIGINT)
+LANGUAGE SQL STABLE
+AS $$
+  WITH candidates AS (
+    SELECT s.*, m.misses
+    FROM spring_filter_misses(filters) m
+    JOIN springs s ON s.id = m.spring_id
+    WHERE cardinality(m.misses) <= 1
+  )
+  SELECT 'state', c.state::TEXT, COUNT(*) FROM candidates c
+    WHERE c.misses <@ ARRAY['state'] GROUP BY c.state
+  UNION ALL
+  SELECT 'spring_type', c.spring_type::TEXT, COUNT(*) FROM candidates c
+    WHERE c.misses <@ ARRAY['spring_type'] GROUP BY c.spring_type
+  UNION ALL
+  SELECT 'experience_type', c.experience_type::TEXT, COUNT(*) FROM candidates c
+    WHERE c.misses <@ ARRAY['experience_type'] GROUP BY c.experience_type
+  UNION ALL
+  SELECT 'temperature', b.bucket, COUNT(*)
+    FROM candidates c
+    CROSS JOIN LATERAL (
+      SELECT CASE
+        WHEN c.temp_f < 70 THEN '0-69'
+        WHEN c.temp_f < 100 THEN '70-99'
+        WHEN c.temp_f < 110 THEN '100-109'
+        ELSE '110-250'
+      END AS bucket
+    ) b
+    WHERE c.temp_f IS NOT NULL AND c.misses <@ ARRAY['temperature'] GROUP BY b.bucket
+  UNION ALL
+  SELECT 'fee_type', c.fee_type::TEXT, COUNT(*) FROM candidates c
+    WHERE c.fee_type IS NOT NULL AND c.misses <@ ARRAY['fee_type'] GROUP BY c.fee_type
+  UNION ALL
+  SELECT 'access_difficulty', c.access_difficulty::TEXT, COUNT(*) FROM candidates c
+    WHERE c.access_difficulty IS NOT NULL AND c.misses <@ ARRAY['access_difficulty'] GROUP BY c.access_difficulty
+  UNION ALL
+  SELECT 'parking', c.parking::TEXT, COUNT(*) FROM candidates c
+    WHERE c.parking IS NOT NULL AND c.misses <@ ARRAY['parking'] GROUP BY c.parking
+  UNION ALL
+  SELECT 'cell_service', c.cell_service::TEXT, COUNT(*) FROM candidates c
+    WHERE c.cell_service IS NOT NULL AND c.misses <@ ARRAY['cell_service'] GROUP BY c.cell_service
+  UNION ALL
+  SELECT 'crowd_level', c.crowd_level::TEXT, COUNT(*) FROM candidates c
+    WHERE c.crowd_level IS NOT NULL AND c.misses <@ ARRAY['crowd_level'] GROUP BY c.crowd_level
+  UNION ALL
+  SELECT 'best_season', c.best_season::TEXT, COUNT(*) FROM candidates c
+    WHERE c.best_season IS NOT NULL AND c.misses <@ ARRAY['best_season'] GROUP BY c.best_season
+  UNION ALL
+  SELECT 'clothing_optional', c.clothing_optional::TEXT, COUNT(*) FROM candidates c
+    WHERE c.clothing_optional IS NOT NULL AND c.misses <@ ARRAY['clothing_optional'] GROUP BY c.clothing_optional
+  UNION ALL
+  SELECT 'kid_friendly', 'true', COUNT(*) FROM candidates c
+    WHERE c.kid_friendly IN ('yes', 'some_areas') AND c.misses <@ ARRAY['kid_friendly']
+  UNION ALL
+  SELECT 'waterfall', 'true', COUNT(*) FROM candidates c
+    WHERE c.waterfall AND c.misses <@ ARRAY['waterfall']
+  UNION ALL
+  SELECT 'cliff_jumping', 'true', COUNT(*) FROM candidates c
+    WHERE c.cliff_jumping AND c.misses <@ ARRAY['cliff_jumping']
+  UNION ALL
+  SELECT 'rope_swing', 'true', COUNT(*) FROM candidates c
+    WHERE c.rope_swing AND c.misses <@ ARRAY['rope_swing']
+  UNION ALL
+  SELECT 'exclude_warnings', w.warning::TEXT, COUNT(*)
+    FROM candidates c
+    CROSS JOIN LATERAL unnest(c.warnings) AS w(warning)
+    WHERE c.misses <@ ARRAY['exclude_warnings'] GROUP BY w.warning;
+$$;
@@ -0,0 +1,61 @@
+-- Slug history: every slug a spring has had, so renamed springs keep their URLs
+-- A trigger records the old slug whenever springs.slug changes (including the
+-- "fixes" applied by scripts/05-validate-data.ts); /springs/[slug] permanently
+-- redirects old slugs to the current one via resolve_spring_slug()
+
+CREATE TABLE IF NOT EXISTS spring_slug_history (
+  slug TEXT PRIMARY KEY,
+  spring_id UUID NOT NULL REFERENCES springs(id) ON DELETE CASCADE,
+  changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_spring_slug_history_spring_id ON spring_slug_history(spring_id);
+
+ALTER TABLE spring_slug_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Public read spring slug history" ON spring_slug_history FOR SELECT USING (true);
+
+-- =============================================================================
+-- Trigger
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION record_spring_slug_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- A live slug never redirects: drop any history row it reclaims
+  -- (a rename reverted, or a new spring taking a retired slug)
+  DELETE FROM spring_slug_history WHERE slug = NEW.slug;
+
+  IF TG_OP = 'UPDATE' AND OLD.slug IS DISTINCT FROM NEW.slug THEN
+    -- A slug retired twice points at whichever spring gave it up last
+    INSERT INTO spring_slug_history (slug, spring_id)
+    VALUES (OLD.slug, NEW.id)
+    ON CONFLICT (slug) DO UPDATE
+      SET spring_id = EXCLUDED.spring_id, changed_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS springs_slug_history ON springs;
+
+CREATE TRIGGER springs_slug_history
+  AFTER INSERT OR UPDATE OF slug ON springs
+  FOR EACH ROW
+  EXECUTE FUNCTION record_spring_slug_change();
+
+-- =============================================================================
+-- Lookup
+-- =============================================================================
+
+-- Current slug for a retired one, or NULL when the slug was never used
+CREATE OR REPLACE FUNCTION resolve_spring_slug(old_slug TEXT)
+RETURNS TEXT
+LANGUAGE SQL STABLE
+AS $$
+  SELECT s.slug
+  FROM spring_slug_history h
+  JOIN springs s ON s.id = h.spring_id
+  WHERE h.slug = old_slug;
+$$;
@@ -0,0 +1,37 @@
+-- API keys for the public JSON API (/api/*)
+-- Only a SHA-256 hash of each key is stored; the raw key is shown once by
+-- scripts/create-api-key.ts. Keys are not readable through the anon role:
+-- the middleware resolves them with api_key_quota(), which returns quotas only.
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key_hash TEXT NOT NULL UNIQUE,   -- hex SHA-256 of the raw key
+  name TEXT NOT NULL,              -- partner or integration name
+  per_minute_limit INTEGER NOT NULL DEFAULT 120 CHECK (per_minute_limit > 0),
+  per_day_limit INTEGER NOT NULL DEFAULT 20000 CHECK (per_day_limit > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMPTZ          -- set to disable a key without deleting its history
+);
+
+-- RLS with no policies: only the service role can read or write keys
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
+
+-- Quotas for an active key, or no row for unknown and revoked keys
+CREATE OR REPLACE FUNCTION api_key_quota(lookup_key_hash TEXT)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  per_minute_limit INTEGER,
+  per_day_limit INTEGER
+)
+LANGUAGE SQL STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT k.id, k.name, k.per_minute_limit, k.per_day_limit
+  FROM api_keys k
+  WHERE k.key_hash = lookup_key_hash
+    AND k.revoked_at IS NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION api_key_quota(TEXT) TO anon, authenticated;
@@ -0,0 +1,63 @@
+-- Corridor search: springs within a distance of a route line, ordered by
+-- where they fall along it. Backs /api/along-route and the /plan page.
+--
+-- The route is a Google encoded polyline (precision 5). When more springs are
+-- in the corridor than max_results, the ones closest to the route are kept,
+-- so a long route isn't cut off partway.
+-- NOTE: Filter params use a filter_ prefix to avoid collision with output columns
+
+CREATE OR REPLACE FUNCTION springs_along_route(
+  route_polyline TEXT,
+  corridor_miles DOUBLE PRECISION DEFAULT 10,
+  max_results INTEGER DEFAULT 100,
+  filter_spring_type spring_type DEFAULT NULL,
+  filter_experience_type experience_type DEFAULT NULL,
+  filter_fee_type fee_type DEFAULT NULL,
+  filter_access_difficulty access_difficulty DEFAULT NULL,
+  filter_clothing_optional clothing_optional_type DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  state CHAR(2),
+  spring_type spring_type,
+  experience_type experience_type,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  photo_url TEXT,
+  temp_f INTEGER,
+  access_difficulty access_difficulty,
+  parking parking_type,
+  fee_type fee_type,
+  route_miles DOUBLE PRECISION,
+  detour_miles DOUBLE PRECISION
+)
+LANGUAGE SQL STABLE
+AS $$
+  WITH route AS (
+    SELECT line, line::geography AS geog, ST_Length(line::geography) / 1609.34 AS length_miles
+    FROM (SELECT ST_SetSRID(ST_LineFromEncodedPolyline(route_polyline, 5), 4326) AS line) r
+  ),
+  closest AS (
+    SELECT
+      s.id, s.name, s.slug, s.state, s.spring_type, s.experience_type,
+      s.lat, s.lng, s.photo_url,
+      s.temp_f, s.access_difficulty, s.parking, s.fee_type,
+      -- Fraction along the line in lng/lat space, scaled by the true length
+      ST_LineLocatePoint(route.line, s.location::geometry) * route.length_miles AS route_miles,
+      -- Out and back from the nearest point on the route, straight-line
+      2 * ST_Distance(s.location, route.geog) / 1609.34 AS detour_miles
+    FROM springs s, route
+    WHERE ST_DWithin(s.location, route.geog, corridor_miles * 1609.34)
+      AND (filter_spring_type IS NULL OR s.spring_type = filter_spring_type)
+      AND (filter_experience_type IS NULL OR s.experience_type = filter_experience_type)
+      AND (filter_fee_type IS NULL OR s.fee_type = filter_fee_type)
+      AND (filter_access_difficulty IS NULL OR s.access_difficulty = filter_access_difficulty)
+      AND (filter_clothing_optional IS NULL OR s.clothing_optional = filter_clothing_optional)
+    ORDER BY detour_miles
+    LIMIT max_results
+  )
+  SELECT * FROM closest
+  ORDER BY route_miles, detour_miles;
+$$;
@@ -0,0 +1,53 @@
+-- Draw-to-search: springs inside a polygon drawn on the map (circles arrive as
+-- polygons too). Backs /api/springs/within and the /map draw tools.
+--
+-- The shape is a GeoJSON Polygon or MultiPolygon in lng/lat. Containment is
+-- tested on geometry, so edges are straight lines in lng/lat space - the same
+-- lines the map draws - rather than great circles.
+-- NOTE: Filter params use a filter_ prefix to avoid collision with output columns
+
+CREATE OR REPLACE FUNCTION springs_in_polygon(
+  shape_geojson TEXT,
+  max_results INTEGER DEFAULT 200,
+  filter_spring_type spring_type DEFAULT NULL,
+  filter_experience_type experience_type DEFAULT NULL,
+  filter_fee_type fee_type DEFAULT NULL,
+  filter_access_difficulty access_difficulty DEFAULT NULL,
+  filter_clothing_optional clothing_optional_type DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  state CHAR(2),
+  spring_type spring_type,
+  experience_type experience_type,
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  photo_url TEXT,
+  temp_f INTEGER,
+  access_difficulty access_difficulty,
+  parking parking_type,
+  fee_type fee_type
+)
+LANGUAGE SQL STABLE
+AS $$
+  WITH shape AS (
+    SELECT ST_SetSRID(ST_GeomFromGeoJSON(shape_geojson), 4326) AS geom
+  )
+  SELECT
+    s.id, s.name, s.slug, s.state, s.spring_type, s.experience_type,
+    s.lat, s.lng, s.photo_url,
+    s.temp_f, s.access_difficulty, s.parking, s.fee_type
+  FROM springs s, shape
+  -- Bounding-box prefilter on the location index, then the exact test
+  WHERE s.location && shape.geom::geography
+    AND ST_Covers(shape.geom, s.location::geometry)
+    AND (filter_spring_type IS NULL OR s.spring_type = filter_spring_type)
+    AND (filter_experience_type IS NULL OR s.experience_type = filter_experience_type)
+    AND (filter_fee_type IS NULL OR s.fee_type = filter_fee_type)
+    AND (filter_access_difficulty IS NULL OR s.access_difficulty = filter_access_difficulty)
+    AND (filter_clothing_optional IS NULL OR s.clothing_optional = filter_clothing_optional)
+  ORDER BY (s.photo_url IS NOT NULL) DESC, s.name
+  LIMIT max_results;
+$$;
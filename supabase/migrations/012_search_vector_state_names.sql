@@ -0,0 +1,118 @@
+-- Index-backed spring search
+-- 006 added state names to the search vector at query time, inside an OR with
+-- the trigram match. That expression can't use idx_springs_search_vector, so
+-- every search scanned the table and built a tsvector per row.
+--
+-- search_vector now carries the state name itself, kept current by a trigger
+-- (a generated column can't read the states table), and search_springs matches
+-- through two branches that each use their own index.
+-- Run this AFTER 006_search_springs.sql
+
+-- =============================================================================
+-- 1. Trigger-maintained search vector
+-- =============================================================================
+
+ALTER TABLE springs DROP COLUMN IF EXISTS search_vector;
+ALTER TABLE springs ADD COLUMN search_vector TSVECTOR;
+
+CREATE OR REPLACE FUNCTION spring_search_vector(
+  spring_name TEXT,
+  spring_description TEXT,
+  spring_state CHAR(2)
+)
+RETURNS TSVECTOR
+LANGUAGE SQL STABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(spring_name, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(spring_description, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(spring_state, '')), 'C') ||
+    setweight(to_tsvector('simple', coalesce((SELECT st.name FROM states st WHERE st.code = spring_state), '')), 'C');
+$$;
+
+CREATE OR REPLACE FUNCTION update_spring_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := spring_search_vector(NEW.name, NEW.description, NEW.state);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS springs_search_vector ON springs;
+
+CREATE TRIGGER springs_search_vector
+  BEFORE INSERT OR UPDATE OF name, description, state ON springs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_spring_search_vector();
+
+UPDATE springs SET search_vector = spring_search_vector(name, description, state);
+
+CREATE INDEX IF NOT EXISTS idx_springs_search_vector ON springs USING gin(search_vector);
+
+-- =============================================================================
+-- 2. Search function
+-- =============================================================================
+
+CREATE OR REPLACE FUNCTION search_springs(
+  search_query TEXT,
+  max_results INTEGER DEFAULT 20,
+  filter_state CHAR(2) DEFAULT NULL,
+  filter_spring_type spring_type DEFAULT NULL,
+  filter_experience_type experience_type DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  slug TEXT,
+  state CHAR(2),
+  lat DOUBLE PRECISION,
+  lng DOUBLE PRECISION,
+  spring_type spring_type,
+  experience_type experience_type,
+  photo_url TEXT,
+  temp_f INTEGER,
+  access_difficulty access_difficulty,
+  parking parking_type,
+  fee_type fee_type,
+  rank REAL,
+  snippet TEXT,
+  total_count BIGINT
+)
+LANGUAGE SQL STABLE
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('english', search_query) AS tsq
+  ),
+  -- Full-text matches (idx_springs_search_vector) and fuzzy name matches
+  -- (idx_springs_name_trgm), each found through its index
+  candidates AS (
+    SELECT s.id FROM springs s, query q WHERE s.search_vector @@ q.tsq
+    UNION
+    SELECT s.id FROM springs s WHERE search_query <% s.name
+  ),
+  matches AS (
+    SELECT
+      s.*,
+      ts_rank(s.search_vector, q.tsq) AS text_rank,
+      word_similarity(search_query, s.name) AS name_similarity,
+      q.tsq
+    FROM candidates c
+    JOIN springs s ON s.id = c.id
+    CROSS JOIN query q
+    WHERE (filter_state IS NULL OR s.state = filter_state)
+      AND (filter_spring_type IS NULL OR s.spring_type = filter_spring_type)
+      AND (filter_experience_type IS NULL OR s.experience_type = filter_experience_type)
+  )
+  SELECT
+    m.id, m.name, m.slug, m.state, m.lat, m.lng, m.spring_type, m.experience_type,
+    m.photo_url, m.temp_f, m.access_difficulty, m.parking, m.fee_type,
+    (m.text_rank + m.name_similarity)::REAL AS rank,
+    ts_headline(
+      'english', m.description, m.tsq,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=1'
+    ) AS snippet,
+    COUNT(*) OVER () AS total_count
+  FROM matches m
+  ORDER BY rank DESC, m.name
+  LIMIT max_results;
+$$;
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createBotVerifier, type DnsResolver } from '@/lib/bot-verification';
+
+const GOOGLE = ['googlebot.com', 'google.com'];
+const BOT_IP = '66.249.66.1';
+const BOT_HOST = 'crawl-66-249-66-1.googlebot.com.';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function dnsError(code: string): Error {
+  return Object.assign(new Error(`queryPtr ${code}`), { code });
+}
+
+/** Resolver answering from fixed PTR and A/AAAA records */
+function fakeResolver(ptr: Record<string, string[]>, addresses: Record<string, string[]>) {
+  return {
+    reverse: vi.fn<DnsResolver['reverse']>(async (ip) => {
+      if (!ptr[ip]) throw dnsError('ENOTFOUND');
+      return ptr[ip];
+    }),
+    resolve: vi.fn<DnsResolver['resolve']>(async (hostname) => addresses[hostname] ?? []),
+  };
+}
+
+describe('createBotVerifier', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('verifies an IP whose PTR host is under the domain and resolves back to it', async () => {
+    const resolver = fakeResolver({ [BOT_IP]: [BOT_HOST] }, { [BOT_HOST]: [BOT_IP] });
+
+    expect(await createBotVerifier(resolver).verify(BOT_IP, GOOGLE)).toBe(true);
+    expect(resolver.resolve).toHaveBeenCalledWith(BOT_HOST, 4);
+  });
+
+  it('matches IPv6 addresses case-insensitively with an AAAA lookup', async () => {
+    const ip = '2001:4860:4801:10::1';
+    const resolver = fakeResolver({ [ip]: [BOT_HOST] }, { [BOT_HOST]: [ip.toUpperCase()] });
+
+    expect(await createBotVerifier(resolver).verify(ip, GOOGLE)).toBe(true);
+    expect(resolver.resolve).toHaveBeenCalledWith(BOT_HOST, 6);
+  });
+
+  it('rejects a PTR record under the domain that does not resolve back to the IP', async () => {
+    // Anyone controlling the reverse zone for their IP can claim googlebot.com
+    const resolver = fakeResolver({ '203.0.113.7': [BOT_HOST] }, { [BOT_HOST]: [BOT_IP] });
+
+    expect(await createBotVerifier(resolver).verify('203.0.113.7', GOOGLE)).toBe(false);
+  });
+
+  it('rejects look-alike domains without a forward lookup', async () => {
+    const hosts = ['crawl.evilgooglebot.com', 'googlebot.com.evil.example', 'googlebot.com'];
+    const resolver = fakeResolver(
+      { '203.0.113.7': hosts },
+      Object.fromEntries(hosts.map((host) => [host, ['203.0.113.7']]))
+    );
+
+    expect(await createBotVerifier(resolver).verify('203.0.113.7', GOOGLE)).toBe(false);
+    expect(resolver.resolve).not.toHaveBeenCalled();
+  });
+
+  it('rejects values that are not IPs without a lookup', async () => {
+    const resolver = fakeResolver({}, {});
+
+    expect(await createBotVerifier(resolver).verify('unknown', GOOGLE)).toBe(false);
+    expect(resolver.reverse).not.toHaveBeenCalled();
+  });
+
+  it('caches a verdict until its TTL, and shares lookups in flight', async () => {
+    const resolver = fakeResolver({ [BOT_IP]: [BOT_HOST] }, { [BOT_HOST]: [BOT_IP] });
+    const verifier = createBotVerifier(resolver);
+
+    await Promise.all([verifier.verify(BOT_IP, GOOGLE), verifier.verify(BOT_IP, GOOGLE)]);
+    vi.advanceTimersByTime(24 * HOUR_MS - 1);
+    expect(await verifier.verify(BOT_IP, GOOGLE)).toBe(true);
+    expect(resolver.reverse).toHaveBeenCalledTimes(1);
+
+    // Verified bots are re-checked daily
+    vi.advanceTimersByTime(1);
+    await verifier.verify(BOT_IP, GOOGLE);
+    expect(resolver.reverse).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches a rejection for an hour', async () => {
+    const resolver = fakeResolver({}, {});
+    const verifier = createBotVerifier(resolver);
+
+    expect(await verifier.verify('203.0.113.7', GOOGLE)).toBe(false);
+    vi.advanceTimersByTime(HOUR_MS - 1);
+    await verifier.verify('203.0.113.7', GOOGLE);
+    expect(resolver.reverse).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await verifier.verify('203.0.113.7', GOOGLE);
+    expect(resolver.reverse).toHaveBeenCalledTimes(2);
+  });
+
+  it('keys the cache by the domains asked about', async () => {
+    const resolver = fakeResolver({ [BOT_IP]: [BOT_HOST] }, { [BOT_HOST]: [BOT_IP] });
+    const verifier = createBotVerifier(resolver);
+
+    expect(await verifier.verify(BOT_IP, GOOGLE)).toBe(true);
+    expect(await verifier.verify(BOT_IP, ['search.msn.com'])).toBe(false);
+  });
+
+  it('fails closed on resolver errors and retries after five minutes', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const resolver = fakeResolver({ [BOT_IP]: [BOT_HOST] }, { [BOT_HOST]: [BOT_IP] });
+    resolver.reverse.mockRejectedValueOnce(dnsError('ETIMEOUT'));
+    const verifier = createBotVerifier(resolver);
+
+    expect(await verifier.verify(BOT_IP, GOOGLE)).toBe(false);
+    expect(error).toHaveBeenCalledWith('Bot verification DNS error:', expect.any(Error));
+
+    vi.advanceTimersByTime(5 * 60 * 1000 - 1);
+    expect(await verifier.verify(BOT_IP, GOOGLE)).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(await verifier.verify(BOT_IP, GOOGLE)).toBe(true);
+  });
+
+  it('fails closed when the forward lookup errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const resolver = fakeResolver({ [BOT_IP]: [BOT_HOST] }, {});
+    resolver.resolve.mockRejectedValueOnce(dnsError('ESERVFAIL'));
+
+    expect(await createBotVerifier(resolver).verify(BOT_IP, GOOGLE)).toBe(false);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { FIRST_PARTY_TTL_MS, createFirstPartySessions } from '@/lib/rate-limit/first-party';
+
+const NOW = 1_700_000_000_000;
+const IP = '198.51.100.9';
+
+describe('createFirstPartySessions', () => {
+  const sessions = createFirstPartySessions('test-secret');
+
+  it('accepts a token from the IP it was issued to until it expires', () => {
+    const token = sessions.issue(IP, NOW);
+
+    expect(sessions.verify(token, IP, NOW)).toBe(true);
+    expect(sessions.verify(token, IP, NOW + FIRST_PARTY_TTL_MS - 1)).toBe(true);
+    expect(sessions.verify(token, IP, NOW + FIRST_PARTY_TTL_MS)).toBe(false);
+  });
+
+  it('rejects a token from another IP', () => {
+    expect(sessions.verify(sessions.issue(IP, NOW), '203.0.113.7', NOW)).toBe(false);
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const forged = createFirstPartySessions('other-secret').issue(IP, NOW);
+    expect(sessions.verify(forged, IP, NOW)).toBe(false);
+  });
+
+  it('rejects a token whose expiry was pushed back', () => {
+    const [, signature] = sessions.issue(IP, NOW).split('.');
+    expect(sessions.verify(`${NOW + 10 * FIRST_PARTY_TTL_MS}.${signature}`, IP, NOW)).toBe(false);
+  });
+
+  it('rejects missing and malformed tokens', () => {
+    for (const token of [undefined, '', 'same-origin', `${NOW + 1000}`, `${NOW + 1000}.`, 'abc.def']) {
+      expect(sessions.verify(token, IP, NOW)).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RateLimitPolicy } from '@/lib/rate-limit/config';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit/limiter';
+import { createMemoryRateLimitStore, type RateLimitStore } from '@/lib/rate-limit/store';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// 15 seconds into a minute bucket, so 3/4 of the previous bucket still counts
+const BUCKET_START = 1_000 * MINUTE_MS;
+const NOW = BUCKET_START + 15_000;
+
+const perMinute = (limit: number): RateLimitPolicy => [{ limit, windowMs: MINUTE_MS }];
+
+async function hit(store: RateLimitStore, policy: RateLimitPolicy, times: number) {
+  for (let i = 0; i < times; i++) await checkRateLimit(store, 'ip:1', policy);
+}
+
+describe('checkRateLimit', () => {
+  let store: RateLimitStore;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = createMemoryRateLimitStore();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('weights the previous bucket by how much of it overlaps the window', async () => {
+    vi.setSystemTime(BUCKET_START - MINUTE_MS);
+    await hit(store, perMinute(10), 8);
+    vi.setSystemTime(NOW);
+    await hit(store, perMinute(10), 3);
+
+    // 8 * 0.75 + 3 = 9 used, so this request is the last that fits
+    const result = await checkRateLimit(store, 'ip:1', perMinute(10));
+    expect(result).toEqual({ limited: false, limit: 10, remaining: 0, resetAt: BUCKET_START + MINUTE_MS });
+  });
+
+  it('reports when the decaying previous bucket makes room', async () => {
+    vi.setSystemTime(BUCKET_START - MINUTE_MS);
+    await hit(store, perMinute(10), 8);
+    vi.setSystemTime(NOW);
+    await hit(store, perMinute(10), 4);
+
+    // 8 * 0.75 + 4 = 10 used; one request fits once the previous bucket
+    // weighs 5, i.e. 1/8 of a window (7.5s) later
+    const result = await checkRateLimit(store, 'ip:1', perMinute(10));
+    expect(result).toEqual({ limited: true, limit: 10, remaining: 0, resetAt: NOW + 7_500 });
+
+    vi.setSystemTime(NOW + 7_499);
+    expect((await checkRateLimit(store, 'ip:1', perMinute(10))).limited).toBe(true);
+    vi.setSystemTime(NOW + 7_500);
+    expect((await checkRateLimit(store, 'ip:1', perMinute(10))).limited).toBe(false);
+  });
+
+  it('waits for the rollover when the current bucket alone is full', async () => {
+    vi.setSystemTime(NOW);
+    await hit(store, perMinute(5), 5);
+
+    const result = await checkRateLimit(store, 'ip:1', perMinute(5));
+    expect(result).toEqual({ limited: true, limit: 5, remaining: 0, resetAt: BUCKET_START + MINUTE_MS });
+  });
+
+  it('counts nothing when any window is full, and reports the tightest one', async () => {
+    const policy: RateLimitPolicy = [
+      { limit: 5, windowMs: MINUTE_MS },
+      { limit: 2, windowMs: DAY_MS },
+    ];
+    vi.setSystemTime(NOW);
+
+    const first = await checkRateLimit(store, 'ip:1', policy);
+    expect(first).toMatchObject({ limited: false, limit: 2, remaining: 1 });
+    await checkRateLimit(store, 'ip:1', policy);
+    expect((await checkRateLimit(store, 'ip:1', policy)).limited).toBe(true);
+
+    // The refused request didn't use up the minute window
+    const minute = await checkRateLimit(store, 'ip:1', perMinute(3));
+    expect(minute).toMatchObject({ limited: false, remaining: 0 });
+  });
+
+  it('keeps keys separate', async () => {
+    vi.setSystemTime(NOW);
+    await hit(store, perMinute(1), 1);
+
+    expect((await checkRateLimit(store, 'ip:1', perMinute(1))).limited).toBe(true);
+    expect((await checkRateLimit(store, 'ip:2', perMinute(1))).limited).toBe(false);
+  });
+
+  it('lets exactly the limit through when requests arrive at once', async () => {
+    vi.setSystemTime(NOW);
+
+    const results = await Promise.all(
+      Array.from({ length: 25 }, () => checkRateLimit(store, 'ip:1', perMinute(10)))
+    );
+    expect(results.filter((r) => !r.limited)).toHaveLength(10);
+  });
+
+  it('fails open when the store is down', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const down: RateLimitStore = { consume: () => Promise.reject(new Error('ECONNREFUSED')) };
+
+    const result = await checkRateLimit(down, 'ip:1', perMinute(10), NOW);
+    expect(result).toEqual({ limited: false, limit: 10, remaining: 10, resetAt: NOW });
+    expect(error).toHaveBeenCalledWith('Rate limit store error:', expect.any(Error));
+  });
+});
+
+describe('rateLimitHeaders', () => {
+  it('gives the reset in Unix seconds', () => {
+    const headers = rateLimitHeaders({ limited: false, limit: 10, remaining: 4, resetAt: NOW + 1 }, NOW);
+    expect(headers).toEqual({
+      'X-RateLimit-Limit': '10',
+      'X-RateLimit-Remaining': '4',
+      'X-RateLimit-Reset': String(Math.ceil((NOW + 1) / 1000)),
+    });
+  });
+
+  it('adds Retry-After, rounded up, when limited', () => {
+    const headers = rateLimitHeaders({ limited: true, limit: 10, remaining: 0, resetAt: NOW + 7_500 }, NOW);
+    expect(headers['Retry-After']).toBe('8');
+  });
+
+  it('never asks for a retry sooner than a second', () => {
+    const headers = rateLimitHeaders({ limited: true, limit: 10, remaining: 0, resetAt: NOW }, NOW);
+    expect(headers['Retry-After']).toBe('1');
+  });
+});
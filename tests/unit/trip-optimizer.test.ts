@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_EXACT_STOPS,
+  MAX_TRIP_STOPS,
+  exactOrder,
+  heuristicOrder,
+  optimizeOrder,
+  pathCost,
+} from '@/lib/trip/optimizer';
+
+type Point = [number, number];
+
+// Manhattan distance between grid points: symmetric, with no ties broken by float noise
+function gridCost(points: Point[]): number[][] {
+  return points.map((a) => points.map((b) => Math.abs(a[0] - b[0]) + Math.abs(a[1] - b[1])));
+}
+
+/** Deterministic points for larger instances */
+function gridPoints(n: number, seed = 1): Point[] {
+  let state = seed;
+  const next = () => (state = (state * 16807) % 2147483647) % 100;
+  return Array.from({ length: n }, () => [next(), next()]);
+}
+
+/** Cheapest path by trying every order */
+function bruteForceCost(cost: number[][]): number {
+  let best = Infinity;
+  const visit = (order: number[], remaining: number[]) => {
+    if (remaining.length === 0) {
+      best = Math.min(best, pathCost(cost, order));
+      return;
+    }
+    for (const stop of remaining) {
+      visit([...order, stop], remaining.filter((s) => s !== stop));
+    }
+  };
+  visit([], cost.map((_, i) => i));
+  return best;
+}
+
+function isPermutation(order: number[], n: number): boolean {
+  return order.length === n && [...order].sort((a, b) => a - b).every((stop, i) => stop === i);
+}
+
+// Nearest-neighbour plus 2-opt settles on a path of 54 here; the best is 52
+const TRAP: Point[] = [
+  [5, 17],
+  [15, 12],
+  [12, 19],
+  [0, 6],
+  [10, 9],
+  [15, 3],
+];
+
+describe('pathCost', () => {
+  const cost = [
+    [0, 2, 9],
+    [1, 0, 6],
+    [15, 7, 0],
+  ];
+
+  it('sums the legs in order, in the direction travelled', () => {
+    expect(pathCost(cost, [0, 1, 2])).toBe(8);
+    expect(pathCost(cost, [2, 1, 0])).toBe(8);
+    expect(pathCost(cost, [2, 0, 1])).toBe(17);
+  });
+
+  it('is zero without a leg', () => {
+    expect(pathCost(cost, [])).toBe(0);
+    expect(pathCost(cost, [1])).toBe(0);
+  });
+});
+
+describe('optimizeOrder', () => {
+  it('handles trips of zero, one and two stops', () => {
+    expect(optimizeOrder([])).toEqual([]);
+    expect(optimizeOrder([[0]])).toEqual([0]);
+    expect(optimizeOrder(gridCost([[0, 0], [5, 5]]))).toEqual([0, 1]);
+  });
+
+  it('finds the best path where the heuristic does not', () => {
+    const cost = gridCost(TRAP);
+
+    expect(pathCost(cost, heuristicOrder(cost))).toBe(54);
+    expect(pathCost(cost, exactOrder(cost))).toBe(52);
+    expect(pathCost(cost, optimizeOrder(cost))).toBe(52);
+  });
+
+  it('matches brute force on small trips', () => {
+    for (let n = 3; n <= 8; n++) {
+      const cost = gridCost(gridPoints(n, n));
+      const order = optimizeOrder(cost);
+
+      expect(isPermutation(order, n)).toBe(true);
+      expect(pathCost(cost, order)).toBe(bruteForceCost(cost));
+    }
+  });
+
+  it('solves exactly up to MAX_EXACT_STOPS, then switches to the heuristic', () => {
+    const atLimit = gridCost(gridPoints(MAX_EXACT_STOPS));
+    expect(optimizeOrder(atLimit)).toEqual(exactOrder(atLimit));
+
+    const overLimit = gridCost(gridPoints(MAX_EXACT_STOPS + 1));
+    expect(optimizeOrder(overLimit)).toEqual(heuristicOrder(overLimit));
+  });
+
+  it('visits every stop once on the largest trips', () => {
+    const cost = gridCost(gridPoints(MAX_TRIP_STOPS));
+    expect(isPermutation(optimizeOrder(cost), MAX_TRIP_STOPS)).toBe(true);
+  });
+});